@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
 
+// Identifies a deployment; the service worker is registered with it so each
+// build installs a fresh worker and caches
+const buildId = process.env.BUILD_ID || Date.now().toString(36);
+
 const nextConfig: NextConfig = {
   poweredByHeader: false,
+  generateBuildId: async () => buildId,
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
   compress: true,
   images: {
     domains: [],
@@ -22,6 +30,20 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      {
+        // Browsers must always see the latest worker to notice an update
+        source: "/sw.js",
+        headers: [
+          {
+            key: "Content-Type",
+            value: "application/javascript; charset=utf-8",
+          },
+          {
+            key: "Cache-Control",
+            value: "no-cache, no-store, must-revalidate",
+          },
+        ],
+      },
     ];
   },
 };
@@ -0,0 +1,148 @@
+// Service worker for the installable app. It precaches the app shell so the
+// scanner opens without a connection; photos and reports already live in
+// IndexedDB and the capture queue runs the AI calls once back online.
+//
+// Caching rules:
+// - /api/* is never touched: AI analyses, sync and the REST endpoints always
+//   go to the network, so a stale or someone else's response is never served
+// - page loads are network first, falling back to the cached shell
+// - /_next/static/* is cache first; file names change with every build
+// - other same-origin files (icons, manifest) are served from the cache and
+//   refreshed in the background
+//
+// The page registers this file as /sw.js?v=<build id>, so every deployment
+// installs a new worker with its own caches.
+
+const VERSION = new URL(self.location.href).searchParams.get("v") || "dev";
+const SHELL_CACHE = `hvac-shell-${VERSION}`;
+const STATIC_CACHE = `hvac-static-${VERSION}`;
+const SHELL_URL = "/";
+const PRECACHE_URLS = [
+  SHELL_URL,
+  "/manifest.webmanifest",
+  "/icons/icon.svg",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+  "/icons/apple-touch-icon.png",
+];
+
+// Scripts, styles and fonts the shell page loads up front
+function findStaticAssets(html) {
+  const matches = html.match(/\/_next\/static\/[^"'\s)\\]+/g) || [];
+  return [...new Set(matches)];
+}
+
+async function precache() {
+  const shell = await caches.open(SHELL_CACHE);
+  await shell.addAll(PRECACHE_URLS);
+
+  const page = await shell.match(SHELL_URL);
+  if (!page) return;
+  const assets = findStaticAssets(await page.text());
+  const cache = await caches.open(STATIC_CACHE);
+  // One missing chunk should not stop the worker from installing
+  await Promise.all(
+    assets.map((url) =>
+      cache
+        .add(url)
+        .catch((error) => console.warn(`Could not precache ${url}:`, error))
+    )
+  );
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precache());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keep = [SHELL_CACHE, STATIC_CACHE];
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith("hvac-") && !keep.includes(name))
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+// Sent by the page when the technician accepts the update prompt
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+});
+
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(SHELL_URL, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(SHELL_URL);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function staleWhileRevalidate(request, event) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then(async (response) => {
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/")) return;
+  // React Server Component payloads are tied to the build and the request
+  if (request.headers.has("RSC") || url.searchParams.has("_rsc")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (!url.pathname.startsWith("/_next/")) {
+    event.respondWith(staleWhileRevalidate(request, event));
+  }
+});
+
+// Notifications shown through the worker (see services/notifications) bring
+// the app to the front when tapped
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({
+        type: "window",
+        includeUncontrolled: true,
+      });
+      if (windows.length > 0) return windows[0].focus();
+      return self.clients.openWindow(SHELL_URL);
+    })()
+  );
+});
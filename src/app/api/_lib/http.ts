@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import type { APIResponse, EncodedImage, ErrorCode } from "@/types";
+import { createAppError, isAppError } from "@/services/errors";
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_IMAGES = 10;
+
+const STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+  INVALID_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  NOT_FOUND: 404,
+  FILE_TOO_LARGE: 413,
+  UNSUPPORTED_FORMAT: 415,
+  API_ERROR: 502,
+  NETWORK_ERROR: 503,
+  // Client closed request (nginx convention); nobody reads the body
+  REQUEST_CANCELLED: 499,
+};
+
+export function jsonSuccess<T>(data: T): NextResponse<APIResponse<T>> {
+  return NextResponse.json({ success: true, data });
+}
+
+export function jsonError(error: unknown): NextResponse<APIResponse> {
+  const appError = isAppError(error)
+    ? error
+    : createAppError(
+        "UNKNOWN_ERROR",
+        error instanceof Error ? error.message : "Unexpected server error",
+        error
+      );
+
+  console.error(`API error [${appError.code}]:`, appError.message);
+
+  const retryAfterMs = appError.details?.retryAfterMs;
+  const headers: HeadersInit =
+    typeof retryAfterMs === "number"
+      ? { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) }
+      : {};
+
+  return NextResponse.json(
+    { success: false, error: appError.code, message: appError.message },
+    { status: STATUS_BY_CODE[appError.code] ?? 500, headers }
+  );
+}
+
+// Parses a JSON body; a malformed one is the client's error
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch (error) {
+    throw createAppError(
+      "INVALID_REQUEST",
+      "The request body is not valid JSON",
+      error
+    );
+  }
+}
+
+// Reads every image uploaded under `field` and encodes it for the model
+export async function readImages(
+  formData: FormData,
+  field: string,
+  maxFiles = MAX_IMAGES
+): Promise<EncodedImage[]> {
+  const files = formData
+    .getAll(field)
+    .filter((entry): entry is File => typeof entry !== "string");
+
+  if (files.length === 0) {
+    throw createAppError("INVALID_REQUEST", `No images sent in "${field}"`);
+  }
+  if (files.length > maxFiles) {
+    throw createAppError(
+      "INVALID_REQUEST",
+      `At most ${maxFiles} images can be sent in "${field}"`
+    );
+  }
+
+  return Promise.all(
+    files.map(async (file) => {
+      checkImageFile(file);
+      const buffer = Buffer.from(await file.arrayBuffer());
+      return { data: buffer.toString("base64"), mimeType: file.type };
+    })
+  );
+}
+
+// Reads the single image uploaded under `field`, or null if none was sent
+export async function readImageFile(
+  formData: FormData,
+  field: string
+): Promise<{ data: Buffer; type: string } | null> {
+  const file = formData.get(field);
+  if (file === null) return null;
+  if (typeof file === "string") {
+    throw createAppError("INVALID_REQUEST", `"${field}" must be a file`);
+  }
+  checkImageFile(file);
+  return { data: Buffer.from(await file.arrayBuffer()), type: file.type };
+}
+
+function checkImageFile(file: File): void {
+  if (!file.type.startsWith("image/")) {
+    throw createAppError(
+      "UNSUPPORTED_FORMAT",
+      `Unsupported file type: ${file.type || "unknown"}`
+    );
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw createAppError("FILE_TOO_LARGE", `${file.name} exceeds 10MB`);
+  }
+}
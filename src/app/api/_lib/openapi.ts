@@ -0,0 +1,485 @@
+import { EQUIPMENT_TYPE_VALUES } from "@/services/equipmentTypes";
+import {
+  REPORT_CONDITIONS,
+  REPORT_STATUSES,
+  REPORT_URGENCIES,
+} from "@/services/serverDb/records";
+
+// OpenAPI description of the server API, served at /api/openapi. Keep it in
+// step with the route handlers and the Database* types in "@/types".
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const param = (name: string) => ({ $ref: `#/components/parameters/${name}` });
+
+const isoDate = { type: "string", format: "date-time" };
+
+function query(name: string, description: string, schema: object) {
+  return { name, in: "query", required: false, description, schema };
+}
+
+function success(schema: object, description = "OK") {
+  return {
+    description,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          required: ["success", "data"],
+          properties: { success: { const: true }, data: schema },
+        },
+      },
+    },
+  };
+}
+
+function page(item: string) {
+  return success({
+    type: "object",
+    required: ["items", "page", "pageSize", "total"],
+    properties: {
+      items: { type: "array", items: ref(item) },
+      page: { type: "integer", minimum: 1 },
+      pageSize: { type: "integer", minimum: 1, maximum: 200 },
+      total: { type: "integer", description: "Matching records, all pages" },
+    },
+  });
+}
+
+const unauthorized = {
+  "401": { $ref: "#/components/responses/Unauthorized" },
+};
+const errors = {
+  "400": { $ref: "#/components/responses/InvalidRequest" },
+  ...unauthorized,
+  "500": { $ref: "#/components/responses/ServerError" },
+};
+const notFound = { "404": { $ref: "#/components/responses/NotFound" } };
+const deleted = success({
+  type: "object",
+  required: ["id"],
+  properties: { id: { type: "string" } },
+});
+
+function jsonBody(schema: object) {
+  return {
+    required: true,
+    content: { "application/json": { schema } },
+  };
+}
+
+// GET/PUT/DELETE on /{resource}/{id}
+function itemPaths(tag: string, schema: string) {
+  return {
+    parameters: [param("id")],
+    get: {
+      tags: [tag],
+      summary: `Get one ${schema}`,
+      responses: { "200": success(ref(schema)), ...notFound, ...errors },
+    },
+    put: {
+      tags: [tag],
+      summary: `Create or replace the ${schema} with this id`,
+      requestBody: jsonBody(ref(schema)),
+      responses: { "200": success(ref(schema)), ...errors },
+    },
+    delete: {
+      tags: [tag],
+      summary: `Delete the ${schema}; devices drop it on their next sync`,
+      responses: { "200": deleted, ...notFound, ...errors },
+    },
+  };
+}
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "HVAC Scanner API",
+    version: "1.0.0",
+    description:
+      "Records synced from the devices, stored in SQLite. Every response " +
+      "is wrapped as { success, data } or { success: false, error, message }. " +
+      "Requests carry the server's API_TOKEN as a bearer token.",
+  },
+  servers: [{ url: "/api" }],
+  security: [{ bearer: [] }],
+  tags: [
+    { name: "Equipment" },
+    { name: "Reports" },
+    { name: "Images" },
+    { name: "Sync", description: "Used by the app's background sync" },
+  ],
+  paths: {
+    "/equipment": {
+      get: {
+        tags: ["Equipment"],
+        summary: "List equipment, most recently updated first",
+        parameters: [
+          param("page"),
+          param("pageSize"),
+          query("brand", "Exact brand", { type: "string" }),
+          query("type", "Equipment type", {
+            type: "string",
+            enum: EQUIPMENT_TYPE_VALUES,
+          }),
+          query("serial", "Part of the serial number", { type: "string" }),
+          query("updatedSince", "Updated at or after this time", isoDate),
+        ],
+        responses: { "200": page("Equipment"), ...errors },
+      },
+      post: {
+        tags: ["Equipment"],
+        summary: "Create equipment, or replace the one with the same id",
+        requestBody: jsonBody(ref("Equipment")),
+        responses: { "200": success(ref("Equipment")), ...errors },
+      },
+    },
+    "/equipment/{id}": itemPaths("Equipment", "Equipment"),
+    "/reports": {
+      get: {
+        tags: ["Reports"],
+        summary: "List inspection reports, newest first",
+        parameters: [
+          param("page"),
+          param("pageSize"),
+          query("status", "Report status", {
+            type: "string",
+            enum: REPORT_STATUSES,
+          }),
+          query("condition", "Overall condition found", {
+            type: "string",
+            enum: REPORT_CONDITIONS,
+          }),
+          query("urgency", "Maintenance urgency", {
+            type: "string",
+            enum: REPORT_URGENCIES,
+          }),
+          query("equipmentId", "Reports of one unit", { type: "string" }),
+          query("from", "Created at or after this time", isoDate),
+          query("to", "Created at or before this time", isoDate),
+        ],
+        responses: { "200": page("Report"), ...errors },
+      },
+      post: {
+        tags: ["Reports"],
+        summary: "Create a report, or replace the one with the same id",
+        requestBody: jsonBody(ref("Report")),
+        responses: { "200": success(ref("Report")), ...errors },
+      },
+    },
+    "/reports/{id}": {
+      ...itemPaths("Reports", "Report"),
+      delete: {
+        tags: ["Reports"],
+        summary: "Delete the report and its photos",
+        responses: { "200": deleted, ...notFound, ...errors },
+      },
+    },
+    "/images": {
+      get: {
+        tags: ["Images"],
+        summary: "List photo metadata, newest first",
+        parameters: [
+          param("page"),
+          param("pageSize"),
+          query("reportId", "Photos of one report", { type: "string" }),
+          query("equipmentId", "Photos of one unit", { type: "string" }),
+          query("type", "Photo kind", {
+            type: "string",
+            enum: ["label", "equipment"],
+          }),
+        ],
+        responses: { "200": page("Image"), ...errors },
+      },
+      post: {
+        tags: ["Images"],
+        summary: "Upload a photo, or replace the one with the same id",
+        requestBody: {
+          required: true,
+          content: {
+            "multipart/form-data": {
+              schema: {
+                type: "object",
+                required: ["metadata", "file", "thumbnail"],
+                properties: {
+                  metadata: {
+                    type: "string",
+                    description:
+                      "JSON of the Image fields; fileSize and mimeType are " +
+                      "taken from the file",
+                  },
+                  file: { type: "string", format: "binary" },
+                  thumbnail: { type: "string", format: "binary" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": success(ref("Image")),
+          "413": { description: "An image exceeds 10MB" },
+          "415": { description: "A file is not an image" },
+          ...errors,
+        },
+      },
+    },
+    "/images/{id}": {
+      parameters: [param("id")],
+      get: {
+        tags: ["Images"],
+        summary: "Get photo metadata",
+        responses: { "200": success(ref("Image")), ...notFound, ...errors },
+      },
+      delete: {
+        tags: ["Images"],
+        summary: "Delete a photo",
+        responses: { "200": deleted, ...notFound, ...errors },
+      },
+    },
+    "/images/{id}/file": {
+      parameters: [param("id")],
+      get: {
+        tags: ["Images"],
+        summary: "Download the photo",
+        parameters: [
+          query("variant", "Serve the thumbnail when there is one", {
+            type: "string",
+            enum: ["thumbnail"],
+          }),
+        ],
+        responses: {
+          "200": {
+            description: "The image bytes",
+            content: { "image/*": { schema: { format: "binary" } } },
+          },
+          ...unauthorized,
+          ...notFound,
+        },
+      },
+    },
+    "/sync/pull": {
+      get: {
+        tags: ["Sync"],
+        summary: "Changes after a revision cursor, oldest first",
+        parameters: [
+          query("since", "Cursor from the previous pull", {
+            type: "integer",
+            minimum: 0,
+            default: 0,
+          }),
+          query(
+            "limit",
+            "Most changes to return; a page holds 10 photos at most",
+            {
+              type: "integer",
+              minimum: 1,
+              maximum: 500,
+            }
+          ),
+        ],
+        responses: {
+          "200": success({
+            type: "object",
+            required: ["changes", "cursor", "hasMore"],
+            properties: {
+              changes: { type: "array", items: ref("SyncRecord") },
+              cursor: { type: "integer" },
+              hasMore: { type: "boolean" },
+            },
+          }),
+          ...errors,
+        },
+      },
+    },
+    "/sync/push": {
+      post: {
+        tags: ["Sync"],
+        summary: "Apply local changes made on top of a known revision",
+        requestBody: jsonBody({
+          type: "object",
+          required: ["changes"],
+          properties: {
+            changes: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["store", "id", "baseRevision", "deleted"],
+                properties: {
+                  store: ref("SyncStore"),
+                  id: { type: "string" },
+                  baseRevision: {
+                    type: "integer",
+                    description: "0 for records the server has never seen",
+                  },
+                  deleted: { type: "boolean" },
+                  data: { type: "object" },
+                },
+              },
+            },
+          },
+        }),
+        responses: {
+          "200": success({
+            type: "array",
+            items: {
+              type: "object",
+              required: ["store", "id", "status"],
+              properties: {
+                store: ref("SyncStore"),
+                id: { type: "string" },
+                status: { enum: ["applied", "conflict"] },
+                revision: { type: "integer" },
+                current: ref("SyncRecord"),
+              },
+            },
+          }),
+          ...errors,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearer: { type: "http", scheme: "bearer" },
+    },
+    parameters: {
+      id: {
+        name: "id",
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      },
+      page: query("page", "1-based page number", {
+        type: "integer",
+        minimum: 1,
+        default: 1,
+      }),
+      pageSize: query("pageSize", "Records per page, at most 200", {
+        type: "integer",
+        minimum: 1,
+        maximum: 200,
+        default: 50,
+      }),
+    },
+    responses: {
+      InvalidRequest: { description: "A parameter or the body is invalid" },
+      Unauthorized: { description: "The API token is missing or wrong" },
+      NotFound: { description: "No record with this id" },
+      ServerError: { description: "Unexpected server error" },
+    },
+    schemas: {
+      Equipment: {
+        type: "object",
+        required: ["id"],
+        properties: {
+          id: { type: "string" },
+          brand: { type: "string" },
+          model: { type: "string" },
+          series: { type: "string" },
+          serialNumber: { type: "string" },
+          capacity: { type: "string" },
+          btu: { type: "number" },
+          manufactureDate: { type: "string" },
+          voltage: { type: "string" },
+          amperage: { type: "string" },
+          phase: { type: "integer", enum: [1, 3] },
+          hertz: { type: "number" },
+          mca: { type: "number" },
+          mocp: { type: "number" },
+          rla: { type: "number" },
+          lra: { type: "number" },
+          refrigerantType: { type: "string" },
+          factoryCharge: { type: "string" },
+          seerRating: { type: "number" },
+          eerRating: { type: "number" },
+          ahriNumber: { type: "string" },
+          equipmentType: { type: "string", enum: EQUIPMENT_TYPE_VALUES },
+          location: { type: "string" },
+          notes: { type: "string" },
+          specs: {
+            type: "object",
+            description: "Parsed from voltage, amperage and capacity",
+          },
+          createdAt: isoDate,
+          updatedAt: { ...isoDate, description: "Defaults to now" },
+        },
+      },
+      CapturedImage: {
+        type: "object",
+        required: ["id", "type", "capturedAt"],
+        properties: {
+          id: { type: "string" },
+          type: { enum: ["label", "equipment"] },
+          equipmentId: { type: "string" },
+          reportId: { type: "string" },
+          capturedAt: isoDate,
+          fileSize: { type: "integer" },
+          mimeType: { type: "string" },
+          dimensions: {
+            type: "object",
+            properties: {
+              width: { type: "integer" },
+              height: { type: "integer" },
+            },
+          },
+        },
+      },
+      Report: {
+        type: "object",
+        required: ["id", "equipmentId", "status"],
+        properties: {
+          id: { type: "string" },
+          equipmentId: { type: "string" },
+          status: { enum: REPORT_STATUSES },
+          labelImages: { type: "array", items: ref("CapturedImage") },
+          equipmentImages: { type: "array", items: ref("CapturedImage") },
+          labelScanResult: { type: "object" },
+          inspectionResult: {
+            type: "object",
+            properties: {
+              overallCondition: { enum: REPORT_CONDITIONS },
+              maintenanceUrgency: { enum: REPORT_URGENCIES },
+              failures: { type: "array", items: { type: "object" } },
+              generalRecommendations: {
+                type: "array",
+                items: { type: "string" },
+              },
+            },
+          },
+          createdAt: isoDate,
+          completedAt: isoDate,
+          notes: { type: "string" },
+          technician: { type: "string" },
+        },
+      },
+      Image: {
+        allOf: [
+          ref("CapturedImage"),
+          {
+            type: "object",
+            required: ["fileUrl", "thumbnailUrl"],
+            properties: {
+              quality: { enum: ["original", "downsampled", "thumbnail"] },
+              fileUrl: { type: "string" },
+              thumbnailUrl: { type: "string" },
+            },
+          },
+        ],
+      },
+      SyncStore: { enum: ["equipment", "reports", "images"] },
+      SyncRecord: {
+        type: "object",
+        required: ["store", "id", "revision", "deleted"],
+        properties: {
+          store: ref("SyncStore"),
+          id: { type: "string" },
+          revision: { type: "integer" },
+          deleted: { type: "boolean" },
+          data: {
+            type: "object",
+            description: "Absent on tombstones; blobs as { base64, type }",
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,65 @@
+import { createAppError } from "@/services/errors";
+import type { ListFilter } from "@/services/serverDb/repository";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+function invalidParam(name: string, message: string) {
+  return createAppError("INVALID_REQUEST", `${name} ${message}`, undefined, {
+    param: name,
+  });
+}
+
+// ?page=1&pageSize=50; pages are 1-based and pageSize is capped
+export function parsePagination(params: URLSearchParams): {
+  page: number;
+  pageSize: number;
+} {
+  const page = Number(params.get("page") ?? 1);
+  const pageSize = Number(params.get("pageSize") ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(page) || page < 1) {
+    throw invalidParam("page", "must be a positive integer");
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw invalidParam("pageSize", "must be a positive integer");
+  }
+  return { page, pageSize: Math.min(pageSize, MAX_PAGE_SIZE) };
+}
+
+type FilterParser = (value: string, name: string) => string;
+
+export const asText: FilterParser = (value) => value;
+
+// Dates are compared as ISO strings, the way records store them
+export const asDate: FilterParser = (value, name) => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw invalidParam(name, "must be a date");
+  return date.toISOString();
+};
+
+export function oneOf(values: readonly string[]): FilterParser {
+  return (value, name) => {
+    if (!values.includes(value)) {
+      throw invalidParam(name, `must be one of ${values.join(", ")}`);
+    }
+    return value;
+  };
+}
+
+export interface FilterSpec {
+  param: string;
+  column: string;
+  op: ListFilter["op"];
+  parse: FilterParser;
+}
+
+// Turns the query parameters present in `params` into list filters
+export function parseFilters(
+  params: URLSearchParams,
+  specs: FilterSpec[]
+): ListFilter[] {
+  return specs.flatMap(({ param, column, op, parse }) => {
+    const value = params.get(param);
+    return value ? [{ column, op, value: parse(value, param) }] : [];
+  });
+}
@@ -0,0 +1,18 @@
+import { getInspectionService } from "@/services/inspection";
+import { jsonError, jsonSuccess, readImages } from "../_lib/http";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const images = await readImages(formData, "images");
+
+    const result = await getInspectionService().analyzeEquipment(images, {
+      signal: request.signal,
+    });
+    return jsonSuccess(result);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,49 @@
+import { createAppError } from "@/services/errors";
+import { getServerRepository } from "@/services/serverDb/repository";
+import { parseEquipment } from "@/services/serverDb/records";
+import { jsonError, jsonSuccess, readJson } from "../../_lib/http";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return createAppError("NOT_FOUND", "Equipment not found", undefined, { id });
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const equipment = getServerRepository("equipment").get(id);
+    if (!equipment) throw notFound(id);
+    return jsonSuccess(equipment);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const equipment = parseEquipment(await readJson(request), id);
+    getServerRepository("equipment").put({ ...equipment });
+    return jsonSuccess(equipment);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// Reports of the unit are kept, as on the devices
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const repository = getServerRepository("equipment");
+    if (!repository.get(id)) throw notFound(id);
+    repository.delete(id);
+    return jsonSuccess({ id });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
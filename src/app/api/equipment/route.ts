@@ -0,0 +1,51 @@
+import { EQUIPMENT_TYPE_VALUES } from "@/services/equipmentTypes";
+import { getServerRepository } from "@/services/serverDb/repository";
+import { parseEquipment } from "@/services/serverDb/records";
+import { jsonError, jsonSuccess, readJson } from "../_lib/http";
+import {
+  asDate,
+  asText,
+  oneOf,
+  parseFilters,
+  parsePagination,
+  type FilterSpec,
+} from "../_lib/query";
+
+export const runtime = "nodejs";
+
+const FILTERS: FilterSpec[] = [
+  { param: "brand", column: "brand", op: "=", parse: asText },
+  {
+    param: "type",
+    column: "equipment_type",
+    op: "=",
+    parse: oneOf(EQUIPMENT_TYPE_VALUES),
+  },
+  { param: "serial", column: "serial_number", op: "like", parse: asText },
+  { param: "updatedSince", column: "updated_at", op: ">=", parse: asDate },
+];
+
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const page = getServerRepository("equipment").list({
+      ...parsePagination(params),
+      filters: parseFilters(params, FILTERS),
+      orderBy: "updated_at DESC, id",
+    });
+    return jsonSuccess(page);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// Creates the record, or replaces the one with the same id
+export async function POST(request: Request) {
+  try {
+    const equipment = parseEquipment(await readJson(request));
+    getServerRepository("equipment").put({ ...equipment });
+    return jsonSuccess(equipment);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { createAppError } from "@/services/errors";
+import { getServerRepository } from "@/services/serverDb/repository";
+import { isStoredBlob } from "@/services/serverDb/tables";
+import { jsonError } from "../../../_lib/http";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The photo itself; ?variant=thumbnail serves the thumbnail when there is one
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const image = getServerRepository("images").get(id);
+    const variant = new URL(request.url).searchParams.get("variant");
+    const blob =
+      variant === "thumbnail" && isStoredBlob(image?.thumbnail)
+        ? image.thumbnail
+        : image?.blob;
+    if (!isStoredBlob(blob)) {
+      throw createAppError("NOT_FOUND", "Image not found", undefined, { id });
+    }
+
+    return new Response(new Uint8Array(blob.data), {
+      headers: {
+        "Content-Type": blob.type || "application/octet-stream",
+        "Content-Length": String(blob.data.length),
+      },
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
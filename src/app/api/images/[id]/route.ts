@@ -0,0 +1,37 @@
+import { createAppError } from "@/services/errors";
+import { getServerRepository } from "@/services/serverDb/repository";
+import { toImageResource } from "@/services/serverDb/records";
+import { jsonError, jsonSuccess } from "../../_lib/http";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return createAppError("NOT_FOUND", "Image not found", undefined, { id });
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const image = getServerRepository("images").get(id);
+    if (!image) throw notFound(id);
+    return jsonSuccess(toImageResource(image));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const repository = getServerRepository("images");
+    if (!repository.get(id)) throw notFound(id);
+    repository.delete(id);
+    return jsonSuccess({ id });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
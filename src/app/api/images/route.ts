@@ -0,0 +1,84 @@
+import { createAppError } from "@/services/errors";
+import { getServerRepository } from "@/services/serverDb/repository";
+import {
+  parseImageMetadata,
+  toImageResource,
+} from "@/services/serverDb/records";
+import { jsonError, jsonSuccess, readImageFile } from "../_lib/http";
+import {
+  asText,
+  oneOf,
+  parseFilters,
+  parsePagination,
+  type FilterSpec,
+} from "../_lib/query";
+
+export const runtime = "nodejs";
+
+const FILTERS: FilterSpec[] = [
+  { param: "reportId", column: "report_id", op: "=", parse: asText },
+  { param: "equipmentId", column: "equipment_id", op: "=", parse: asText },
+  {
+    param: "type",
+    column: "type",
+    op: "=",
+    parse: oneOf(["label", "equipment"]),
+  },
+];
+
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const page = getServerRepository("images").list({
+      ...parsePagination(params),
+      filters: parseFilters(params, FILTERS),
+      orderBy: "captured_at DESC, id",
+    });
+    return jsonSuccess({ ...page, items: page.items.map(toImageResource) });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// multipart/form-data: "metadata" (JSON), "file" and "thumbnail"
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const metadataField = formData.get("metadata");
+    if (typeof metadataField !== "string") {
+      throw createAppError("INVALID_REQUEST", '"metadata" must be JSON text');
+    }
+    let metadataBody: unknown;
+    try {
+      metadataBody = JSON.parse(metadataField);
+    } catch (error) {
+      throw createAppError(
+        "INVALID_REQUEST",
+        '"metadata" is not valid JSON',
+        error
+      );
+    }
+    const metadata = parseImageMetadata(metadataBody);
+
+    const file = await readImageFile(formData, "file");
+    if (!file)
+      throw createAppError("INVALID_REQUEST", 'No image sent in "file"');
+    // Devices show and back up the thumbnail of every synced photo
+    const thumbnail = await readImageFile(formData, "thumbnail");
+    if (!thumbnail) {
+      throw createAppError("INVALID_REQUEST", 'No image sent in "thumbnail"');
+    }
+
+    const record = {
+      ...metadata,
+      fileSize: file.data.length,
+      mimeType: file.type,
+      blob: file,
+      thumbnail,
+    };
+    getServerRepository("images").put(record);
+    return jsonSuccess(toImageResource(record));
+  } catch (error) {
+    return jsonError(error);
+  }
+}
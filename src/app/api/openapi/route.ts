@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { openApiDocument } from "../_lib/openapi";
+
+export const runtime = "nodejs";
+
+// Served as-is, without the { success, data } wrapper, so tools can read it
+export async function GET() {
+  return NextResponse.json(openApiDocument);
+}
@@ -0,0 +1,30 @@
+import type { FailureDetection, HVACEquipment } from "@/types";
+import { getInspectionService } from "@/services/inspection";
+import { createAppError } from "@/services/errors";
+import { jsonError, jsonSuccess } from "../_lib/http";
+
+export const runtime = "nodejs";
+
+interface RecommendationsRequest {
+  equipment?: Partial<HVACEquipment>;
+  failures?: FailureDetection[];
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json()) as RecommendationsRequest;
+    if (!Array.isArray(body.failures)) {
+      throw createAppError("PROCESSING_ERROR", "failures must be an array");
+    }
+
+    const recommendations =
+      await getInspectionService().generateDetailedRecommendations(
+        body.equipment ?? {},
+        body.failures,
+        { signal: request.signal }
+      );
+    return jsonSuccess(recommendations);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,58 @@
+import { createAppError } from "@/services/errors";
+import { getServerRepository } from "@/services/serverDb/repository";
+import { parseReport } from "@/services/serverDb/records";
+import { jsonError, jsonSuccess, readJson } from "../../_lib/http";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound(id: string) {
+  return createAppError("NOT_FOUND", "Report not found", undefined, { id });
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const report = getServerRepository("reports").get(id);
+    if (!report) throw notFound(id);
+    return jsonSuccess(report);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const report = parseReport(await readJson(request), id);
+    getServerRepository("reports").put({ ...report });
+    return jsonSuccess(report);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// Deletes the report and its photos, as on the devices
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const reports = getServerRepository("reports");
+    if (!reports.get(id)) throw notFound(id);
+
+    const images = getServerRepository("images");
+    const photos = images.list({
+      filters: [{ column: "report_id", op: "=", value: id }],
+      orderBy: "id",
+      page: 1,
+      pageSize: Number.MAX_SAFE_INTEGER,
+    });
+    photos.items.forEach((photo) => images.delete(photo.id as string));
+    reports.delete(id);
+    return jsonSuccess({ id });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,62 @@
+import { getServerRepository } from "@/services/serverDb/repository";
+import {
+  parseReport,
+  REPORT_CONDITIONS,
+  REPORT_STATUSES,
+  REPORT_URGENCIES,
+} from "@/services/serverDb/records";
+import { jsonError, jsonSuccess, readJson } from "../_lib/http";
+import {
+  asDate,
+  asText,
+  oneOf,
+  parseFilters,
+  parsePagination,
+  type FilterSpec,
+} from "../_lib/query";
+
+export const runtime = "nodejs";
+
+const FILTERS: FilterSpec[] = [
+  { param: "status", column: "status", op: "=", parse: oneOf(REPORT_STATUSES) },
+  {
+    param: "condition",
+    column: "overall_condition",
+    op: "=",
+    parse: oneOf(REPORT_CONDITIONS),
+  },
+  {
+    param: "urgency",
+    column: "maintenance_urgency",
+    op: "=",
+    parse: oneOf(REPORT_URGENCIES),
+  },
+  { param: "equipmentId", column: "equipment_id", op: "=", parse: asText },
+  { param: "from", column: "created_at", op: ">=", parse: asDate },
+  { param: "to", column: "created_at", op: "<=", parse: asDate },
+];
+
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const page = getServerRepository("reports").list({
+      ...parsePagination(params),
+      filters: parseFilters(params, FILTERS),
+      orderBy: "created_at DESC, id",
+    });
+    return jsonSuccess(page);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
+
+// Creates the report, or replaces the one with the same id
+export async function POST(request: Request) {
+  try {
+    const report = parseReport(await readJson(request));
+    getServerRepository("reports").put({ ...report });
+    return jsonSuccess(report);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
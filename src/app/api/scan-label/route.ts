@@ -0,0 +1,19 @@
+import { getInspectionService } from "@/services/inspection";
+import { MAX_LABEL_IMAGES } from "@/services/labelMerge";
+import { jsonError, jsonSuccess, readImages } from "../_lib/http";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const images = await readImages(formData, "image", MAX_LABEL_IMAGES);
+
+    const result = await getInspectionService().scanLabel(images, {
+      signal: request.signal,
+    });
+    return jsonSuccess(result);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { createAppError } from "@/services/errors";
+import { getSyncServerStore, MAX_PULL_LIMIT } from "@/services/sync/server";
+import { jsonError, jsonSuccess } from "../../_lib/http";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const since = Number(params.get("since") ?? 0);
+    const limit = Number(params.get("limit") ?? 100);
+    if (!Number.isInteger(since) || since < 0) {
+      throw createAppError("INVALID_REQUEST", "since must be a revision");
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw createAppError("INVALID_REQUEST", "limit must be positive");
+    }
+
+    const page = await getSyncServerStore().pull(
+      since,
+      Math.min(limit, MAX_PULL_LIMIT)
+    );
+    return jsonSuccess(page);
+  } catch (error) {
+    return jsonError(error);
+  }
+}
@@ -0,0 +1,14 @@
+import { getSyncServerStore, parsePushChanges } from "@/services/sync/server";
+import { jsonError, jsonSuccess, readJson } from "../../_lib/http";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const changes = parsePushChanges(await readJson(request));
+    const results = await getSyncServerStore().push(changes);
+    return jsonSuccess({ results });
+  } catch (error) {
+    return jsonError(error);
+  }
+}
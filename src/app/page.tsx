@@ -1,17 +1,58 @@
 "use client";
 
-import { useState } from "react";
-import { Camera, FileText, History, Settings } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import {
+  AlertTriangle,
+  Camera,
+  CheckCircle,
+  Clock,
+  FileText,
+  History,
+  RefreshCw,
+  Settings,
+  WifiOff,
+  X,
+} from "lucide-react";
 import type {
   ScreenName,
+  EquipmentChange,
   HVACEquipment,
   HVACEquipmentWithMetadata,
   InspectionReport,
+  StoredImage,
 } from "@/types";
 import CameraCapture from "@/components/CameraCapture";
 import EquipmentForm from "@/components/EquipmentForm";
 import InspectionResults from "@/components/InspectionResults";
 import HistoryView from "@/components/HistoryView";
+import SettingsView from "@/components/SettingsView";
+import DuplicateEquipmentPrompt from "@/components/DuplicateEquipmentPrompt";
+import UnlockScreen from "@/components/UnlockScreen";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useAutoLock, useLockState } from "@/hooks/useLockState";
+import { useBackgroundSync } from "@/hooks/useSync";
+import { useCaptureQueueProcessor } from "@/hooks/useCaptureQueue";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { useServiceWorker } from "@/hooks/useServiceWorker";
+import { isAppError } from "@/services/errors";
+import type { EquipmentMatch } from "@/services/equipmentIdentity";
+import { buildEquipmentChanges } from "@/services/equipmentHistory";
+import { getTechnicianName } from "@/services/preferences";
+import { toCapturedImage } from "@/services/imageStorage";
+import { getStorageManager } from "@/services/storageManager";
+import { getCaptureQueue } from "@/services/captureQueue";
+import {
+  requestNotificationPermission,
+  showNotification,
+} from "@/services/notifications";
+
+// The quota case gets its own message because the technician can act on it
+function describeSaveError(err: unknown, fallback: string): string {
+  return isAppError(err) && err.details?.reason === "quota_exceeded"
+    ? "This device is out of storage space, so the inspection was not saved. Free up space in Settings."
+    : fallback;
+}
 
 export default function Home() {
   const [currentScreen, setCurrentScreen] = useState<ScreenName>("home");
@@ -20,21 +61,309 @@ export default function Home() {
   const [currentReport, setCurrentReport] = useState<InspectionReport | null>(
     null
   );
+  // Label photos wait here until the inspection they belong to is saved
+  const [labelImages, setLabelImages] = useState<StoredImage[]>([]);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [storageWarning, setStorageWarning] = useState(false);
+  // Stored units the last label scan may refer to, awaiting the technician
+  const [scanMatches, setScanMatches] = useState<EquipmentMatch[]>([]);
+  // The label scan as read, before any edits in the form
+  const [scannedEquipment, setScannedEquipment] =
+    useState<HVACEquipmentWithMetadata | null>(null);
+  // Change log entries for the equipment form, saved with the inspection
+  const [equipmentChanges, setEquipmentChanges] = useState<EquipmentChange[]>(
+    []
+  );
+  // The label photos were saved for the capture queue instead of being read
+  const [labelPending, setLabelPending] = useState(false);
+  const [queueNotice, setQueueNotice] = useState<string | null>(null);
+  // A queued analysis that finished while the app was open
+  const [analyzedReport, setAnalyzedReport] = useState<InspectionReport | null>(
+    null
+  );
+  // Queued label scans that identified a unit already stored, oldest first
+  const [queuedMatches, setQueuedMatches] = useState<
+    { report: InspectionReport; matches: EquipmentMatch[] }[]
+  >([]);
+  const {
+    saveReport,
+    findEquipmentMatches,
+    getEquipment,
+    getReport,
+    mergeEquipment,
+  } = useLocalStorage();
+  const lockState = useLockState();
+  useAutoLock(lockState === "unlocked");
+  useBackgroundSync(lockState !== null && lockState !== "locked");
+  useCaptureQueueProcessor(lockState !== null && lockState !== "locked");
+  const online = useOnlineStatus();
+  const { updateReady, applyUpdate } = useServiceWorker();
+  const [updateDismissed, setUpdateDismissed] = useState(false);
 
-  const handleLabelScanned = (equipment: HVACEquipmentWithMetadata) => {
+  useEffect(
+    () =>
+      getCaptureQueue().subscribeToCompletions((report) => {
+        const openReport = () => {
+          setAnalyzedReport(null);
+          setCurrentReport(report);
+          setCurrentScreen("results");
+        };
+        setAnalyzedReport(report);
+        // The banner is enough while the technician is looking at the app
+        if (document.visibilityState === "hidden") {
+          const failures = report.inspectionResult?.failures.length ?? 0;
+          showNotification("Inspection analyzed", {
+            body: `${failures} issue(s) found on ${describeEquipment(report)}`,
+            tag: report.id,
+            onClick: openReport,
+          });
+        }
+      }),
+    []
+  );
+
+  useEffect(
+    () =>
+      getCaptureQueue().subscribeToMatches((report, matches) =>
+        setQueuedMatches((queued) => [
+          ...queued.filter((entry) => entry.report.id !== report.id),
+          { report, matches },
+        ])
+      ),
+    []
+  );
+
+  // A freshly captured report shows its photos through object URLs; they are
+  // released once a different report replaces it
+  const reportUrls = useRef<string[]>([]);
+  useEffect(() => {
+    const urls = [
+      ...(currentReport?.labelImages ?? []),
+      ...(currentReport?.equipmentImages ?? []),
+    ].flatMap((image) => (image.url ? [image.url] : []));
+    reportUrls.current
+      .filter((url) => !urls.includes(url))
+      .forEach((url) => URL.revokeObjectURL(url));
+    reportUrls.current = urls;
+  }, [currentReport]);
+
+  const handleNavigateFromHome = (screen: ScreenName) => {
+    if (screen === "scan-label" || screen === "data-form") {
+      setCurrentEquipment(null);
+      setScannedEquipment(null);
+      setLabelImages([]);
+      setEquipmentChanges([]);
+      setLabelPending(false);
+    }
+    setCurrentScreen(screen);
+  };
+
+  const handleLabelScanned = async (
+    equipment: HVACEquipmentWithMetadata,
+    images: StoredImage[]
+  ) => {
     console.log("Datos recibidos del escaneo:", equipment);
     setCurrentEquipment(equipment);
+    setScannedEquipment(equipment);
+    setLabelImages(images);
+    setCurrentScreen("data-form");
+
+    try {
+      setScanMatches(await findEquipmentMatches(equipment));
+    } catch (err) {
+      // Without the lookup the scan is simply treated as a new unit
+      console.error("Error looking up existing equipment:", err);
+    }
+  };
+
+  // Offline: the form is filled by hand and the label photos are read by the
+  // capture queue later, filling in whatever was left blank
+  const handleLabelDeferred = (images: StoredImage[]) => {
+    void requestNotificationPermission();
+    setCurrentEquipment(null);
+    setScannedEquipment(null);
+    setLabelImages(images);
+    setLabelPending(true);
     setCurrentScreen("data-form");
   };
 
-  const handleEquipmentSaved = (equipment: HVACEquipment) => {
+  // The scanned readings stay in the form for review; only the identity
+  // comes from the stored unit
+  const handleUseExistingEquipment = (existing: HVACEquipment) => {
+    setCurrentEquipment((scanned) =>
+      scanned
+        ? {
+            ...scanned,
+            id: existing.id,
+            createdAt: existing.createdAt,
+            location: scanned.location || existing.location,
+            notes: scanned.notes || existing.notes,
+          }
+        : existing
+    );
+    setScanMatches([]);
+  };
+
+  // The report is already saved under the unit the queued scan created, so
+  // that unit is merged into the stored one
+  const handleUseExistingForQueued = async (existing: HVACEquipment) => {
+    const [{ report }] = queuedMatches;
+    setQueuedMatches((queued) => queued.slice(1));
+    try {
+      await mergeEquipment(report.equipmentId, existing.id);
+      const merged = await getReport(report.id);
+      if (merged && currentReport?.id === report.id) setCurrentReport(merged);
+    } catch (err) {
+      console.error("Error merging queued equipment:", err);
+      setSaveError(
+        describeSaveError(
+          err,
+          "The scanned unit could not be combined with the stored one"
+        )
+      );
+    }
+  };
+
+  const handleEquipmentSaved = async (equipment: HVACEquipment) => {
+    let previous: HVACEquipment | null = null;
+    try {
+      previous = await getEquipment(equipment.id);
+    } catch (err) {
+      console.error("Error loading stored equipment:", err);
+    }
+
+    setEquipmentChanges(
+      buildEquipmentChanges({
+        previous,
+        scanned: scannedEquipment,
+        saved: equipment,
+        technician: getTechnicianName(),
+      })
+    );
     setCurrentEquipment(equipment);
     setCurrentScreen("inspect-equipment");
   };
 
-  const handleInspectionComplete = (report: InspectionReport) => {
+  const handleInspectionComplete = async (
+    inspection: InspectionReport,
+    equipmentImages: StoredImage[]
+  ) => {
+    const images = [...labelImages, ...equipmentImages].map((image) => ({
+      ...image,
+      equipmentId: inspection.equipmentId,
+      reportId: inspection.id,
+    }));
+    const report: InspectionReport = {
+      ...inspection,
+      technician: getTechnicianName() || undefined,
+      labelImages: images
+        .filter((image) => image.type === "label")
+        .map((image) =>
+          toCapturedImage(image, URL.createObjectURL(image.thumbnail))
+        ),
+      equipmentImages: inspection.equipmentImages.map((image) => ({
+        ...image,
+        equipmentId: inspection.equipmentId,
+        reportId: inspection.id,
+      })),
+    };
+
+    const changes = equipmentChanges.map((change) => ({
+      ...change,
+      reportId: report.id,
+    }));
+
+    const readLabelLater = labelPending;
+    setLabelImages([]);
+    setEquipmentChanges([]);
+    setLabelPending(false);
     setCurrentReport(report);
     setCurrentScreen("results");
+
+    // The results are shown right away; saving happens in the background so
+    // a storage failure only costs the history entry, not the inspection
+    try {
+      setSaveError(null);
+      await saveReport(report, images, changes);
+      if (readLabelLater) {
+        await getCaptureQueue().enqueue(report.id, ["scan_label"]);
+      }
+    } catch (err) {
+      console.error("Error saving inspection:", err);
+      setSaveError(
+        describeSaveError(
+          err,
+          "The inspection could not be saved on this device and will not appear in History"
+        )
+      );
+      return;
+    }
+
+    try {
+      const storage = getStorageManager();
+      setStorageWarning(storage.isNearQuota(await storage.getEstimate()));
+    } catch (err) {
+      console.error("Error checking storage usage:", err);
+    }
+  };
+
+  // Offline: the inspection is saved as a draft with its photos and the
+  // capture queue analyzes it once the device is back online
+  const handleInspectionDeferred = async (equipmentImages: StoredImage[]) => {
+    void requestNotificationPermission();
+    const equipment = currentEquipment as HVACEquipment;
+    const reportId = uuidv4();
+    const images = [...labelImages, ...equipmentImages].map((image) => ({
+      ...image,
+      equipmentId: equipment.id,
+      reportId,
+    }));
+    const report: InspectionReport = {
+      id: reportId,
+      equipmentId: equipment.id,
+      equipment,
+      labelImages: images
+        .filter((image) => image.type === "label")
+        .map((image) => toCapturedImage(image)),
+      equipmentImages: images
+        .filter((image) => image.type === "equipment")
+        .map((image) => toCapturedImage(image)),
+      status: "draft",
+      createdAt: new Date(),
+      technician: getTechnicianName() || undefined,
+    };
+    const changes = equipmentChanges.map((change) => ({
+      ...change,
+      reportId,
+    }));
+
+    try {
+      setSaveError(null);
+      await saveReport(report, images, changes);
+      await getCaptureQueue().enqueue(
+        reportId,
+        labelPending
+          ? ["scan_label", "analyze_equipment"]
+          : ["analyze_equipment"]
+      );
+    } catch (err) {
+      console.error("Error queuing inspection:", err);
+      setSaveError(
+        describeSaveError(
+          err,
+          "The inspection could not be saved for later analysis"
+        )
+      );
+      return;
+    }
+
+    setLabelImages([]);
+    setEquipmentChanges([]);
+    setLabelPending(false);
+    setQueueNotice(
+      "Inspection saved as a draft. It will be analyzed once this device is back online."
+    );
+    setCurrentScreen("history");
   };
 
   const renderScreen = () => {
@@ -43,9 +372,10 @@ export default function Home() {
         return (
           <CameraCapture
             type="label"
-            onCapture={(data) => {
-              handleLabelScanned(data as HVACEquipmentWithMetadata);
+            onCapture={(data, images) => {
+              handleLabelScanned(data as HVACEquipmentWithMetadata, images);
             }}
+            onDefer={handleLabelDeferred}
             onBack={() => setCurrentScreen("home")}
           />
         );
@@ -54,6 +384,7 @@ export default function Home() {
         return (
           <EquipmentForm
             initialData={currentEquipment}
+            labelPending={labelPending}
             onSave={(equipment) => {
               handleEquipmentSaved(equipment);
             }}
@@ -66,8 +397,11 @@ export default function Home() {
           <CameraCapture
             type="equipment"
             equipment={currentEquipment as HVACEquipment}
-            onCapture={(data) => {
-              handleInspectionComplete(data as InspectionReport);
+            onCapture={(data, images) => {
+              handleInspectionComplete(data as InspectionReport, images);
+            }}
+            onDefer={(images) => {
+              handleInspectionDeferred(images);
             }}
             onBack={() => setCurrentScreen("data-form")}
           />
@@ -93,12 +427,147 @@ export default function Home() {
           />
         );
 
+      case "settings":
+        return <SettingsView onBack={() => setCurrentScreen("home")} />;
+
       default:
-        return <HomeScreen onNavigate={setCurrentScreen} />;
+        return <HomeScreen onNavigate={handleNavigateFromHome} />;
     }
   };
 
-  return <main className="min-h-screen bg-gray-50">{renderScreen()}</main>;
+  return (
+    <main className="min-h-screen bg-gray-50">
+      {!online && (
+        <div
+          role="status"
+          className="sticky top-0 z-40 bg-gray-800 px-3 py-1.5 flex items-center justify-center gap-2 text-xs text-white"
+        >
+          <WifiOff className="w-4 h-4 flex-shrink-0" />
+          <span>
+            Offline. Photos are saved and analyzed once you reconnect.
+          </span>
+        </div>
+      )}
+      {updateReady && !updateDismissed && (
+        <div className="bg-blue-50 border-b border-blue-200 p-3 flex items-start gap-2 text-sm text-blue-800">
+          <RefreshCw className="w-5 h-5 flex-shrink-0 text-blue-600" />
+          <span className="flex-1">
+            A new version of the app is ready.{" "}
+            <button onClick={applyUpdate} className="font-medium underline">
+              Reload to update
+            </button>
+          </span>
+          <button
+            onClick={() => setUpdateDismissed(true)}
+            className="text-blue-600 hover:text-blue-800"
+            aria-label="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {saveError && (
+        <div className="bg-red-50 border-b border-red-200 p-3 flex items-start gap-2 text-sm text-red-800">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0 text-red-600" />
+          <span className="flex-1">{saveError}</span>
+          <button
+            onClick={() => setSaveError(null)}
+            className="text-red-600 hover:text-red-800"
+            aria-label="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {storageWarning && (
+        <div className="bg-yellow-50 border-b border-yellow-200 p-3 flex items-start gap-2 text-sm text-yellow-800">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0 text-yellow-600" />
+          <span className="flex-1">
+            Storage on this device is almost full.{" "}
+            <button
+              onClick={() => {
+                setStorageWarning(false);
+                setCurrentScreen("settings");
+              }}
+              className="font-medium underline"
+            >
+              Free up space
+            </button>
+          </span>
+          <button
+            onClick={() => setStorageWarning(false)}
+            className="text-yellow-600 hover:text-yellow-800"
+            aria-label="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {queueNotice && (
+        <div className="bg-blue-50 border-b border-blue-200 p-3 flex items-start gap-2 text-sm text-blue-800">
+          <Clock className="w-5 h-5 flex-shrink-0 text-blue-600" />
+          <span className="flex-1">{queueNotice}</span>
+          <button
+            onClick={() => setQueueNotice(null)}
+            className="text-blue-600 hover:text-blue-800"
+            aria-label="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {analyzedReport && (
+        <div className="bg-green-50 border-b border-green-200 p-3 flex items-start gap-2 text-sm text-green-800">
+          <CheckCircle className="w-5 h-5 flex-shrink-0 text-green-600" />
+          <span className="flex-1">
+            Queued analysis finished for {describeEquipment(analyzedReport)}.{" "}
+            <button
+              onClick={() => {
+                setCurrentReport(analyzedReport);
+                setAnalyzedReport(null);
+                setCurrentScreen("results");
+              }}
+              className="font-medium underline"
+            >
+              View results
+            </button>
+          </span>
+          <button
+            onClick={() => setAnalyzedReport(null)}
+            className="text-green-600 hover:text-green-800"
+            aria-label="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {renderScreen()}
+      {scanMatches.length > 0 && currentEquipment && (
+        <DuplicateEquipmentPrompt
+          scanned={currentEquipment}
+          matches={scanMatches}
+          onUseExisting={handleUseExistingEquipment}
+          onCreateNew={() => setScanMatches([])}
+        />
+      )}
+      {scanMatches.length === 0 && queuedMatches.length > 0 && (
+        <DuplicateEquipmentPrompt
+          scanned={queuedMatches[0].report.equipment}
+          matches={queuedMatches[0].matches}
+          onUseExisting={handleUseExistingForQueued}
+          onCreateNew={() => setQueuedMatches((queued) => queued.slice(1))}
+        />
+      )}
+      {lockState === "locked" && <UnlockScreen />}
+    </main>
+  );
+}
+
+function describeEquipment(report: InspectionReport): string {
+  const name = [report.equipment?.brand, report.equipment?.model]
+    .filter(Boolean)
+    .join(" ");
+  return name || "unidentified equipment";
 }
 
 interface HomeScreenProps {
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import { v4 as uuidv4 } from "uuid";
 import {
   Camera,
   FlipHorizontal,
@@ -10,20 +11,41 @@ import {
   CheckCircle,
   AlertCircle,
   Trash2,
+  RotateCcw,
+  WifiOff,
+  Clock,
 } from "lucide-react";
 import type {
   HVACEquipment,
   HVACEquipmentWithMetadata,
   InspectionReport,
   CameraCapture,
+  StoredImage,
 } from "@/types";
-import { openAIService } from "@/services/openai";
+import { scannerApi } from "@/services/scannerApi";
+import { useProcessingStages } from "@/hooks/useProcessingStages";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import ProcessingStepper from "@/components/ProcessingStepper";
+import { MAX_LABEL_IMAGES } from "@/services/labelMerge";
+import { createStoredImage, toCapturedImage } from "@/services/imageStorage";
+import {
+  getErrorMessage,
+  isCancelledError,
+  isRetryableError,
+} from "@/services/errors";
 import Image from "next/image";
 
 interface CameraCaptureProps {
   type: "label" | "equipment";
   equipment?: HVACEquipment;
-  onCapture: (data: HVACEquipmentWithMetadata | InspectionReport) => void;
+  // `images` are the captured photos, ready for the images store
+  onCapture: (
+    data: HVACEquipmentWithMetadata | InspectionReport,
+    images: StoredImage[]
+  ) => void;
+  // Saves the photos for the capture queue instead of analyzing them now;
+  // offered when offline or after a connection failure
+  onDefer?: (images: StoredImage[]) => void;
   onBack: () => void;
 }
 
@@ -31,6 +53,7 @@ export default function CameraCapture({
   type,
   equipment,
   onCapture,
+  onDefer,
   onBack,
 }: CameraCaptureProps) {
   const [stream, setStream] = useState<MediaStream | null>(null);
@@ -38,13 +61,25 @@ export default function CameraCapture({
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingTime, setProcessingTime] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Set when the last failure was transient, so the same request can be re-run
+  const [retryAction, setRetryAction] = useState<(() => void) | null>(null);
   const [cameraError, setCameraError] = useState<string | null>(null);
   const [facingMode, setFacingMode] = useState<"user" | "environment">(
     "environment"
   );
 
+  const online = useOnlineStatus();
+
   const videoRef = useRef<HTMLVideoElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const {
+    status: processingStatus,
+    timings: stageTimings,
+    reportStatus,
+    finish: finishStages,
+    reset: resetStages,
+  } = useProcessingStages();
 
   const initCamera = async () => {
     try {
@@ -82,6 +117,46 @@ export default function CameraCapture({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [facingMode]);
 
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const startRequest = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsProcessing(true);
+    setError(null);
+    setRetryAction(null);
+    setProcessingTime(null);
+    resetStages();
+    return controller.signal;
+  };
+
+  const handleRequestError = (
+    err: unknown,
+    prefix: string,
+    retry: () => void
+  ) => {
+    if (isCancelledError(err)) {
+      console.log("Request cancelled by user");
+      return;
+    }
+    setError(`${prefix}: ${getErrorMessage(err)}`);
+    if (isRetryableError(err)) {
+      setRetryAction(() => retry);
+    }
+  };
+
+  const cancelProcessing = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const dismissError = () => {
+    setError(null);
+    setRetryAction(null);
+  };
+
   const capturePhoto = async () => {
     if (!videoRef.current || !stream) return;
 
@@ -138,10 +213,6 @@ export default function CameraCapture({
       };
 
       setCaptures((prev) => [...prev, newCapture]);
-
-      if (type === "label") {
-        await processLabelImage(file);
-      }
     } catch (err) {
       setError("Error capturing photo");
       console.error("Capture error:", err);
@@ -149,23 +220,19 @@ export default function CameraCapture({
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const compressedFile = compressImage(file);
+    const files = Array.from(event.target.files ?? []);
+    // Allow picking the same file again after deleting it
+    event.target.value = "";
+    if (files.length === 0) return;
 
-    compressedFile.then((compressed) => {
-      const newCapture: CameraCapture = {
-        file: compressed,
-        preview: URL.createObjectURL(compressed),
+    Promise.all(files.map(compressImage)).then((compressed) => {
+      const newCaptures: CameraCapture[] = compressed.map((file) => ({
+        file,
+        preview: URL.createObjectURL(file),
         timestamp: new Date(),
-      };
+      }));
 
-      setCaptures((prev) => [...prev, newCapture]);
-
-      if (type === "label") {
-        processLabelImage(compressed);
-      }
+      setCaptures((prev) => [...prev, ...newCaptures]);
     });
   };
 
@@ -230,20 +297,44 @@ export default function CameraCapture({
     });
   };
 
-  const processLabelImage = async (file: File) => {
-    setIsProcessing(true);
-    setError(null);
-    setProcessingTime(null);
+  const createStoredImages = () =>
+    Promise.all(
+      captures.map((capture) =>
+        createStoredImage(capture.file, type, capture.timestamp)
+      )
+    );
 
+  const deferProcessing = async () => {
+    if (!onDefer) return;
+    dismissError();
     try {
-      console.log("Processing image with OpenAI...", file.name);
-      const result = await openAIService.scanLabel(file);
+      onDefer(await createStoredImages());
+    } catch (err) {
+      console.error("Error saving photos for later:", err);
+      setError("The photos could not be saved for later analysis");
+    }
+  };
+
+  const processLabelImages = async (files: File[]) => {
+    const signal = startRequest();
+
+    try {
+      console.log("Reading label from", files.length, "photo(s)");
+      const result = await scannerApi.scanLabel(files, {
+        signal,
+        onProgress: reportStatus,
+      });
       console.log("OpenAI result:", result);
 
       setProcessingTime(result.processingTime);
 
       if (result.confidence > 0.3) {
         console.log("Extracted data:", result.extractedData);
+        reportStatus({
+          isProcessing: true,
+          stage: "generating_report",
+          message: "Filling in the equipment form",
+        });
 
         const enhancedData: HVACEquipmentWithMetadata = {
           ...result.extractedData,
@@ -251,9 +342,9 @@ export default function CameraCapture({
           scanConfidence: result.confidence,
         };
 
-        setTimeout(() => {
-          onCapture(enhancedData);
-        }, 1500);
+        const images = await createStoredImages();
+        finishStages();
+        onCapture(enhancedData, images);
       } else {
         setError(
           `Low confidence (${Math.round(
@@ -263,20 +354,19 @@ export default function CameraCapture({
       }
     } catch (err) {
       console.error("Error processing image:", err);
-      setError(
-        `Error processing image: ${
-          err instanceof Error ? err.message : "Unknown error"
-        }`
+      handleRequestError(err, "Error processing image", () =>
+        processLabelImages(files)
       );
     } finally {
-      setIsProcessing(false);
+      if (abortControllerRef.current?.signal === signal) {
+        abortControllerRef.current = null;
+        setIsProcessing(false);
+      }
     }
   };
 
   const processEquipmentImages = async (files: File[]) => {
-    setIsProcessing(true);
-    setError(null);
-    setProcessingTime(null);
+    const signal = startRequest();
 
     try {
       console.log(
@@ -284,16 +374,26 @@ export default function CameraCapture({
         files.length,
         "image(s)"
       );
-      const result = await openAIService.analyzeEquipment(files);
+      const result = await scannerApi.analyzeEquipment(files, {
+        signal,
+        onProgress: reportStatus,
+      });
       console.log("Analysis result:", result);
 
       setProcessingTime(result.processingTime);
+      reportStatus({
+        isProcessing: true,
+        stage: "generating_report",
+        message: `${result.failures.length} issue(s) found`,
+      });
 
+      const images = await createStoredImages();
+      const equipmentId = equipment?.id || uuidv4();
       const inspectionReport: InspectionReport = {
-        id: Date.now().toString(),
-        equipmentId: equipment?.id || "temp-" + Date.now(),
+        id: uuidv4(),
+        equipmentId,
         equipment: equipment || {
-          id: "temp-" + Date.now(),
+          id: equipmentId,
           brand: "Unidentified equipment",
           model: "",
           serialNumber: "",
@@ -301,13 +401,11 @@ export default function CameraCapture({
           updatedAt: new Date(),
         },
         labelImages: [],
-        equipmentImages: captures.map((capture, index) => ({
-          id: `img-${index}`,
-          url: capture.preview,
-          type: "equipment" as const,
-          capturedAt: capture.timestamp,
-          fileSize: capture.file.size,
-        })),
+        // The capture previews stay valid until the page reloads; after
+        // that the images are read back from the images store
+        equipmentImages: images.map((image, index) =>
+          toCapturedImage(image, captures[index].preview)
+        ),
         inspectionResult: result,
         status: "completed",
         createdAt: new Date(),
@@ -315,18 +413,18 @@ export default function CameraCapture({
       };
 
       console.log("Inspection report created:", inspectionReport);
-      setTimeout(() => {
-        onCapture(inspectionReport);
-      }, 1500);
+      finishStages();
+      onCapture(inspectionReport, images);
     } catch (err) {
       console.error("Error analyzing equipment:", err);
-      setError(
-        `Error analyzing equipment: ${
-          err instanceof Error ? err.message : "Unknown error"
-        }`
+      handleRequestError(err, "Error analyzing equipment", () =>
+        processEquipmentImages(files)
       );
     } finally {
-      setIsProcessing(false);
+      if (abortControllerRef.current?.signal === signal) {
+        abortControllerRef.current = null;
+        setIsProcessing(false);
+      }
     }
   };
 
@@ -384,7 +482,7 @@ export default function CameraCapture({
                   brand: "Carrier",
                   model: "24ACC636A003",
                   serialNumber: "1234567890",
-                  capacity: "3 toneladas",
+                  capacity: "3 tons",
                   btu: 36000,
                   equipmentType: "air_conditioner",
                   voltage: "208-230V",
@@ -417,7 +515,7 @@ export default function CameraCapture({
                     manufactureDate: { source: "scanned", confidence: 0.75 },
                   },
                 };
-                onCapture(mockData);
+                onCapture(mockData, []);
               }}
               className="flex items-center gap-2 bg-orange-600/80 text-white px-4 py-2 rounded-full backdrop-blur-sm"
             >
@@ -454,19 +552,29 @@ export default function CameraCapture({
 
         {isProcessing && (
           <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
-            <div className="bg-white rounded-lg p-6 text-center max-w-sm mx-4">
-              <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-600" />
+            <div className="bg-white rounded-lg p-6 text-center max-w-sm w-full mx-4">
               <p className="text-lg font-semibold">
                 {type === "label"
                   ? "Processing image..."
                   : "Analyzing HVAC equipment..."}
               </p>
-              <p className="text-sm text-gray-600 mt-2">
+              <p className="text-sm text-gray-600 mt-2 mb-4">
                 {type === "label"
-                  ? "Extracting label data with AI"
+                  ? `Extracting label data from ${captures.length} photo(s) with AI`
                   : "Detecting issues and generating recommendations with AI"}
               </p>
 
+              <ProcessingStepper
+                status={processingStatus}
+                timings={stageTimings}
+                labels={{
+                  analyzing:
+                    type === "label" ? "Reading label" : "Inspecting photos",
+                  generating_report:
+                    type === "label" ? "Preparing form" : "Assembling report",
+                }}
+              />
+
               {processingTime && (
                 <div className="mt-3 p-2 bg-blue-50 rounded-lg">
                   <p className="text-sm text-blue-700">
@@ -475,6 +583,13 @@ export default function CameraCapture({
                 </div>
               )}
 
+              <button
+                onClick={cancelProcessing}
+                className="mt-4 w-full bg-gray-200 text-gray-800 px-4 py-2 rounded-lg font-semibold hover:bg-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+
               {type === "label" && (
                 <button
                   onClick={() => {
@@ -486,7 +601,7 @@ export default function CameraCapture({
                       brand: "Carrier",
                       model: "24ACC636A003",
                       serialNumber: "1234567890",
-                      capacity: "3 toneladas",
+                      capacity: "3 tons",
                       btu: 36000,
                       equipmentType: "air_conditioner",
                       voltage: "208-230V",
@@ -508,7 +623,7 @@ export default function CameraCapture({
                     };
                     setProcessingTime(2500);
                     setIsProcessing(false);
-                    setTimeout(() => onCapture(mockData), 500);
+                    setTimeout(() => onCapture(mockData, []), 500);
                   }}
                   className="mt-4 bg-orange-600 text-white px-4 py-2 rounded text-sm"
                 >
@@ -522,9 +637,30 @@ export default function CameraCapture({
         {error && (
           <div className="absolute top-20 left-4 right-4 bg-red-600 text-white p-4 rounded-lg">
             <div className="flex items-center gap-2">
-              <AlertCircle className="w-5 h-5" />
-              <p>{error}</p>
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <p className="flex-1">{error}</p>
+              <button onClick={dismissError} className="p-1">
+                <X className="w-4 h-4" />
+              </button>
             </div>
+            {retryAction && (
+              <button
+                onClick={retryAction}
+                className="w-full mt-3 bg-white text-red-600 py-2 px-4 rounded-lg font-semibold hover:bg-gray-100 transition-colors flex items-center justify-center gap-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Retry
+              </button>
+            )}
+            {retryAction && onDefer && captures.length > 0 && (
+              <button
+                onClick={deferProcessing}
+                className="w-full mt-2 bg-red-700 text-white py-2 px-4 rounded-lg font-semibold hover:bg-red-800 transition-colors flex items-center justify-center gap-2"
+              >
+                <Clock className="w-4 h-4" />
+                Save and analyze later
+              </button>
+            )}
           </div>
         )}
 
@@ -535,9 +671,14 @@ export default function CameraCapture({
               <div className="flex-1">
                 <p>
                   {type === "label"
-                    ? "✅ Data extracted successfully. Redirecting to form..."
+                    ? `${captures.length} label photo(s) captured`
                     : `${captures.length} photo(s) captured`}
                 </p>
+                {type === "label" && captures.length < MAX_LABEL_IMAGES && (
+                  <p className="text-sm text-green-200 mt-1">
+                    Add close-ups of hard-to-read areas for a better reading
+                  </p>
+                )}
                 {processingTime && (
                   <p className="text-sm text-green-200 mt-1">
                     ⚡ Processed in {(processingTime / 1000).toFixed(1)} seconds
@@ -546,26 +687,59 @@ export default function CameraCapture({
               </div>
             </div>
 
-            {type === "equipment" && captures.length > 0 && (
+            {!online && onDefer && (
+              <div className="mt-3">
+                <p className="text-sm text-green-100 flex items-center gap-2">
+                  <WifiOff className="w-4 h-4 flex-shrink-0" />
+                  No connection. The photos will be analyzed once this device is
+                  back online.
+                </p>
+                <button
+                  onClick={deferProcessing}
+                  className="w-full mt-3 bg-white text-green-600 py-2 px-4 rounded-lg font-semibold hover:bg-gray-100 transition-colors flex items-center justify-center gap-2"
+                >
+                  <Clock className="w-4 h-4" />
+                  Save and analyze later
+                </button>
+              </div>
+            )}
+
+            {type === "label" && (online || !onDefer) && (
               <button
                 onClick={() =>
-                  processEquipmentImages(captures.map((c) => c.file))
+                  processLabelImages(
+                    captures.slice(0, MAX_LABEL_IMAGES).map((c) => c.file)
+                  )
                 }
                 className="w-full mt-3 bg-white text-green-600 py-2 px-4 rounded-lg font-semibold hover:bg-gray-100 transition-colors"
               >
-                🔍 Analyze Equipment with AI
+                📖 Read Label with AI
               </button>
             )}
 
+            {type === "equipment" &&
+              captures.length > 0 &&
+              (online || !onDefer) && (
+                <button
+                  onClick={() =>
+                    processEquipmentImages(captures.map((c) => c.file))
+                  }
+                  className="w-full mt-3 bg-white text-green-600 py-2 px-4 rounded-lg font-semibold hover:bg-gray-100 transition-colors"
+                >
+                  🔍 Analyze Equipment with AI
+                </button>
+              )}
+
             {type === "equipment" && (
               <button
                 onClick={() => {
                   console.log("Simulating equipment analysis...");
+                  const equipmentId = equipment?.id || uuidv4();
                   const mockReport: InspectionReport = {
-                    id: Date.now().toString(),
-                    equipmentId: equipment?.id || "temp-" + Date.now(),
+                    id: uuidv4(),
+                    equipmentId,
                     equipment: equipment || {
-                      id: "temp-" + Date.now(),
+                      id: equipmentId,
                       brand: "Carrier",
                       model: "RTU-50TC",
                       serialNumber: "12345ABC",
@@ -575,7 +749,7 @@ export default function CameraCapture({
                     labelImages: [],
                     equipmentImages: [],
                     inspectionResult: {
-                      equipmentType: "RTU (Rooftop Unit)",
+                      equipmentType: "rooftop_unit",
                       equipmentDescription:
                         "Commercial rooftop unit for cooling and heating",
                       failures: [
@@ -622,7 +796,7 @@ export default function CameraCapture({
                     completedAt: new Date(),
                   };
                   setProcessingTime(3500);
-                  onCapture(mockReport);
+                  onCapture(mockReport, []);
                 }}
                 className="w-full mt-2 bg-orange-500 text-white py-2 px-4 rounded-lg font-semibold hover:bg-orange-600 transition-colors"
               >
@@ -661,7 +835,10 @@ export default function CameraCapture({
         <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2">
           <button
             onClick={capturePhoto}
-            disabled={isProcessing}
+            disabled={
+              isProcessing ||
+              (type === "label" && captures.length >= MAX_LABEL_IMAGES)
+            }
             className="w-20 h-20 bg-white rounded-full border-4 border-gray-300 shadow-lg active:scale-95 transition-transform disabled:opacity-50"
           >
             <div className="w-full h-full bg-gray-200 rounded-full flex items-center justify-center">
@@ -679,6 +856,7 @@ export default function CameraCapture({
         ref={fileInputRef}
         type="file"
         accept="image/*"
+        multiple
         onChange={handleFileUpload}
         className="hidden"
       />
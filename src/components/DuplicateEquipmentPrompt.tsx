@@ -0,0 +1,77 @@
+"use client";
+
+import { Copy, Plus } from "lucide-react";
+import type { HVACEquipment } from "@/types";
+import type { EquipmentMatch } from "@/services/equipmentIdentity";
+import { getEquipmentTypeLabel } from "@/services/equipmentTypes";
+
+interface DuplicateEquipmentPromptProps {
+  scanned: HVACEquipment;
+  matches: EquipmentMatch[];
+  onUseExisting: (equipment: HVACEquipment) => void;
+  onCreateNew: () => void;
+}
+
+export default function DuplicateEquipmentPrompt({
+  scanned,
+  matches,
+  onUseExisting,
+  onCreateNew,
+}: DuplicateEquipmentPromptProps) {
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-end sm:items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-md p-6 space-y-4">
+        <div className="flex items-start gap-3">
+          <Copy className="w-6 h-6 text-blue-600 flex-shrink-0" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              This unit already exists
+            </h2>
+            <p className="text-sm text-gray-600">
+              {scanned.brand} serial {scanned.serialNumber} matches equipment
+              saved on this device. Continue with it to keep the inspection
+              history together.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {matches.map(({ equipment, kind }) => (
+            <button
+              key={equipment.id}
+              onClick={() => onUseExisting(equipment)}
+              className="w-full text-left border border-gray-200 rounded-lg p-3 hover:border-blue-400 hover:bg-blue-50"
+            >
+              <div className="flex justify-between gap-2">
+                <span className="font-medium text-gray-900">
+                  {equipment.brand} {equipment.model}
+                </span>
+                {kind === "fuzzy" && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 whitespace-nowrap">
+                    Similar serial
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-gray-600">
+                Serial {equipment.serialNumber}
+                {equipment.equipmentType &&
+                  ` · ${getEquipmentTypeLabel(equipment.equipmentType)}`}
+              </p>
+              {equipment.location && (
+                <p className="text-sm text-gray-500">{equipment.location}</p>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={onCreateNew}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-800 rounded-lg font-medium hover:bg-gray-50"
+        >
+          <Plus className="w-5 h-5" />
+          Save as a new unit
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,59 @@
 import { useState, useEffect } from "react";
-import { Save, X, CheckCircle, Bot, Eye } from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
+import {
+  Save,
+  X,
+  CheckCircle,
+  Bot,
+  Eye,
+  AlertTriangle,
+  Pencil,
+  Clock,
+} from "lucide-react";
 import type {
   HVACEquipment,
   HVACEquipmentWithMetadata,
+  FieldConflict,
   FieldMetadata,
+  ValidationErrors,
 } from "@/types";
+import {
+  hasValidationErrors,
+  normalizeNameplate,
+  validateEquipment,
+} from "@/services/normalization";
+import {
+  EQUIPMENT_CATEGORIES,
+  groupEquipmentTypes,
+  normalizeEquipmentType,
+} from "@/services/equipmentTypes";
+import { EQUIPMENT_FIELD_LABELS } from "@/services/equipmentHistory";
+import EquipmentHistoryPanel from "@/components/EquipmentHistoryPanel";
 
 interface EquipmentFormProps {
   initialData?: HVACEquipmentWithMetadata | null;
+  // The label photos wait in the capture queue; blank fields are filled in
+  // from them later, so none is required now
+  labelPending?: boolean;
   onSave: (equipment: HVACEquipment) => void;
   onBack: () => void;
 }
 
+// The readings of a scan without the details about the scan itself, which
+// the form keeps in its own state or drops
+function withoutScanDetails(data: HVACEquipmentWithMetadata): HVACEquipment {
+  const equipment = { ...data };
+  delete equipment.fieldMetadata;
+  delete equipment.fieldConflicts;
+  delete equipment.scanWarnings;
+  delete equipment.processingTime;
+  delete equipment.scanConfidence;
+  return equipment;
+}
+
 export default function EquipmentForm({
   initialData,
+  labelPending = false,
   onSave,
   onBack,
 }: EquipmentFormProps) {
@@ -33,6 +73,12 @@ export default function EquipmentForm({
     Record<string, FieldMetadata>
   >({});
 
+  // Fields read differently on different label photos; the technician has to
+  // pick (or type) the right value before saving
+  const [conflicts, setConflicts] = useState<FieldConflict[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [errors, setErrors] = useState<ValidationErrors>({});
+
   const getFieldSourceInfo = (fieldName: string) => {
     const metadata = fieldMetadata[fieldName];
     if (!metadata) return null;
@@ -43,6 +89,7 @@ export default function EquipmentForm({
       inferenceBasis: metadata.inferenceBasis,
       isAiInferred: metadata.source === "ai_inferred",
       isScanned: metadata.source === "scanned",
+      sourceImage: metadata.sourceImage,
     };
   };
 
@@ -63,7 +110,11 @@ export default function EquipmentForm({
     if (initialData) {
       console.log("Updating form with data:", initialData);
 
+      // Scan details live in their own state so they are not saved with the
+      // equipment, where they would go stale once a field is edited
       setFieldMetadata(initialData.fieldMetadata || {});
+      setConflicts(initialData.fieldConflicts || []);
+      setWarnings(initialData.scanWarnings || []);
 
       setFormData({
         brand: initialData.brand || "",
@@ -77,18 +128,25 @@ export default function EquipmentForm({
         seerRating: initialData.seerRating || undefined,
         eerRating: initialData.eerRating || undefined,
         manufactureDate: initialData.manufactureDate || "",
-        equipmentType: initialData.equipmentType || "air_conditioner",
         location: initialData.location || "",
-        ...initialData,
+        ...withoutScanDetails(initialData),
+        // Older records may still carry legacy type values
+        equipmentType:
+          normalizeEquipmentType(initialData.equipmentType) ??
+          "air_conditioner",
       });
     }
   }, [initialData]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (conflicts.length > 0) return;
+
+    const validationErrors = validateEquipment(formData);
+    setErrors(validationErrors);
+    if (hasValidationErrors(validationErrors)) return;
 
     const equipment: HVACEquipment = {
-      id: Date.now().toString(),
       brand: formData.brand || "",
       model: formData.model || "",
       serialNumber: formData.serialNumber || "",
@@ -99,8 +157,12 @@ export default function EquipmentForm({
       refrigerantType: formData.refrigerantType,
       location: formData.location,
       createdAt: new Date(),
-      updatedAt: new Date(),
       ...formData,
+      // Scans arrive without an id; a unit matched to an existing record
+      // keeps that record's id so its history stays together
+      id: formData.id || uuidv4(),
+      updatedAt: new Date(),
+      specs: normalizeNameplate(formData),
     };
 
     onSave(equipment);
@@ -111,6 +173,39 @@ export default function EquipmentForm({
       ...prev,
       [field]: value,
     }));
+    // The scanned reading stays in the change log; the form shows the field
+    // as edited from here on
+    setFieldMetadata((prev) =>
+      prev[field] && prev[field].source !== "manual"
+        ? { ...prev, [field]: { source: "manual" } }
+        : prev
+    );
+    // Typing a value by hand settles any conflicting readings for the field
+    setConflicts((prev) => prev.filter((conflict) => conflict.field !== field));
+    setErrors((prev) => (prev[field] ? { ...prev, [field]: undefined } : prev));
+  };
+
+  const renderFieldError = (fieldName: keyof HVACEquipment) =>
+    errors[fieldName] && (
+      <p className="mt-1 text-sm text-red-600">{errors[fieldName]}</p>
+    );
+
+  const resolveConflict = (
+    conflict: FieldConflict,
+    candidate: FieldConflict["candidates"][number]
+  ) => {
+    handleChange(conflict.field, candidate.value);
+    setFieldMetadata((prev) => ({
+      ...prev,
+      [conflict.field]: {
+        ...prev[conflict.field],
+        // handleChange just marked the field as edited; a candidate is
+        // still a reading from the label
+        source: fieldMetadata[conflict.field]?.source || "scanned",
+        confidence: candidate.confidence,
+        sourceImage: candidate.imageIndex,
+      },
+    }));
   };
 
   const isFieldPreFilled = (fieldName: keyof HVACEquipment) => {
@@ -148,6 +243,15 @@ export default function EquipmentForm({
       );
     }
 
+    if (sourceInfo.source === "manual") {
+      return (
+        <span className="ml-2 text-xs text-gray-700 font-medium bg-gray-100 px-2 py-0.5 rounded-full flex items-center">
+          <Pencil className="w-3 h-3 mr-1" />
+          Edited
+        </span>
+      );
+    }
+
     return (
       <span className="ml-2 text-xs text-green-600 font-normal bg-green-100 px-2 py-0.5 rounded-full">
         ✓ Detected
@@ -160,6 +264,10 @@ export default function EquipmentForm({
     const baseClasses =
       "w-full border rounded-lg px-4 py-3 text-base focus:outline-none focus:ring-2 focus:border-transparent transition-all duration-200";
 
+    if (errors[fieldName]) {
+      return `${baseClasses} border-red-500 bg-red-50 focus:ring-red-500 text-gray-900`;
+    }
+
     if (!sourceInfo) {
       return `${baseClasses} border-gray-300 focus:ring-blue-500 hover:border-gray-400 text-gray-900`;
     }
@@ -216,24 +324,10 @@ export default function EquipmentForm({
                       key !== "id" &&
                       key !== "createdAt" &&
                       key !== "updatedAt" &&
-                      key !== "fieldMetadata"
+                      key !== "fieldMetadata" &&
+                      key !== "fieldConflicts" &&
+                      key !== "scanWarnings"
                     ) {
-                      const fieldLabels: Record<string, string> = {
-                        brand: "Brand",
-                        model: "Model",
-                        serialNumber: "Serial",
-                        btu: "BTU",
-                        voltage: "Voltage",
-                        amperage: "Amperage",
-                        refrigerantType: "Refrigerant",
-                        seerRating: "SEER",
-                        eerRating: "EER",
-                        capacity: "Capacity",
-                        equipmentType: "Type",
-                        manufactureDate: "Mfg. Date",
-                        location: "Location",
-                      };
-
                       const sourceInfo = getFieldSourceInfo(key);
                       const isInferred = sourceInfo?.isAiInferred;
 
@@ -253,13 +347,21 @@ export default function EquipmentForm({
                               <Eye className="w-4 h-4 text-blue-900 mr-2" />
                             )}
                             <span className="font-medium text-gray-800">
-                              {fieldLabels[key] || key}:
+                              {EQUIPMENT_FIELD_LABELS[
+                                key as keyof HVACEquipment
+                              ] || key}
+                              :
                             </span>
                             <span className="ml-2 truncate text-gray-900 font-medium">
                               {typeof value === "number"
                                 ? value
                                 : String(value)}
                             </span>
+                            {sourceInfo?.sourceImage !== undefined && (
+                              <span className="ml-2 text-xs text-gray-500">
+                                📷 {sourceInfo.sourceImage + 1}
+                              </span>
+                            )}
                           </div>
                           <span
                             className={`text-xs px-2 py-1 rounded-full font-medium ${
@@ -297,6 +399,76 @@ export default function EquipmentForm({
           </div>
         )}
 
+        {labelPending && (
+          <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 flex items-start gap-3 text-sm text-blue-900">
+            <Clock className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+            <p>
+              The label will be read once this device is back online. Fill in
+              what you can; fields left blank are completed from the label
+              photos.
+            </p>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-300 rounded-xl p-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
+              <ul className="flex-1 space-y-1 text-sm text-yellow-900">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {conflicts.length > 0 && (
+          <div className="bg-amber-50 border-2 border-amber-300 rounded-xl p-4 shadow-sm">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-6 h-6 text-amber-600 mt-0.5 flex-shrink-0" />
+              <div className="flex-1">
+                <h3 className="text-amber-900 font-semibold text-lg mb-1">
+                  Conflicting readings
+                </h3>
+                <p className="text-amber-800 text-sm mb-3">
+                  The label photos disagree on these fields. Pick the correct
+                  value or type it below.
+                </p>
+
+                <div className="space-y-3">
+                  {conflicts.map((conflict) => (
+                    <div key={conflict.field}>
+                      <p className="text-sm font-semibold text-gray-800 mb-1">
+                        {EQUIPMENT_FIELD_LABELS[conflict.field] ||
+                          conflict.field}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {conflict.candidates.map((candidate) => (
+                          <button
+                            key={`${candidate.imageIndex}-${candidate.value}`}
+                            type="button"
+                            onClick={() => resolveConflict(conflict, candidate)}
+                            className="bg-white border border-amber-300 rounded-lg px-3 py-2 text-sm text-left hover:bg-amber-100 transition-colors"
+                          >
+                            <span className="font-mono font-medium text-gray-900">
+                              {candidate.value}
+                            </span>
+                            <span className="block text-xs text-gray-500">
+                              📷 Photo {candidate.imageIndex + 1} ·{" "}
+                              {Math.round(candidate.confidence * 100)}%
+                            </span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
           <h2 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
             <span className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center mr-3">
@@ -316,7 +488,7 @@ export default function EquipmentForm({
                 onChange={(e) => handleChange("brand", e.target.value)}
                 className={getInputClasses("brand")}
                 placeholder="e.g: Carrier, Trane, Lennox"
-                required
+                required={!labelPending}
               />
             </div>
 
@@ -330,7 +502,21 @@ export default function EquipmentForm({
                 onChange={(e) => handleChange("model", e.target.value)}
                 className={getInputClasses("model")}
                 placeholder="Model number"
-                required
+                required={!labelPending}
+              />
+            </div>
+
+            <div>
+              <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
+                Series
+                {getFieldSourceBadge("series")}
+              </label>
+              <input
+                type="text"
+                value={formData.series || ""}
+                onChange={(e) => handleChange("series", e.target.value)}
+                className={getInputClasses("series")}
+                placeholder="e.g: XC16, GSX14"
               />
             </div>
 
@@ -344,7 +530,7 @@ export default function EquipmentForm({
                 onChange={(e) => handleChange("serialNumber", e.target.value)}
                 className={getInputClasses("serialNumber")}
                 placeholder="Serial number"
-                required
+                required={!labelPending}
               />
             </div>
           </div>
@@ -371,6 +557,7 @@ export default function EquipmentForm({
                 className={getInputClasses("capacity")}
                 placeholder="e.g: 3 tons, 36,000 BTU"
               />
+              {renderFieldError("capacity")}
             </div>
 
             <div>
@@ -387,61 +574,7 @@ export default function EquipmentForm({
                 className={getInputClasses("btu")}
                 placeholder="36000"
               />
-            </div>
-
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
-                  Voltage
-                  {getFieldSourceBadge("voltage")}
-                </label>
-                <input
-                  type="text"
-                  value={formData.voltage || ""}
-                  onChange={(e) => handleChange("voltage", e.target.value)}
-                  className={getInputClasses("voltage")}
-                  placeholder="220V"
-                />
-              </div>
-
-              <div>
-                <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
-                  Amperage
-                  {getFieldSourceBadge("amperage")}
-                </label>
-                <input
-                  type="text"
-                  value={formData.amperage || ""}
-                  onChange={(e) => handleChange("amperage", e.target.value)}
-                  className={getInputClasses("amperage")}
-                  placeholder="15A"
-                />
-              </div>
-            </div>
-
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">
-                Refrigerant Type
-                {isFieldPreFilled("refrigerantType") && (
-                  <span className="ml-2 text-xs text-green-600 font-normal bg-green-100 px-2 py-0.5 rounded-full">
-                    ✓ Scanned
-                  </span>
-                )}
-              </label>
-              <select
-                value={formData.refrigerantType || ""}
-                onChange={(e) =>
-                  handleChange("refrigerantType", e.target.value)
-                }
-                className={getInputClasses("refrigerantType")}
-              >
-                <option value="">Select...</option>
-                <option value="R-410A">R-410A</option>
-                <option value="R-22">R-22</option>
-                <option value="R-404A">R-404A</option>
-                <option value="R-134a">R-134a</option>
-                <option value="R-407C">R-407C</option>
-              </select>
+              {renderFieldError("btu")}
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -458,12 +591,13 @@ export default function EquipmentForm({
                   type="number"
                   value={formData.seerRating || ""}
                   onChange={(e) =>
-                    handleChange("seerRating", parseInt(e.target.value) || 0)
+                    handleChange("seerRating", parseFloat(e.target.value) || 0)
                   }
                   className={getInputClasses("seerRating")}
                   placeholder="16"
                   step="0.1"
                 />
+                {renderFieldError("seerRating")}
               </div>
 
               <div>
@@ -479,12 +613,13 @@ export default function EquipmentForm({
                   type="number"
                   value={formData.eerRating || ""}
                   onChange={(e) =>
-                    handleChange("eerRating", parseInt(e.target.value) || 0)
+                    handleChange("eerRating", parseFloat(e.target.value) || 0)
                   }
                   className={getInputClasses("eerRating")}
                   placeholder="12"
                   step="0.1"
                 />
+                {renderFieldError("eerRating")}
               </div>
             </div>
 
@@ -505,23 +640,25 @@ export default function EquipmentForm({
                   }
                   className={getInputClasses("equipmentType")}
                 >
-                  <option value="air_conditioner">Air Conditioner</option>
-                  <option value="heat_pump">Heat Pump</option>
-                  <option value="furnace">Furnace</option>
-                  <option value="package_unit">Package Unit</option>
-                  <option value="split_system">Split System</option>
-                  <option value="mini_split">Mini Split</option>
+                  {groupEquipmentTypes().map(([category, types]) => (
+                    <optgroup
+                      key={category}
+                      label={EQUIPMENT_CATEGORIES[category]}
+                    >
+                      {types.map((type) => (
+                        <option key={type.value} value={type.value}>
+                          {type.label}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
                 </select>
               </div>
 
               <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
                   Manufacturing Date
-                  {isFieldPreFilled("manufactureDate") && (
-                    <span className="ml-2 text-xs text-green-600 font-normal bg-green-100 px-2 py-0.5 rounded-full">
-                      ✓ Scanned
-                    </span>
-                  )}
+                  {getFieldSourceBadge("manufactureDate")}
                 </label>
                 <input
                   type="date"
@@ -531,8 +668,236 @@ export default function EquipmentForm({
                   }
                   className={getInputClasses("manufactureDate")}
                 />
+                {renderFieldError("manufactureDate")}
+                {getFieldSourceInfo("manufactureDate")?.inferenceBasis && (
+                  <p className="mt-1 text-xs text-gray-600">
+                    {getFieldSourceInfo("manufactureDate")?.inferenceBasis}
+                  </p>
+                )}
               </div>
             </div>
+
+            <div>
+              <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
+                AHRI Reference Number
+                {getFieldSourceBadge("ahriNumber")}
+              </label>
+              <input
+                type="text"
+                value={formData.ahriNumber || ""}
+                onChange={(e) => handleChange("ahriNumber", e.target.value)}
+                className={getInputClasses("ahriNumber")}
+                placeholder="e.g: 201234567"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+            <span className="w-8 h-8 bg-yellow-100 rounded-lg flex items-center justify-center mr-3">
+              ⚡
+            </span>
+            Electrical
+          </h2>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
+                  Voltage
+                  {getFieldSourceBadge("voltage")}
+                </label>
+                <input
+                  type="text"
+                  value={formData.voltage || ""}
+                  onChange={(e) => handleChange("voltage", e.target.value)}
+                  className={getInputClasses("voltage")}
+                  placeholder="220V"
+                />
+                {renderFieldError("voltage")}
+              </div>
+
+              <div>
+                <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
+                  Amperage
+                  {getFieldSourceBadge("amperage")}
+                </label>
+                <input
+                  type="text"
+                  value={formData.amperage || ""}
+                  onChange={(e) => handleChange("amperage", e.target.value)}
+                  className={getInputClasses("amperage")}
+                  placeholder="15A"
+                />
+                {renderFieldError("amperage")}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
+                  Phase
+                  {getFieldSourceBadge("phase")}
+                </label>
+                <select
+                  value={formData.phase || ""}
+                  onChange={(e) =>
+                    handleChange("phase", parseInt(e.target.value) || 0)
+                  }
+                  className={getInputClasses("phase")}
+                >
+                  <option value="">Select...</option>
+                  <option value="1">1-phase</option>
+                  <option value="3">3-phase</option>
+                </select>
+                {renderFieldError("phase")}
+              </div>
+
+              <div>
+                <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
+                  Frequency
+                  {getFieldSourceBadge("hertz")}
+                </label>
+                <select
+                  value={formData.hertz || ""}
+                  onChange={(e) =>
+                    handleChange("hertz", parseInt(e.target.value) || 0)
+                  }
+                  className={getInputClasses("hertz")}
+                >
+                  <option value="">Select...</option>
+                  <option value="60">60 Hz</option>
+                  <option value="50">50 Hz</option>
+                </select>
+                {renderFieldError("hertz")}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
+                  MCA (A)
+                  {getFieldSourceBadge("mca")}
+                </label>
+                <input
+                  type="number"
+                  value={formData.mca || ""}
+                  onChange={(e) =>
+                    handleChange("mca", parseFloat(e.target.value) || 0)
+                  }
+                  className={getInputClasses("mca")}
+                  placeholder="28.5"
+                  step="0.1"
+                />
+                {renderFieldError("mca")}
+              </div>
+
+              <div>
+                <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
+                  Max Fuse / MOCP (A)
+                  {getFieldSourceBadge("mocp")}
+                </label>
+                <input
+                  type="number"
+                  value={formData.mocp || ""}
+                  onChange={(e) =>
+                    handleChange("mocp", parseFloat(e.target.value) || 0)
+                  }
+                  className={getInputClasses("mocp")}
+                  placeholder="45"
+                />
+                {renderFieldError("mocp")}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
+                  Compressor RLA
+                  {getFieldSourceBadge("rla")}
+                </label>
+                <input
+                  type="number"
+                  value={formData.rla || ""}
+                  onChange={(e) =>
+                    handleChange("rla", parseFloat(e.target.value) || 0)
+                  }
+                  className={getInputClasses("rla")}
+                  placeholder="15.2"
+                  step="0.1"
+                />
+                {renderFieldError("rla")}
+              </div>
+
+              <div>
+                <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
+                  Compressor LRA
+                  {getFieldSourceBadge("lra")}
+                </label>
+                <input
+                  type="number"
+                  value={formData.lra || ""}
+                  onChange={(e) =>
+                    handleChange("lra", parseFloat(e.target.value) || 0)
+                  }
+                  className={getInputClasses("lra")}
+                  placeholder="82"
+                  step="0.1"
+                />
+                {renderFieldError("lra")}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+            <span className="w-8 h-8 bg-cyan-100 rounded-lg flex items-center justify-center mr-3">
+              ❄️
+            </span>
+            Refrigerant
+          </h2>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Refrigerant Type
+                {isFieldPreFilled("refrigerantType") && (
+                  <span className="ml-2 text-xs text-green-600 font-normal bg-green-100 px-2 py-0.5 rounded-full">
+                    ✓ Scanned
+                  </span>
+                )}
+              </label>
+              <select
+                value={formData.refrigerantType || ""}
+                onChange={(e) =>
+                  handleChange("refrigerantType", e.target.value)
+                }
+                className={getInputClasses("refrigerantType")}
+              >
+                <option value="">Select...</option>
+                <option value="R-410A">R-410A</option>
+                <option value="R-22">R-22</option>
+                <option value="R-404A">R-404A</option>
+                <option value="R-134a">R-134a</option>
+                <option value="R-407C">R-407C</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="flex text-sm font-semibold text-gray-700 mb-2 items-center">
+                Factory Charge
+                {getFieldSourceBadge("factoryCharge")}
+              </label>
+              <input
+                type="text"
+                value={formData.factoryCharge || ""}
+                onChange={(e) => handleChange("factoryCharge", e.target.value)}
+                className={getInputClasses("factoryCharge")}
+                placeholder="e.g: 5 lb 8 oz"
+              />
+            </div>
           </div>
         </div>
 
@@ -563,6 +928,10 @@ export default function EquipmentForm({
           </div>
         </div>
 
+        {initialData?.id && (
+          <EquipmentHistoryPanel equipmentId={initialData.id} />
+        )}
+
         <div className="flex flex-col sm:flex-row gap-3 pt-6 pb-8">
           <button
             type="button"
@@ -574,7 +943,13 @@ export default function EquipmentForm({
 
           <button
             type="submit"
-            className="w-full sm:flex-1 bg-gradient-to-r from-blue-600 to-blue-700 text-white py-4 px-6 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 flex items-center justify-center space-x-2 shadow-lg text-lg"
+            disabled={conflicts.length > 0}
+            title={
+              conflicts.length > 0
+                ? "Resolve the conflicting readings first"
+                : undefined
+            }
+            className="w-full sm:flex-1 disabled:opacity-50 disabled:cursor-not-allowed bg-gradient-to-r from-blue-600 to-blue-700 text-white py-4 px-6 rounded-xl font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 flex items-center justify-center space-x-2 shadow-lg text-lg"
           >
             <Save className="w-5 h-5" />
             <span>Save and Inspect</span>
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Bot,
+  ChevronDown,
+  ChevronUp,
+  Eye,
+  History,
+  Pencil,
+} from "lucide-react";
+import type { EquipmentChange, FieldSource } from "@/types";
+import {
+  EQUIPMENT_FIELD_LABELS,
+  groupChangesByField,
+} from "@/services/equipmentHistory";
+import { getEquipmentTypeLabel } from "@/services/equipmentTypes";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+
+interface EquipmentHistoryPanelProps {
+  equipmentId: string;
+}
+
+const SOURCE_BADGES: Record<
+  FieldSource,
+  { label: string; className: string; icon: typeof Bot }
+> = {
+  scanned: {
+    label: "Scanned",
+    className: "bg-blue-100 text-blue-800",
+    icon: Eye,
+  },
+  ai_inferred: {
+    label: "AI",
+    className: "bg-purple-100 text-purple-800",
+    icon: Bot,
+  },
+  manual: {
+    label: "Edited",
+    className: "bg-gray-100 text-gray-800",
+    icon: Pencil,
+  },
+};
+
+function formatValue(change: EquipmentChange, value?: string | number) {
+  if (value === undefined) return "(empty)";
+  if (change.field === "equipmentType") {
+    return getEquipmentTypeLabel(String(value)) ?? String(value);
+  }
+  return String(value);
+}
+
+// How each field of a stored unit evolved across scans and edits
+export default function EquipmentHistoryPanel({
+  equipmentId,
+}: EquipmentHistoryPanelProps) {
+  const [changes, setChanges] = useState<EquipmentChange[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const { getEquipmentHistory } = useLocalStorage();
+
+  useEffect(() => {
+    let cancelled = false;
+    getEquipmentHistory(equipmentId)
+      .then((history) => {
+        if (!cancelled) setChanges(history);
+      })
+      .catch((err) => console.error("Error loading field history:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [equipmentId, getEquipmentHistory]);
+
+  if (changes.length === 0) return null;
+
+  const fields = groupChangesByField(changes);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="w-full flex items-center justify-between p-4"
+      >
+        <span className="flex items-center gap-2 font-semibold text-gray-900">
+          <History className="w-5 h-5 text-gray-600" />
+          Field history
+          <span className="text-sm font-normal text-gray-500">
+            ({changes.length} changes)
+          </span>
+        </span>
+        {expanded ? (
+          <ChevronUp className="w-5 h-5 text-gray-500" />
+        ) : (
+          <ChevronDown className="w-5 h-5 text-gray-500" />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="border-t border-gray-200 p-4 space-y-4">
+          {fields.map(([field, fieldChanges]) => (
+            <div key={field}>
+              <p className="text-sm font-semibold text-gray-700 mb-1">
+                {EQUIPMENT_FIELD_LABELS[field] ?? field}
+              </p>
+              <ol className="space-y-1 border-l-2 border-gray-200 pl-3">
+                {fieldChanges.map((change) => {
+                  const badge = SOURCE_BADGES[change.source];
+                  const Icon = badge.icon;
+                  return (
+                    <li key={change.id} className="text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-gray-500 line-through">
+                          {change.oldValue !== undefined &&
+                            formatValue(change, change.oldValue)}
+                        </span>
+                        <span className="font-medium text-gray-900">
+                          {formatValue(change, change.newValue)}
+                        </span>
+                        <span
+                          className={`text-xs px-2 py-0.5 rounded-full flex items-center ${badge.className}`}
+                        >
+                          <Icon className="w-3 h-3 mr-1" />
+                          {badge.label}
+                          {change.confidence !== undefined &&
+                            ` ${Math.round(change.confidence * 100)}%`}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {change.changedAt.toLocaleString()}
+                        {change.technician && ` · ${change.technician}`}
+                      </p>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { GitMerge, Loader2 } from "lucide-react";
+import type { HVACEquipment } from "@/types";
+import { findDuplicateGroups } from "@/services/equipmentIdentity";
+import { getErrorMessage } from "@/services/errors";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+
+interface EquipmentMergeToolProps {
+  onMerged: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+function describeUnit(equipment: HVACEquipment): string {
+  return [
+    equipment.brand,
+    equipment.model,
+    equipment.serialNumber && `SN ${equipment.serialNumber}`,
+    equipment.location && `(${equipment.location})`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Combines two records of the same physical unit, e.g. created before
+// identity matching or when a serial was misread
+export default function EquipmentMergeTool({
+  onMerged,
+  onError,
+}: EquipmentMergeToolProps) {
+  const [equipment, setEquipment] = useState<HVACEquipment[]>([]);
+  const [sourceId, setSourceId] = useState("");
+  const [targetId, setTargetId] = useState("");
+  const [merging, setMerging] = useState(false);
+  const { getAllEquipment, mergeEquipment } = useLocalStorage();
+
+  const loadEquipment = useCallback(async () => {
+    try {
+      const all = await getAllEquipment();
+      setEquipment(
+        all.sort((a, b) => describeUnit(a).localeCompare(describeUnit(b)))
+      );
+    } catch (err) {
+      console.error("Error loading equipment:", err);
+    }
+  }, [getAllEquipment]);
+
+  useEffect(() => {
+    loadEquipment();
+  }, [loadEquipment]);
+
+  const duplicateGroups = useMemo(
+    () => findDuplicateGroups(equipment),
+    [equipment]
+  );
+
+  const handleMerge = async () => {
+    const source = equipment.find((unit) => unit.id === sourceId);
+    const target = equipment.find((unit) => unit.id === targetId);
+    if (!source || !target) return;
+    if (
+      !window.confirm(
+        `Merge "${describeUnit(source)}" into "${describeUnit(
+          target
+        )}"? Its inspections move to the kept unit and the duplicate is deleted.`
+      )
+    ) {
+      return;
+    }
+
+    setMerging(true);
+    try {
+      await mergeEquipment(source.id, target.id);
+      setSourceId("");
+      setTargetId("");
+      onMerged(`Merged into ${describeUnit(target)}`);
+      await loadEquipment();
+    } catch (err) {
+      console.error("Error merging equipment:", err);
+      onError(getErrorMessage(err));
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  if (equipment.length < 2) {
+    return (
+      <p className="text-sm text-gray-500">
+        Merging needs at least two saved units.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {duplicateGroups.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-gray-700">
+            Possible duplicates
+          </p>
+          {duplicateGroups.map(([target, ...duplicates]) =>
+            duplicates.map((source) => (
+              <button
+                key={`${target.id}-${source.id}`}
+                onClick={() => {
+                  setTargetId(target.id);
+                  setSourceId(source.id);
+                }}
+                className="w-full text-left text-sm border border-yellow-200 bg-yellow-50 rounded-lg p-3 hover:border-yellow-400"
+              >
+                <span className="block text-gray-900">
+                  {describeUnit(target)}
+                </span>
+                <span className="block text-gray-600">
+                  and {describeUnit(source)}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      <label className="block text-sm text-gray-700">
+        Duplicate to remove
+        <select
+          value={sourceId}
+          onChange={(e) => setSourceId(e.target.value)}
+          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+        >
+          <option value="">Choose a unit</option>
+          {equipment.map((unit) => (
+            <option
+              key={unit.id}
+              value={unit.id}
+              disabled={unit.id === targetId}
+            >
+              {describeUnit(unit)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block text-sm text-gray-700">
+        Unit to keep
+        <select
+          value={targetId}
+          onChange={(e) => setTargetId(e.target.value)}
+          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+        >
+          <option value="">Choose a unit</option>
+          {equipment.map((unit) => (
+            <option
+              key={unit.id}
+              value={unit.id}
+              disabled={unit.id === sourceId}
+            >
+              {describeUnit(unit)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <button
+        onClick={handleMerge}
+        disabled={merging || !sourceId || !targetId || sourceId === targetId}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-800 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+      >
+        {merging ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : (
+          <GitMerge className="w-5 h-5" />
+        )}
+        Merge equipment
+      </button>
+    </div>
+  );
+}
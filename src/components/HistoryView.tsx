@@ -1,6 +1,32 @@
-import { useState } from "react";
-import { ArrowLeft, Calendar, Search, Filter } from "lucide-react";
-import type { InspectionReport } from "@/types";
+import { useCallback, useEffect, useState } from "react";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Calendar,
+  Clock,
+  Filter,
+  Loader2,
+  RefreshCw,
+  Search,
+  WifiOff,
+  X,
+} from "lucide-react";
+import type { CaptureJob, EquipmentType, InspectionReport } from "@/types";
+import {
+  EQUIPMENT_CATEGORIES,
+  getEquipmentTypeLabel,
+  groupEquipmentTypes,
+  normalizeEquipmentType,
+} from "@/services/equipmentTypes";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useCaptureJobs } from "@/hooks/useCaptureQueue";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { getCaptureQueue } from "@/services/captureQueue";
+
+const JOB_LABELS: Record<CaptureJob["kind"], string> = {
+  scan_label: "Label reading",
+  analyze_equipment: "Equipment analysis",
+};
 
 interface HistoryViewProps {
   onBack: () => void;
@@ -15,77 +41,71 @@ export default function HistoryView({
   const [filterStatus, setFilterStatus] = useState<
     "all" | "completed" | "draft"
   >("all");
+  const [filterType, setFilterType] = useState<EquipmentType | "all">("all");
 
-  // Mock data for demonstration
-  const mockReports: InspectionReport[] = [
-    {
-      id: "1",
-      equipmentId: "1",
-      equipment: {
-        id: "1",
-        brand: "Carrier",
-        model: "24ACC636A003",
-        serialNumber: "1234567890",
-        createdAt: new Date("2024-01-15"),
-        updatedAt: new Date("2024-01-15"),
-      },
-      labelImages: [],
-      equipmentImages: [],
-      status: "completed",
-      createdAt: new Date("2024-01-15"),
-      completedAt: new Date("2024-01-15"),
-    },
-    {
-      id: "2",
-      equipmentId: "2",
-      equipment: {
-        id: "2",
-        brand: "Trane",
-        model: "XR14",
-        serialNumber: "0987654321",
-        createdAt: new Date("2024-01-10"),
-        updatedAt: new Date("2024-01-10"),
-      },
-      labelImages: [],
-      equipmentImages: [],
-      status: "completed",
-      createdAt: new Date("2024-01-10"),
-      completedAt: new Date("2024-01-10"),
-    },
-    {
-      id: "3",
-      equipmentId: "3",
-      equipment: {
-        id: "3",
-        brand: "Lennox",
-        model: "XC25",
-        serialNumber: "1122334455",
-        createdAt: new Date("2024-01-05"),
-        updatedAt: new Date("2024-01-05"),
-      },
-      labelImages: [],
-      equipmentImages: [],
-      status: "draft",
-      createdAt: new Date("2024-01-05"),
+  const [reports, setReports] = useState<InspectionReport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const { getAllReports } = useLocalStorage();
+  const jobs = useCaptureJobs();
+  const online = useOnlineStatus();
+
+  // Reloads triggered by the capture queue keep the list on screen
+  const loadReports = useCallback(
+    async (showSpinner = true) => {
+      if (showSpinner) setIsLoading(true);
+      setLoadError(null);
+      try {
+        const stored = await getAllReports();
+        setReports(
+          stored.sort(
+            (a, b) =>
+              new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+          )
+        );
+      } catch (err) {
+        console.error("Error loading reports:", err);
+        setLoadError("Could not load the inspections saved on this device");
+      } finally {
+        setIsLoading(false);
+      }
     },
-  ];
+    [getAllReports]
+  );
 
-  const filteredReports = mockReports.filter((report) => {
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  // Queued jobs move reports between draft, processing and completed
+  useEffect(() => {
+    if (jobs) loadReports(false);
+  }, [jobs, loadReports]);
+
+  // Reports saved before the taxonomy was unified may hold legacy values
+  const getReportType = (report: InspectionReport) =>
+    normalizeEquipmentType(
+      report.equipment?.equipmentType ?? report.inspectionResult?.equipmentType
+    );
+
+  const filteredReports = reports.filter((report) => {
+    const search = searchTerm.trim().toLowerCase();
     const matchesSearch =
-      report.equipment.brand
-        ?.toLowerCase()
-        .includes(searchTerm.toLowerCase()) ||
-      report.equipment.model
-        ?.toLowerCase()
-        .includes(searchTerm.toLowerCase()) ||
-      report.equipment.serialNumber
-        ?.toLowerCase()
-        .includes(searchTerm.toLowerCase());
+      !search ||
+      [
+        report.equipment?.brand,
+        report.equipment?.model,
+        report.equipment?.serialNumber,
+        report.equipment?.location,
+      ].some((value) => value?.toLowerCase().includes(search));
 
     const matchesStatus =
       filterStatus === "all" || report.status === filterStatus;
 
-    return matchesSearch && matchesStatus;
+    const matchesType =
+      filterType === "all" || getReportType(report) === filterType;
+
+    return matchesSearch && matchesStatus && matchesType;
   });
 
   const getStatusBadge = (status: string) => {
@@ -108,6 +128,12 @@ export default function HistoryView({
             Processing
           </span>
         );
+      case "error":
+        return (
+          <span className="px-2 py-1 bg-red-100 text-red-800 rounded-full text-xs font-medium">
+            Failed
+          </span>
+        );
       default:
         return (
           <span className="px-2 py-1 bg-gray-100 text-gray-800 rounded-full text-xs font-medium">
@@ -159,20 +185,57 @@ export default function HistoryView({
               <option value="completed">Completed</option>
               <option value="draft">Drafts</option>
             </select>
+            <select
+              value={filterType}
+              onChange={(e) =>
+                setFilterType(e.target.value as EquipmentType | "all")
+              }
+              className="border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="all">All equipment types</option>
+              {groupEquipmentTypes().map(([category, types]) => (
+                <optgroup key={category} label={EQUIPMENT_CATEGORIES[category]}>
+                  {types.map((type) => (
+                    <option key={type.value} value={type.value}>
+                      {type.label}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
           </div>
         </div>
       </div>
 
       {/* Reports List */}
-      <div className="p-4">
-        {filteredReports.length === 0 ? (
+      <div className="p-4 pb-20">
+        {isLoading ? (
+          <div className="text-center py-12 text-gray-500">
+            <Loader2 className="w-8 h-8 animate-spin mx-auto mb-3" />
+            Loading inspections...
+          </div>
+        ) : loadError ? (
+          <div className="text-center py-12">
+            <AlertTriangle className="w-12 h-12 text-red-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {loadError}
+            </h3>
+            <button
+              onClick={() => loadReports()}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Try again
+            </button>
+          </div>
+        ) : filteredReports.length === 0 ? (
           <div className="text-center py-12">
             <Calendar className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">
               No inspections found
             </h3>
             <p className="text-gray-500">
-              {searchTerm || filterStatus !== "all"
+              {searchTerm || filterStatus !== "all" || filterType !== "all"
                 ? "Try adjusting the search filters"
                 : "You haven't performed any inspections yet"}
             </p>
@@ -180,48 +243,126 @@ export default function HistoryView({
         ) : (
           <div className="space-y-3">
             {filteredReports.map((report) => (
-              <button
+              <div
                 key={report.id}
-                onClick={() => onSelectReport(report)}
-                className="w-full bg-white rounded-lg p-4 shadow-sm border border-gray-200 hover:border-gray-300 hover:shadow-md transition-all text-left"
+                className="bg-white rounded-lg shadow-sm border border-gray-200 hover:border-gray-300 hover:shadow-md transition-all"
               >
-                <div className="flex items-start justify-between mb-2">
-                  <div>
-                    <h3 className="font-medium text-gray-900">
-                      {report.equipment.brand} {report.equipment.model}
-                    </h3>
-                    <p className="text-sm text-gray-600">
-                      Serial: {report.equipment.serialNumber}
-                    </p>
+                <button
+                  onClick={() => onSelectReport(report)}
+                  className="w-full p-4 text-left"
+                >
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <h3 className="font-medium text-gray-900">
+                        {report.equipment?.brand} {report.equipment?.model}
+                      </h3>
+                      {report.equipment?.serialNumber && (
+                        <p className="text-sm text-gray-600">
+                          Serial: {report.equipment.serialNumber}
+                        </p>
+                      )}
+                      {getReportType(report) && (
+                        <p className="text-xs text-gray-500">
+                          {getEquipmentTypeLabel(getReportType(report))}
+                        </p>
+                      )}
+                    </div>
+                    {getStatusBadge(report.status)}
                   </div>
-                  {getStatusBadge(report.status)}
-                </div>
-
-                <div className="flex items-center justify-between text-sm text-gray-500">
-                  <span className="flex items-center">
-                    <Calendar className="w-4 h-4 mr-1" />
-                    {report.createdAt.toLocaleDateString()}
-                  </span>
-                  {report.completedAt && (
-                    <span>
-                      Completed: {report.completedAt.toLocaleDateString()}
+
+                  <div className="flex items-center justify-between text-sm text-gray-500">
+                    <span className="flex items-center">
+                      <Calendar className="w-4 h-4 mr-1" />
+                      {new Date(report.createdAt).toLocaleDateString()}
                     </span>
-                  )}
-                </div>
-              </button>
+                    {report.completedAt && (
+                      <span>
+                        Completed:{" "}
+                        {new Date(report.completedAt).toLocaleDateString()}
+                      </span>
+                    )}
+                  </div>
+                </button>
+                {jobs
+                  ?.filter((job) => job.reportId === report.id)
+                  .map((job) => (
+                    <CaptureJobStatus key={job.id} job={job} online={online} />
+                  ))}
+              </div>
             ))}
           </div>
         )}
       </div>
 
       {/* Summary Stats */}
-      {filteredReports.length > 0 && (
+      {!isLoading && !loadError && filteredReports.length > 0 && (
         <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 p-4">
           <div className="max-w-md mx-auto text-center text-sm text-gray-600">
-            {filteredReports.length} of {mockReports.length} inspections
+            {filteredReports.length} of {reports.length} inspections
           </div>
         </div>
       )}
     </div>
   );
 }
+
+interface CaptureJobStatusProps {
+  job: CaptureJob;
+  online: boolean;
+}
+
+// One queued AI job of a report, with retry and dismiss once it has failed
+function CaptureJobStatus({ job, online }: CaptureJobStatusProps) {
+  const label = JOB_LABELS[job.kind];
+
+  if (job.status === "failed") {
+    return (
+      <div className="border-t border-gray-100 px-4 py-2 bg-red-50 text-sm text-red-800 rounded-b-lg">
+        <p className="flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-600" />
+          <span className="flex-1">
+            {label} failed{job.lastError ? `: ${job.lastError}` : ""}
+          </span>
+        </p>
+        <div className="flex justify-end gap-2 mt-2">
+          <button
+            onClick={() => getCaptureQueue().dismiss(job.id)}
+            className="inline-flex items-center gap-1 px-3 py-1 text-red-700 hover:text-red-900"
+          >
+            <X className="w-4 h-4" />
+            Dismiss
+          </button>
+          <button
+            onClick={() => getCaptureQueue().retry(job.id)}
+            className="inline-flex items-center gap-1 px-3 py-1 bg-red-600 text-white rounded-md hover:bg-red-700"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  let icon = <Clock className="w-4 h-4 flex-shrink-0" />;
+  let text = `${label} queued`;
+  if (job.status === "running") {
+    icon = <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />;
+    text = `${label} in progress`;
+  } else if (!online) {
+    icon = <WifiOff className="w-4 h-4 flex-shrink-0" />;
+    text = `${label} waiting for a connection`;
+  } else if (job.attempts > 0) {
+    text = `${label} retrying at ${job.nextAttemptAt.toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    })} (attempt ${job.attempts + 1})`;
+  }
+
+  return (
+    <p className="border-t border-gray-100 px-4 py-2 flex items-center gap-2 text-sm text-blue-800 bg-blue-50 rounded-b-lg">
+      {icon}
+      <span>{text}</span>
+    </p>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { ImageOff, Loader2 } from "lucide-react";
+import type { CapturedImage } from "@/types";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+
+interface ImageThumbnailProps {
+  image: CapturedImage;
+  size?: number;
+}
+
+// Shows a captured photo. References restored from IndexedDB have no object
+// URL, so the thumbnail is read from the images store when first rendered.
+export default function ImageThumbnail({
+  image,
+  size = 96,
+}: ImageThumbnailProps) {
+  const { getImage } = useLocalStorage();
+  const [storedUrl, setStoredUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    if (image.url) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    getImage(image.id)
+      .then((stored) => {
+        if (cancelled) return;
+        if (!stored) {
+          setIsMissing(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(stored.thumbnail);
+        setStoredUrl(objectUrl);
+      })
+      .catch(() => {
+        if (!cancelled) setIsMissing(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [image.id, image.url, getImage]);
+
+  const src = image.url ?? storedUrl;
+  const placeholderClasses =
+    "flex items-center justify-center rounded-lg bg-gray-100 text-gray-400";
+
+  if (src) {
+    return (
+      <Image
+        src={src}
+        alt={image.type === "label" ? "Label photo" : "Equipment photo"}
+        width={size}
+        height={size}
+        className="object-cover rounded-lg border border-gray-200"
+        style={{ width: size, height: size }}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={placeholderClasses}
+      style={{ width: size, height: size }}
+      title={isMissing ? "Photo not available on this device" : undefined}
+    >
+      {isMissing ? (
+        <ImageOff className="w-6 h-6" />
+      ) : (
+        <Loader2 className="w-6 h-6 animate-spin" />
+      )}
+    </div>
+  );
+}
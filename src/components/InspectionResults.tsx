@@ -1,5 +1,19 @@
-import { AlertTriangle, CheckCircle, FileText, Home, Info } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle,
+  Download,
+  FileText,
+  Home,
+  Info,
+  Loader2,
+  Share2,
+} from "lucide-react";
 import type { InspectionReport } from "@/types";
+import { getEquipmentTypeLabel } from "@/services/equipmentTypes";
+import { getErrorMessage } from "@/services/errors";
+import { generateReportPdf, reportFileName } from "@/services/reportPdf";
+import ImageThumbnail from "@/components/ImageThumbnail";
 
 interface InspectionResultsProps {
   report: InspectionReport;
@@ -13,6 +27,65 @@ export default function InspectionResults({
   onNewInspection,
 }: InspectionResultsProps) {
   const inspectionResult = report.inspectionResult;
+  const photos = [...report.labelImages, ...report.equipmentImages];
+  const [pdf, setPdf] = useState<File | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [pdfError, setPdfError] = useState<string | null>(null);
+
+  // A PDF made for another report (or an older copy of this one) is stale
+  useEffect(() => {
+    setPdf(null);
+    setPdfError(null);
+  }, [report]);
+
+  const handleGenerateReport = async () => {
+    setGenerating(true);
+    setPdfError(null);
+    try {
+      const blob = await generateReportPdf(report);
+      setPdf(
+        new File([blob], reportFileName(report), { type: "application/pdf" })
+      );
+    } catch (err) {
+      console.error("Error generating report:", err);
+      setPdfError(getErrorMessage(err));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!pdf) return;
+    const url = URL.createObjectURL(pdf);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = pdf.name;
+    link.click();
+    // Some browsers start the download asynchronously
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // Mostly mobile browsers can hand a file to other apps (mail, messaging)
+  const canShare =
+    pdf !== null &&
+    typeof navigator !== "undefined" &&
+    typeof navigator.canShare === "function" &&
+    navigator.canShare({ files: [pdf] });
+
+  const handleShare = async () => {
+    if (!pdf) return;
+    try {
+      await navigator.share({
+        files: [pdf],
+        title: "HVAC inspection report",
+      });
+    } catch (err) {
+      // Closing the share sheet rejects with AbortError
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      console.error("Error sharing report:", err);
+      setPdfError("The report could not be shared. Download it instead.");
+    }
+  };
 
   const getConditionColor = (condition: string) => {
     switch (condition) {
@@ -84,7 +157,11 @@ export default function InspectionResults({
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
-          <p className="text-gray-600">No inspection results available</p>
+          <p className="text-gray-600">
+            {report.status === "draft" || report.status === "processing"
+              ? "This inspection is waiting for its queued analysis"
+              : "No inspection results available"}
+          </p>
           <button
             onClick={onBack}
             className="mt-4 bg-blue-600 text-white px-4 py-2 rounded"
@@ -149,7 +226,10 @@ export default function InspectionResults({
             <div>
               <span className="text-gray-700 font-medium">Type:</span>
               <p className="font-semibold text-gray-900">
-                {inspectionResult.equipmentType || "N/A"}
+                {getEquipmentTypeLabel(
+                  inspectionResult.equipmentType ??
+                    report.equipment?.equipmentType
+                ) || "N/A"}
               </p>
             </div>
             <div>
@@ -183,6 +263,19 @@ export default function InspectionResults({
           )}
         </div>
 
+        {photos.length > 0 && (
+          <div className="bg-white rounded-lg p-6 shadow-sm">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">
+              Photos ({photos.length})
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {photos.map((image) => (
+                <ImageThumbnail key={image.id} image={image} />
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="bg-white rounded-lg p-6 shadow-sm">
           <div className="flex items-center space-x-3 mb-4">
             {getConditionIcon(inspectionResult.overallCondition)}
@@ -310,11 +403,56 @@ export default function InspectionResults({
             New Inspection
           </button>
 
-          <button className="flex-1 bg-gray-200 text-gray-800 py-3 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors flex items-center justify-center space-x-2">
-            <FileText className="w-5 h-5" />
-            <span>Generate Report</span>
+          <button
+            onClick={handleGenerateReport}
+            disabled={generating}
+            className="flex-1 bg-gray-200 text-gray-800 py-3 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+          >
+            {generating ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              <FileText className="w-5 h-5" />
+            )}
+            <span>{generating ? "Generating..." : "Generate Report"}</span>
           </button>
         </div>
+
+        {pdfError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-sm text-red-800">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 text-red-600" />
+            <span>{pdfError}</span>
+          </div>
+        )}
+
+        {pdf && (
+          <div className="bg-white rounded-lg p-4 shadow-sm">
+            <div className="flex items-center gap-2 mb-3 text-sm text-gray-800">
+              <FileText className="w-5 h-5 flex-shrink-0 text-blue-600" />
+              <span className="flex-1 truncate">{pdf.name}</span>
+              <span className="text-gray-500">
+                {Math.max(1, Math.round(pdf.size / 1024))} KB
+              </span>
+            </div>
+            <div className="flex space-x-4">
+              <button
+                onClick={handleDownload}
+                className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
+              >
+                <Download className="w-5 h-5" />
+                <span>Download</span>
+              </button>
+              {canShare && (
+                <button
+                  onClick={handleShare}
+                  className="flex-1 bg-gray-200 text-gray-800 py-2 px-4 rounded-lg font-medium hover:bg-gray-300 transition-colors flex items-center justify-center space-x-2"
+                >
+                  <Share2 className="w-5 h-5" />
+                  <span>Share</span>
+                </button>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
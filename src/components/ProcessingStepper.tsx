@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { CheckCircle, Circle, Loader2 } from "lucide-react";
+import type { ProcessingStage, ProcessingStatus } from "@/types";
+import type { StageTimings } from "@/hooks/useProcessingStages";
+
+interface ProcessingStepperProps {
+  status: ProcessingStatus;
+  timings: StageTimings;
+  stages?: ProcessingStage[];
+  labels?: Partial<Record<ProcessingStage, string>>;
+}
+
+const DEFAULT_STAGES: ProcessingStage[] = [
+  "preprocessing",
+  "uploading",
+  "analyzing",
+  "extracting",
+  "generating_report",
+];
+
+const DEFAULT_LABELS: Record<ProcessingStage, string> = {
+  preprocessing: "Preparing images",
+  uploading: "Uploading",
+  analyzing: "AI analysis",
+  extracting: "Parsing results",
+  generating_report: "Assembling report",
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export default function ProcessingStepper({
+  status,
+  timings,
+  stages = DEFAULT_STAGES,
+  labels,
+}: ProcessingStepperProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick while a stage is running so its elapsed time updates live
+  useEffect(() => {
+    if (!status.isProcessing) return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [status.isProcessing]);
+
+  const currentIndex = status.stage ? stages.indexOf(status.stage) : -1;
+
+  return (
+    <ol className="space-y-2 text-left">
+      {stages.map((stage, index) => {
+        const timing = timings[stage];
+        const isActive = index === currentIndex && status.isProcessing;
+        const isDone =
+          index < currentIndex ||
+          (index === currentIndex && !status.isProcessing);
+        const elapsed = timing
+          ? (timing.endedAt ?? (isActive ? now : timing.startedAt)) -
+            timing.startedAt
+          : undefined;
+
+        return (
+          <li key={stage} className="flex items-center gap-3 text-sm">
+            {isDone ? (
+              <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+            ) : isActive ? (
+              <Loader2 className="w-5 h-5 text-blue-600 animate-spin flex-shrink-0" />
+            ) : (
+              <Circle className="w-5 h-5 text-gray-300 flex-shrink-0" />
+            )}
+            <div className="flex-1">
+              <p
+                className={
+                  isActive
+                    ? "font-semibold text-gray-900"
+                    : isDone
+                    ? "text-gray-700"
+                    : "text-gray-400"
+                }
+              >
+                {labels?.[stage] ?? DEFAULT_LABELS[stage]}
+                {isActive &&
+                  stage === "uploading" &&
+                  status.progress !== undefined && (
+                    <span className="ml-1 text-blue-600">
+                      {Math.round(status.progress * 100)}%
+                    </span>
+                  )}
+              </p>
+              {isActive && status.message && (
+                <p className="text-xs text-gray-500">{status.message}</p>
+              )}
+            </div>
+            {elapsed !== undefined && (isActive || isDone) && (
+              <span className="text-xs tabular-nums text-gray-500">
+                {formatSeconds(elapsed)}
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { KeyRound, Loader2, Lock, LockOpen, ShieldCheck } from "lucide-react";
+import {
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  lock,
+} from "@/services/db";
+import { getErrorMessage, isAppError } from "@/services/errors";
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  getAutoLockMinutes,
+  setAutoLockMinutes,
+} from "@/services/preferences";
+import { useLockState } from "@/hooks/useLockState";
+
+interface SecuritySettingsProps {
+  onChanged: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60, 0];
+
+type Action = "enable" | "change" | "disable";
+
+function describeFailure(err: unknown): string {
+  if (isAppError(err) && err.details?.reason === "wrong_passphrase") {
+    return "The current passphrase is incorrect.";
+  }
+  return getErrorMessage(err);
+}
+
+// Turns encryption of the local database on and off, changes the passphrase
+// and sets how soon the app locks itself
+export default function SecuritySettings({
+  onChanged,
+  onError,
+}: SecuritySettingsProps) {
+  const lockState = useLockState();
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [busy, setBusy] = useState<Action | null>(null);
+  const [autoLock, setAutoLock] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+
+  useEffect(() => {
+    setAutoLock(getAutoLockMinutes());
+  }, []);
+
+  const resetFields = () => {
+    setCurrent("");
+    setNext("");
+    setConfirm("");
+  };
+
+  const validateNext = (): boolean => {
+    if (next.length < MIN_PASSPHRASE_LENGTH) {
+      onError(
+        `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`
+      );
+      return false;
+    }
+    if (next !== confirm) {
+      onError("The passphrases do not match.");
+      return false;
+    }
+    return true;
+  };
+
+  const run = async (
+    action: Action,
+    work: () => Promise<void>,
+    done: string
+  ) => {
+    setBusy(action);
+    try {
+      await work();
+      resetFields();
+      onChanged(done);
+    } catch (err) {
+      onError(describeFailure(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEnable = () => {
+    if (!validateNext()) return;
+    run("enable", () => enableEncryption(next), "Local data is now encrypted.");
+  };
+
+  const handleChange = () => {
+    if (!current || !validateNext()) return;
+    run(
+      "change",
+      () => changePassphrase(current, next),
+      "Passphrase changed and data re-encrypted."
+    );
+  };
+
+  const handleDisable = () => {
+    if (!current) {
+      onError("Enter the current passphrase to turn encryption off.");
+      return;
+    }
+    if (
+      !window.confirm(
+        "Turn off encryption? Data on this device will be readable without a passphrase."
+      )
+    ) {
+      return;
+    }
+    run(
+      "disable",
+      () => disableEncryption(current),
+      "Encryption turned off. Local data is stored unencrypted."
+    );
+  };
+
+  const handleAutoLock = (minutes: number) => {
+    setAutoLock(minutes);
+    setAutoLockMinutes(minutes);
+  };
+
+  const inputClass =
+    "w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  if (lockState === null) {
+    return <Loader2 className="w-5 h-5 animate-spin text-gray-500" />;
+  }
+
+  if (lockState === "disabled") {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Encrypt equipment, inspections and photos with a passphrase. The app
+          asks for it on start and after a period of inactivity. There is no way
+          to recover the data if the passphrase is lost.
+        </p>
+        <input
+          type="password"
+          value={next}
+          onChange={(e) => setNext(e.target.value)}
+          autoComplete="new-password"
+          placeholder="New passphrase"
+          className={inputClass}
+        />
+        <input
+          type="password"
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+          autoComplete="new-password"
+          placeholder="Repeat passphrase"
+          className={inputClass}
+        />
+        <button
+          onClick={handleEnable}
+          disabled={busy !== null || !next}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {busy === "enable" ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <ShieldCheck className="w-5 h-5" />
+          )}
+          Encrypt local data
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm text-green-800">
+        <ShieldCheck className="w-5 h-5 text-green-600" />
+        Local data is encrypted.
+      </div>
+
+      <div className="flex items-center gap-3">
+        <label htmlFor="auto-lock" className="text-sm text-gray-700 flex-1">
+          Lock after inactivity
+        </label>
+        <select
+          id="auto-lock"
+          value={autoLock}
+          onChange={(e) => handleAutoLock(Number(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-lg"
+        >
+          {AUTO_LOCK_OPTIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes === 0 ? "Never" : `${minutes} min`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        onClick={lock}
+        disabled={busy !== null}
+        className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-800 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+      >
+        <Lock className="w-5 h-5" />
+        Lock now
+      </button>
+
+      <div className="space-y-3 border-t border-gray-200 pt-4">
+        <input
+          type="password"
+          value={current}
+          onChange={(e) => setCurrent(e.target.value)}
+          autoComplete="current-password"
+          placeholder="Current passphrase"
+          className={inputClass}
+        />
+        <input
+          type="password"
+          value={next}
+          onChange={(e) => setNext(e.target.value)}
+          autoComplete="new-password"
+          placeholder="New passphrase"
+          className={inputClass}
+        />
+        <input
+          type="password"
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+          autoComplete="new-password"
+          placeholder="Repeat new passphrase"
+          className={inputClass}
+        />
+        <button
+          onClick={handleChange}
+          disabled={busy !== null || !current || !next}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {busy === "change" ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <KeyRound className="w-5 h-5" />
+          )}
+          Change passphrase
+        </button>
+        <button
+          onClick={handleDisable}
+          disabled={busy !== null || !current}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-red-300 text-red-700 rounded-lg font-medium hover:bg-red-50 disabled:opacity-50"
+        >
+          {busy === "disable" ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <LockOpen className="w-5 h-5" />
+          )}
+          Turn off encryption
+        </button>
+      </div>
+    </div>
+  );
+}
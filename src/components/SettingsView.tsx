@@ -0,0 +1,523 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle,
+  Download,
+  HardDrive,
+  ImageDown,
+  Loader2,
+  Lock,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import {
+  backupFileName,
+  exportBackup,
+  importBackup,
+  type ImportCounts,
+  type ImportStrategy,
+  type ImportSummary,
+} from "@/services/backup";
+import { getErrorMessage } from "@/services/errors";
+import {
+  getStorageManager,
+  type PolicyResult,
+  type StorageUsage,
+} from "@/services/storageManager";
+import { getTechnicianName, setTechnicianName } from "@/services/preferences";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import EquipmentMergeTool from "@/components/EquipmentMergeTool";
+import SecuritySettings from "@/components/SecuritySettings";
+import SyncSettings from "@/components/SyncSettings";
+
+interface SettingsViewProps {
+  onBack: () => void;
+}
+
+const STRATEGY_OPTIONS: {
+  value: ImportStrategy;
+  label: string;
+  hint: string;
+}[] = [
+  {
+    value: "skip",
+    label: "Keep local copy",
+    hint: "Records already on this device are left as they are",
+  },
+  {
+    value: "overwrite",
+    label: "Use backup copy",
+    hint: "Records already on this device are replaced",
+  },
+  {
+    value: "keep_both",
+    label: "Keep both",
+    hint: "Backup records are added next to the local ones",
+  },
+];
+
+function describeCounts(label: string, counts: ImportCounts): string {
+  const parts = [
+    counts.added && `${counts.added} added`,
+    counts.overwritten && `${counts.overwritten} replaced`,
+    counts.duplicated && `${counts.duplicated} kept as copies`,
+    counts.skipped && `${counts.skipped} skipped`,
+  ].filter(Boolean);
+  return `${label}: ${parts.length > 0 ? parts.join(", ") : "none"}`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024)
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+function describePolicy(result: PolicyResult): string {
+  return result.images > 0
+    ? `${result.images} photos shrunk, ${formatBytes(result.bytesFreed)} freed`
+    : "No photos needed shrinking";
+}
+
+export default function SettingsView({ onBack }: SettingsViewProps) {
+  const [busy, setBusy] = useState<
+    | "export"
+    | "import"
+    | "clear"
+    | "persist"
+    | "downsample"
+    | "thumbnails"
+    | null
+  >(null);
+  const [strategy, setStrategy] = useState<ImportStrategy>("skip");
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [olderThanDays, setOlderThanDays] = useState(30);
+  const [technician, setTechnician] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { clearAllData } = useLocalStorage();
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setUsage(await getStorageManager().getUsage());
+    } catch (err) {
+      console.error("Error reading storage usage:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+    setTechnician(getTechnicianName());
+  }, [loadUsage]);
+
+  const run = async (
+    action: NonNullable<typeof busy>,
+    work: () => Promise<void>
+  ) => {
+    setBusy(action);
+    setError(null);
+    setMessage(null);
+    setSummary(null);
+    try {
+      await work();
+    } catch (err) {
+      console.error(`Error during ${action}:`, err);
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+      loadUsage();
+    }
+  };
+
+  const handleExport = () =>
+    run("export", async () => {
+      const archive = await exportBackup();
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = backupFileName();
+      link.click();
+      // Some browsers start the download asynchronously
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      setMessage("Backup downloaded");
+    });
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow choosing the same file again
+    event.target.value = "";
+    if (!file) return;
+
+    run("import", async () => {
+      setSummary(await importBackup(file, strategy));
+    });
+  };
+
+  const handleClear = () => {
+    if (
+      !window.confirm(
+        "Delete all equipment, inspections and photos stored on this device? Export a backup first if you may need them."
+      )
+    ) {
+      return;
+    }
+    run("clear", async () => {
+      await clearAllData();
+      setMessage("All local data was deleted");
+    });
+  };
+
+  const handlePersist = () =>
+    run("persist", async () => {
+      const persisted = await getStorageManager().requestPersistence();
+      if (!persisted) {
+        throw new Error(
+          "The browser declined to protect storage. Installing the app or bookmarking it can help."
+        );
+      }
+      setMessage("Storage is protected from automatic cleanup");
+    });
+
+  const handleDownsample = () =>
+    run("downsample", async () => {
+      const result = await getStorageManager().downsampleOriginals(
+        olderThanDays
+      );
+      setMessage(describePolicy(result));
+    });
+
+  const handleKeepThumbnails = () => {
+    if (
+      !window.confirm(
+        "Replace the photos of completed inspections with small previews? The full-size photos cannot be recovered."
+      )
+    ) {
+      return;
+    }
+    run("thumbnails", async () => {
+      const result = await getStorageManager().keepThumbnailsOnly();
+      setMessage(describePolicy(result));
+    });
+  };
+
+  const nearQuota = usage !== null && getStorageManager().isNearQuota(usage);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200 p-4 flex items-center">
+        <button
+          onClick={onBack}
+          className="p-2 text-gray-600 hover:text-gray-800"
+        >
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h1 className="ml-4 text-xl font-semibold text-gray-900">Settings</h1>
+      </div>
+
+      <div className="p-4 space-y-6 max-w-md mx-auto">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start gap-2 text-sm text-red-800">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 text-red-600" />
+            {error}
+          </div>
+        )}
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex items-start gap-2 text-sm text-green-800">
+            <CheckCircle className="w-5 h-5 flex-shrink-0 text-green-600" />
+            {message}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg p-6 shadow-sm space-y-3">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Technician</h2>
+            <p className="text-sm text-gray-600">
+              Recorded in the field history of equipment you scan or edit on
+              this device.
+            </p>
+          </div>
+          <input
+            type="text"
+            value={technician}
+            onChange={(e) => setTechnician(e.target.value)}
+            onBlur={() => setTechnicianName(technician)}
+            placeholder="Your name"
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="bg-white rounded-lg p-6 shadow-sm space-y-3">
+          <h2 className="text-lg font-medium text-gray-900">Security</h2>
+          <SecuritySettings
+            onChanged={(text) => {
+              setError(null);
+              setMessage(text);
+            }}
+            onError={(text) => {
+              setMessage(null);
+              setError(text);
+            }}
+          />
+        </div>
+
+        <div className="bg-white rounded-lg p-6 shadow-sm space-y-3">
+          <h2 className="text-lg font-medium text-gray-900">Sync</h2>
+          <SyncSettings
+            onError={(text) => {
+              setMessage(null);
+              setError(text);
+            }}
+          />
+        </div>
+
+        <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Backup</h2>
+            <p className="text-sm text-gray-600">
+              Inspections and photos are only stored on this device. Export a
+              backup to move them to another phone or keep a copy.
+            </p>
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={busy !== null}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy === "export" ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              <Download className="w-5 h-5" />
+            )}
+            Export backup
+          </button>
+
+          <div className="border-t border-gray-200 pt-4 space-y-3">
+            <p className="text-sm font-semibold text-gray-700">
+              When a record already exists
+            </p>
+            {STRATEGY_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-start gap-3 text-sm cursor-pointer"
+              >
+                <input
+                  type="radio"
+                  name="import-strategy"
+                  value={option.value}
+                  checked={strategy === option.value}
+                  onChange={() => setStrategy(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium text-gray-900">
+                    {option.label}
+                  </span>
+                  <span className="block text-gray-500">{option.hint}</span>
+                </span>
+              </label>
+            ))}
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy !== null}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-800 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              {busy === "import" ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Upload className="w-5 h-5" />
+              )}
+              Import backup
+            </button>
+          </div>
+
+          {summary && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800 space-y-1">
+              <p className="font-medium">Backup imported</p>
+              <p>{describeCounts("Equipment", summary.equipment)}</p>
+              <p>{describeCounts("Inspections", summary.reports)}</p>
+              <p>{describeCounts("Photos", summary.images)}</p>
+              <p>{describeCounts("Field history", summary.history)}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">Storage</h2>
+
+          {usage ? (
+            <div className="space-y-3 text-sm">
+              {usage.quota > 0 && (
+                <div>
+                  <div className="flex justify-between text-gray-700">
+                    <span>
+                      {formatBytes(usage.usage)} of {formatBytes(usage.quota)}{" "}
+                      used
+                    </span>
+                    <span>
+                      {Math.round((usage.usage / usage.quota) * 100)}%
+                    </span>
+                  </div>
+                  <div className="mt-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full ${
+                        nearQuota ? "bg-red-500" : "bg-blue-600"
+                      }`}
+                      style={{
+                        width: `${Math.min(
+                          100,
+                          (usage.usage / usage.quota) * 100
+                        )}%`,
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {nearQuota && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 flex items-start gap-2 text-yellow-800">
+                  <AlertTriangle className="w-5 h-5 flex-shrink-0 text-yellow-600" />
+                  Storage is almost full. New inspections may fail to save until
+                  photos are shrunk or removed.
+                </div>
+              )}
+
+              <dl className="grid grid-cols-3 gap-2 text-gray-600">
+                <dt>Equipment</dt>
+                <dd>{usage.equipment.records} records</dd>
+                <dd className="text-right">
+                  {formatBytes(usage.equipment.bytes)}
+                </dd>
+                <dt>Inspections</dt>
+                <dd>{usage.reports.records} records</dd>
+                <dd className="text-right">
+                  {formatBytes(usage.reports.bytes)}
+                </dd>
+                <dt>Photos</dt>
+                <dd>
+                  {usage.images.records} ({usage.images.originals} full size)
+                </dd>
+                <dd className="text-right">
+                  {formatBytes(usage.images.bytes)}
+                </dd>
+              </dl>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Reading storage usage...
+            </div>
+          )}
+
+          {usage && !usage.persisted && (
+            <button
+              onClick={handlePersist}
+              disabled={busy !== null}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-800 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              {busy === "persist" ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Lock className="w-5 h-5" />
+              )}
+              Protect storage from cleanup
+            </button>
+          )}
+
+          <div className="border-t border-gray-200 pt-4 space-y-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Shrink photos older than
+              <input
+                type="number"
+                min={0}
+                value={olderThanDays}
+                onChange={(e) =>
+                  setOlderThanDays(Math.max(0, Number(e.target.value) || 0))
+                }
+                className="w-20 px-2 py-1 border border-gray-300 rounded-lg"
+              />
+              days
+            </label>
+            <button
+              onClick={handleDownsample}
+              disabled={busy !== null}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-800 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              {busy === "downsample" ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <ImageDown className="w-5 h-5" />
+              )}
+              Shrink old photos
+            </button>
+            <button
+              onClick={handleKeepThumbnails}
+              disabled={busy !== null}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-800 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              {busy === "thumbnails" ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <HardDrive className="w-5 h-5" />
+              )}
+              Keep only previews for completed inspections
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">
+              Duplicate equipment
+            </h2>
+            <p className="text-sm text-gray-600">
+              Combine two records of the same unit so its inspections share one
+              history.
+            </p>
+          </div>
+          <EquipmentMergeTool
+            onMerged={(text) => {
+              setError(null);
+              setMessage(text);
+            }}
+            onError={(text) => {
+              setMessage(null);
+              setError(text);
+            }}
+          />
+        </div>
+
+        <div className="bg-white rounded-lg p-6 shadow-sm space-y-3">
+          <h2 className="text-lg font-medium text-gray-900">Local data</h2>
+          <button
+            onClick={handleClear}
+            disabled={busy !== null}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-red-300 text-red-700 rounded-lg font-medium hover:bg-red-50 disabled:opacity-50"
+          >
+            {busy === "clear" ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              <Trash2 className="w-5 h-5" />
+            )}
+            Delete all local data
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
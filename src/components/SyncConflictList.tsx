@@ -0,0 +1,166 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Cloud, Loader2, Smartphone } from "lucide-react";
+import type { HVACEquipment, SyncConflict } from "@/types";
+import { EQUIPMENT_FIELD_LABELS } from "@/services/equipmentHistory";
+import { getErrorMessage } from "@/services/errors";
+import { getSyncEngine } from "@/services/sync/engine";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+
+interface SyncConflictListProps {
+  // Bumped by the parent whenever the conflict count changes
+  version: number;
+  onError: (message: string) => void;
+}
+
+const STORE_LABELS: Record<SyncConflict["store"], string> = {
+  equipment: "Equipment",
+  reports: "Inspection",
+  images: "Photo",
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "(empty)";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function describeEquipment(equipment: HVACEquipment): string {
+  return (
+    [equipment.brand, equipment.model, equipment.serialNumber]
+      .filter(Boolean)
+      .join(" ") || "Unnamed unit"
+  );
+}
+
+// Fields this device and the sync server both changed, with both values so
+// the technician can confirm or replace the one kept automatically
+export default function SyncConflictList({
+  version,
+  onError,
+}: SyncConflictListProps) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [descriptions, setDescriptions] = useState<Record<string, string>>({});
+  const [resolving, setResolving] = useState<string | null>(null);
+  const { getEquipment, getReport } = useLocalStorage();
+
+  const load = useCallback(async () => {
+    try {
+      const next = await getSyncEngine().getConflicts();
+      setConflicts(next);
+
+      const entries = await Promise.all(
+        [...new Set(next.map((c) => `${c.store}:${c.recordId}`))].map(
+          async (key) => {
+            const [store, id] = key.split(/:(.*)/);
+            if (store === "equipment") {
+              const equipment = await getEquipment(id);
+              return [key, equipment && describeEquipment(equipment)];
+            }
+            if (store === "reports") {
+              const report = await getReport(id);
+              return [
+                key,
+                report &&
+                  `${describeEquipment(
+                    report.equipment
+                  )}, ${report.createdAt.toLocaleDateString()}`,
+              ];
+            }
+            return [key, null];
+          }
+        )
+      );
+      setDescriptions(
+        Object.fromEntries(entries.filter(([, text]) => Boolean(text)))
+      );
+    } catch (err) {
+      console.error("Error loading sync conflicts:", err);
+    }
+  }, [getEquipment, getReport]);
+
+  useEffect(() => {
+    load();
+  }, [load, version]);
+
+  const handleResolve = async (
+    conflict: SyncConflict,
+    choice: "local" | "remote"
+  ) => {
+    setResolving(conflict.id);
+    try {
+      await getSyncEngine().resolveConflict(conflict.id, choice);
+      await load();
+    } catch (err) {
+      onError(getErrorMessage(err));
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        These fields were changed on this device and on another one. One value
+        was kept automatically; choose which one is right.
+      </p>
+      {conflicts.map((conflict) => {
+        const key = `${conflict.store}:${conflict.recordId}`;
+        const label =
+          conflict.store === "equipment"
+            ? EQUIPMENT_FIELD_LABELS[
+                conflict.field as keyof typeof EQUIPMENT_FIELD_LABELS
+              ] ?? conflict.field
+            : conflict.field;
+        const busy = resolving === conflict.id;
+        return (
+          <div
+            key={conflict.id}
+            className="border border-yellow-200 bg-yellow-50 rounded-lg p-3 space-y-2"
+          >
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {STORE_LABELS[conflict.store]}: {label}
+              </p>
+              {descriptions[key] && (
+                <p className="text-xs text-gray-600">{descriptions[key]}</p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => handleResolve(conflict, "local")}
+                disabled={resolving !== null}
+                className="text-left border border-gray-300 bg-white rounded-lg p-2 hover:border-blue-400 disabled:opacity-50"
+              >
+                <span className="flex items-center gap-1 text-xs text-gray-500">
+                  <Smartphone className="w-3 h-3" />
+                  This device
+                </span>
+                <span className="text-sm text-gray-900 break-words">
+                  {formatValue(conflict.localValue)}
+                </span>
+              </button>
+              <button
+                onClick={() => handleResolve(conflict, "remote")}
+                disabled={resolving !== null}
+                className="text-left border border-gray-300 bg-white rounded-lg p-2 hover:border-blue-400 disabled:opacity-50"
+              >
+                <span className="flex items-center gap-1 text-xs text-gray-500">
+                  <Cloud className="w-3 h-3" />
+                  Server
+                </span>
+                <span className="text-sm text-gray-900 break-words">
+                  {formatValue(conflict.remoteValue)}
+                </span>
+              </button>
+            </div>
+            {busy && <Loader2 className="w-4 h-4 animate-spin text-gray-500" />}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
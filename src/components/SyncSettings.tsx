@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+import { getSyncEngine } from "@/services/sync/engine";
+import {
+  getSyncEnabled,
+  getSyncToken,
+  setSyncEnabled,
+  setSyncToken,
+} from "@/services/preferences";
+import { useSyncStatus } from "@/hooks/useSync";
+import SyncConflictList from "@/components/SyncConflictList";
+
+interface SyncSettingsProps {
+  onError: (message: string) => void;
+}
+
+// Turns sync on and off, shows what is waiting to upload and lists field
+// clashes to settle
+export default function SyncSettings({ onError }: SyncSettingsProps) {
+  const status = useSyncStatus();
+  const [enabled, setEnabled] = useState(false);
+  const [token, setToken] = useState("");
+
+  useEffect(() => {
+    setEnabled(getSyncEnabled());
+    setToken(getSyncToken());
+  }, []);
+
+  const handleToggle = (next: boolean) => {
+    setEnabled(next);
+    setSyncEnabled(next);
+    if (next) getSyncEngine().sync();
+  };
+
+  const syncing = status?.phase === "syncing";
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between gap-3">
+        <span className="text-sm text-gray-700">
+          Sync equipment, inspections and photos with the server
+        </span>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="w-5 h-5"
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-sm text-gray-700">Server access token</span>
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          onBlur={() => setSyncToken(token)}
+          autoComplete="off"
+          placeholder="API_TOKEN of the sync server"
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+
+      {status && (
+        <p className="text-sm text-gray-600">
+          {status.lastSyncedAt
+            ? `Last synced ${status.lastSyncedAt.toLocaleString()}`
+            : "Not synced yet"}
+          {status.pending > 0 && ` · ${status.pending} changes to upload`}
+        </p>
+      )}
+
+      {status?.error && (
+        <div className="flex items-start gap-2 text-sm text-red-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0 text-red-600 mt-0.5" />
+          {status.error}
+        </div>
+      )}
+
+      {enabled && (
+        <button
+          onClick={() => getSyncEngine().sync()}
+          disabled={syncing}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-800 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+        >
+          {syncing ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <RefreshCw className="w-5 h-5" />
+          )}
+          Sync now
+        </button>
+      )}
+
+      <SyncConflictList version={status?.conflicts ?? 0} onError={onError} />
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import { Lock, Loader2 } from "lucide-react";
+import { unlock } from "@/services/db";
+import { isAppError } from "@/services/errors";
+
+// Covers the app while the encrypted database is locked; rendered on top of
+// the current screen so unsaved work is still there after unlocking
+export default function UnlockScreen() {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlock(passphrase);
+      setPassphrase("");
+    } catch (err) {
+      setError(
+        isAppError(err) && err.details?.reason === "wrong_passphrase"
+          ? "Incorrect passphrase. Try again."
+          : "Could not unlock the app. Please try again."
+      );
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl shadow-lg w-full max-w-sm p-6 space-y-4"
+      >
+        <div className="text-center">
+          <div className="w-14 h-14 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-3">
+            <Lock className="w-7 h-7 text-blue-600" />
+          </div>
+          <h2 className="text-lg font-semibold text-gray-900">
+            HVAC Scanner is locked
+          </h2>
+          <p className="text-sm text-gray-600">
+            Enter your passphrase to open the data saved on this device.
+          </p>
+        </div>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          autoComplete="current-password"
+          placeholder="Passphrase"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isUnlocking && <Loader2 className="w-5 h-5 animate-spin" />}
+          Unlock
+        </button>
+      </form>
+    </div>
+  );
+}
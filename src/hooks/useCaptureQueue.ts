@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { CaptureJob } from "@/types";
+import { getCaptureQueue } from "@/services/captureQueue";
+
+// Due jobs are looked for this often; backoff delays start at 30 seconds
+const QUEUE_CHECK_INTERVAL_MS = 30 * 1000;
+
+// Queued jobs, oldest first; null until they have been read
+export function useCaptureJobs(): CaptureJob[] | null {
+  const [jobs, setJobs] = useState<CaptureJob[] | null>(null);
+
+  useEffect(() => {
+    const queue = getCaptureQueue();
+    let cancelled = false;
+    const unsubscribe = queue.subscribe(setJobs);
+    queue
+      .getJobs()
+      .then((current) => {
+        if (!cancelled) setJobs(current);
+      })
+      .catch((err) => console.error("Error reading capture jobs:", err));
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return jobs;
+}
+
+// Works through the queue while `active`: right away, when the connection
+// comes back, when the app returns to the foreground and on an interval
+export function useCaptureQueueProcessor(active: boolean) {
+  useEffect(() => {
+    if (!active) return;
+
+    const trigger = () => {
+      if (!navigator.onLine) return;
+      getCaptureQueue().process();
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") trigger();
+    };
+
+    trigger();
+    const timer = setInterval(trigger, QUEUE_CHECK_INTERVAL_MS);
+    window.addEventListener("online", trigger);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("online", trigger);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [active]);
+}
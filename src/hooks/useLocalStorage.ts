@@ -1,15 +1,25 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import {
+  EquipmentChange,
   HVACEquipment,
   InspectionReport,
-  CapturedImage,
+  StoredImage,
   AppError,
 } from "@/types";
-
-const DB_NAME = "hvac_scanner_db";
-const DB_VERSION = 1;
+import {
+  clearDatabase,
+  getEquipmentHistoryRepository,
+  getEquipmentRepository,
+  getImageRepository,
+  getReportRepository,
+  resetEncryptionState,
+  runWrite,
+} from "@/services/db";
+import { createAppError, isAppError } from "@/services/errors";
+import type { EquipmentMatch } from "@/services/equipmentIdentity";
+import { getStorageManager } from "@/services/storageManager";
 
 interface UseLocalStorageReturn {
   // Equipment operations
@@ -17,16 +27,29 @@ interface UseLocalStorageReturn {
   getEquipment: (id: string) => Promise<HVACEquipment | null>;
   getAllEquipment: () => Promise<HVACEquipment[]>;
   deleteEquipment: (id: string) => Promise<void>;
+  findEquipmentMatches: (
+    candidate: Pick<HVACEquipment, "id" | "brand" | "serialNumber">
+  ) => Promise<EquipmentMatch[]>;
+  mergeEquipment: (
+    sourceId: string,
+    targetId: string
+  ) => Promise<HVACEquipment>;
+  getEquipmentHistory: (equipmentId: string) => Promise<EquipmentChange[]>;
 
   // Report operations
-  saveReport: (report: InspectionReport) => Promise<void>;
+  saveReport: (
+    report: InspectionReport,
+    images?: StoredImage[],
+    changes?: EquipmentChange[]
+  ) => Promise<void>;
   getReport: (id: string) => Promise<InspectionReport | null>;
   getAllReports: () => Promise<InspectionReport[]>;
+  getReportsForEquipment: (equipmentId: string) => Promise<InspectionReport[]>;
   deleteReport: (id: string) => Promise<void>;
 
   // Image operations
-  saveImage: (image: CapturedImage) => Promise<void>;
-  getImage: (id: string) => Promise<CapturedImage | null>;
+  saveImage: (image: StoredImage) => Promise<void>;
+  getImage: (id: string) => Promise<StoredImage | null>;
   deleteImage: (id: string) => Promise<void>;
 
   // Utility
@@ -38,294 +61,86 @@ interface UseLocalStorageReturn {
   error: AppError | null;
 }
 
+// React state around the repositories in services/db, which hold the actual
+// persistence logic and can be used outside components.
 export function useLocalStorage(): UseLocalStorageReturn {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<AppError | null>(null);
 
-  const openDB = useCallback((): Promise<IDBDatabase> => {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-      request.onerror = () => {
-        reject(new Error("Error opening database"));
-      };
-
-      request.onsuccess = () => {
-        resolve(request.result);
-      };
-
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Equipment store
-        if (!db.objectStoreNames.contains("equipment")) {
-          const equipmentStore = db.createObjectStore("equipment", {
-            keyPath: "id",
-          });
-          equipmentStore.createIndex("createdAt", "createdAt");
-          equipmentStore.createIndex("brand", "brand");
-          equipmentStore.createIndex("equipmentType", "equipmentType");
-        }
-
-        // Reports store
-        if (!db.objectStoreNames.contains("reports")) {
-          const reportsStore = db.createObjectStore("reports", {
-            keyPath: "id",
-          });
-          reportsStore.createIndex("equipmentId", "equipmentId");
-          reportsStore.createIndex("createdAt", "createdAt");
-          reportsStore.createIndex("status", "status");
-        }
-
-        // Images store
-        if (!db.objectStoreNames.contains("images")) {
-          const imagesStore = db.createObjectStore("images", { keyPath: "id" });
-          imagesStore.createIndex("equipmentId", "equipmentId");
-          imagesStore.createIndex("type", "type");
-          imagesStore.createIndex("capturedAt", "capturedAt");
-        }
-      };
-    });
-  }, []);
-
   const performDBOperation = useCallback(
-    async <T>(operation: (db: IDBDatabase) => Promise<T>): Promise<T> => {
+    async <T>(operation: () => Promise<T>): Promise<T> => {
       try {
         setIsLoading(true);
         setError(null);
-        const db = await openDB();
-        const result = await operation(db);
-        db.close();
-        return result;
+        return await operation();
       } catch (err) {
-        const appError: AppError = {
-          code: "STORAGE_ERROR",
-          message: "Local storage error",
-          timestamp: new Date(),
-          details: { originalError: err },
-        };
+        const appError = isAppError(err)
+          ? err
+          : createAppError("STORAGE_ERROR", "Local storage error", err);
         setError(appError);
         throw appError;
       } finally {
         setIsLoading(false);
       }
     },
-    [openDB]
-  );
-
-  // Equipment operations
-  const saveEquipment = useCallback(
-    async (equipment: HVACEquipment) => {
-      return performDBOperation(async (db) => {
-        const transaction = db.transaction(["equipment"], "readwrite");
-        const store = transaction.objectStore("equipment");
-        await new Promise<void>((resolve, reject) => {
-          const request = store.put(equipment);
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
-        });
-      });
-    },
-    [performDBOperation]
-  );
-
-  const getEquipment = useCallback(
-    async (id: string): Promise<HVACEquipment | null> => {
-      return performDBOperation(async (db) => {
-        const transaction = db.transaction(["equipment"], "readonly");
-        const store = transaction.objectStore("equipment");
-        return new Promise<HVACEquipment | null>((resolve, reject) => {
-          const request = store.get(id);
-          request.onsuccess = () => resolve(request.result || null);
-          request.onerror = () => reject(request.error);
-        });
-      });
-    },
-    [performDBOperation]
-  );
-
-  const getAllEquipment = useCallback(async (): Promise<HVACEquipment[]> => {
-    return performDBOperation(async (db) => {
-      const transaction = db.transaction(["equipment"], "readonly");
-      const store = transaction.objectStore("equipment");
-      return new Promise<HVACEquipment[]>((resolve, reject) => {
-        const request = store.getAll();
-        request.onsuccess = () => resolve(request.result || []);
-        request.onerror = () => reject(request.error);
-      });
-    });
-  }, [performDBOperation]);
-
-  const deleteEquipment = useCallback(
-    async (id: string) => {
-      return performDBOperation(async (db) => {
-        const transaction = db.transaction(["equipment"], "readwrite");
-        const store = transaction.objectStore("equipment");
-        await new Promise<void>((resolve, reject) => {
-          const request = store.delete(id);
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
-        });
-      });
-    },
-    [performDBOperation]
-  );
-
-  // Report operations
-  const saveReport = useCallback(
-    async (report: InspectionReport) => {
-      return performDBOperation(async (db) => {
-        const transaction = db.transaction(["reports"], "readwrite");
-        const store = transaction.objectStore("reports");
-        await new Promise<void>((resolve, reject) => {
-          const request = store.put(report);
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
-        });
-      });
-    },
-    [performDBOperation]
-  );
-
-  const getReport = useCallback(
-    async (id: string): Promise<InspectionReport | null> => {
-      return performDBOperation(async (db) => {
-        const transaction = db.transaction(["reports"], "readonly");
-        const store = transaction.objectStore("reports");
-        return new Promise<InspectionReport | null>((resolve, reject) => {
-          const request = store.get(id);
-          request.onsuccess = () => resolve(request.result || null);
-          request.onerror = () => reject(request.error);
-        });
-      });
-    },
-    [performDBOperation]
+    []
   );
 
-  const getAllReports = useCallback(async (): Promise<InspectionReport[]> => {
-    return performDBOperation(async (db) => {
-      const transaction = db.transaction(["reports"], "readonly");
-      const store = transaction.objectStore("reports");
-      return new Promise<InspectionReport[]>((resolve, reject) => {
-        const request = store.getAll();
-        request.onsuccess = () => resolve(request.result || []);
-        request.onerror = () => reject(request.error);
-      });
-    });
-  }, [performDBOperation]);
-
-  const deleteReport = useCallback(
-    async (id: string) => {
-      return performDBOperation(async (db) => {
-        const transaction = db.transaction(["reports"], "readwrite");
-        const store = transaction.objectStore("reports");
-        await new Promise<void>((resolve, reject) => {
-          const request = store.delete(id);
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
-        });
-      });
-    },
-    [performDBOperation]
-  );
-
-  // Image operations
-  const saveImage = useCallback(
-    async (image: CapturedImage) => {
-      return performDBOperation(async (db) => {
-        const transaction = db.transaction(["images"], "readwrite");
-        const store = transaction.objectStore("images");
-        await new Promise<void>((resolve, reject) => {
-          const request = store.put(image);
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
-        });
-      });
-    },
-    [performDBOperation]
-  );
-
-  const getImage = useCallback(
-    async (id: string): Promise<CapturedImage | null> => {
-      return performDBOperation(async (db) => {
-        const transaction = db.transaction(["images"], "readonly");
-        const store = transaction.objectStore("images");
-        return new Promise<CapturedImage | null>((resolve, reject) => {
-          const request = store.get(id);
-          request.onsuccess = () => resolve(request.result || null);
-          request.onerror = () => reject(request.error);
-        });
-      });
-    },
-    [performDBOperation]
-  );
-
-  const deleteImage = useCallback(
-    async (id: string) => {
-      return performDBOperation(async (db) => {
-        const transaction = db.transaction(["images"], "readwrite");
-        const store = transaction.objectStore("images");
-        await new Promise<void>((resolve, reject) => {
-          const request = store.delete(id);
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
-        });
-      });
-    },
-    [performDBOperation]
-  );
-
-  // Utility operations
-  const clearAllData = useCallback(async () => {
-    return performDBOperation(async (db) => {
-      const transaction = db.transaction(
-        ["equipment", "reports", "images"],
-        "readwrite"
-      );
-      await Promise.all([
-        new Promise<void>((resolve, reject) => {
-          const request = transaction.objectStore("equipment").clear();
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
-        }),
-        new Promise<void>((resolve, reject) => {
-          const request = transaction.objectStore("reports").clear();
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
-        }),
-        new Promise<void>((resolve, reject) => {
-          const request = transaction.objectStore("images").clear();
-          request.onsuccess = () => resolve();
-          request.onerror = () => reject(request.error);
+  const operations = useMemo(() => {
+    const equipment = getEquipmentRepository();
+    const reports = getReportRepository();
+    const images = getImageRepository();
+    const history = getEquipmentHistoryRepository();
+
+    return {
+      saveEquipment: (item: HVACEquipment) =>
+        performDBOperation(() => equipment.save(item)),
+      getEquipment: (id: string) => performDBOperation(() => equipment.get(id)),
+      getAllEquipment: () => performDBOperation(() => equipment.getAll()),
+      deleteEquipment: (id: string) =>
+        performDBOperation(() => equipment.delete(id)),
+      findEquipmentMatches: (
+        candidate: Pick<HVACEquipment, "id" | "brand" | "serialNumber">
+      ) => performDBOperation(() => equipment.findMatches(candidate)),
+      mergeEquipment: (sourceId: string, targetId: string) =>
+        performDBOperation(() => equipment.merge(sourceId, targetId)),
+      getEquipmentHistory: (equipmentId: string) =>
+        performDBOperation(() => history.findByEquipmentId(equipmentId)),
+
+      saveReport: (
+        report: InspectionReport,
+        reportImages?: StoredImage[],
+        changes?: EquipmentChange[]
+      ) =>
+        performDBOperation(() => reports.save(report, reportImages, changes)),
+      getReport: (id: string) => performDBOperation(() => reports.get(id)),
+      getAllReports: () => performDBOperation(() => reports.getAll()),
+      getReportsForEquipment: (equipmentId: string) =>
+        performDBOperation(() => reports.findByEquipmentId(equipmentId)),
+      deleteReport: (id: string) =>
+        performDBOperation(() => reports.delete(id)),
+
+      saveImage: (image: StoredImage) =>
+        performDBOperation(() => images.save(image)),
+      getImage: (id: string) => performDBOperation(() => images.get(id)),
+      deleteImage: (id: string) => performDBOperation(() => images.delete(id)),
+
+      clearAllData: () =>
+        performDBOperation(async () => {
+          await runWrite(clearDatabase);
+          // The passphrase settings were in the cleared database too
+          resetEncryptionState();
         }),
-      ]);
-    });
+    };
   }, [performDBOperation]);
 
   const getStorageInfo = useCallback(async () => {
-    if ("storage" in navigator && "estimate" in navigator.storage) {
-      const estimate = await navigator.storage.estimate();
-      return {
-        used: estimate.usage || 0,
-        available: estimate.quota || 0,
-      };
-    }
-    return { used: 0, available: 0 };
+    const estimate = await getStorageManager().getEstimate();
+    return { used: estimate.usage, available: estimate.quota };
   }, []);
 
   return {
-    saveEquipment,
-    getEquipment,
-    getAllEquipment,
-    deleteEquipment,
-    saveReport,
-    getReport,
-    getAllReports,
-    deleteReport,
-    saveImage,
-    getImage,
-    deleteImage,
-    clearAllData,
+    ...operations,
     getStorageInfo,
     isLoading,
     error,
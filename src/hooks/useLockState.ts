@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  getLockState,
+  lock,
+  subscribeToLockState,
+  type LockState,
+} from "@/services/db";
+import { getAutoLockMinutes } from "@/services/preferences";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "scroll", "touchstart"];
+
+// Current encryption lock state; null until the settings have been read
+export function useLockState(): LockState | null {
+  const [state, setState] = useState<LockState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = subscribeToLockState(setState);
+    getLockState()
+      .then((current) => {
+        if (!cancelled) setState(current);
+      })
+      .catch((err) => console.error("Error reading lock state:", err));
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return state;
+}
+
+// Locks the database after the configured minutes without user input. The
+// preference is read on every reset so a change applies straight away.
+export function useAutoLock(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const reset = () => {
+      clearTimeout(timer);
+      const minutes = getAutoLockMinutes();
+      if (minutes > 0) timer = setTimeout(lock, minutes * 60 * 1000);
+    };
+
+    reset();
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, reset, { passive: true })
+    );
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, reset)
+      );
+    };
+  }, [enabled]);
+}
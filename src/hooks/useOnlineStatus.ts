@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Whether the browser thinks it has a connection. navigator.onLine can be
+// true on a network without internet access, so a false is the only
+// reliable answer.
+export function useOnlineStatus(): boolean {
+  const [online, setOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    update();
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return online;
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useState, useCallback, useRef } from "react";
+import { ProcessingStage, ProcessingStatus } from "@/types";
+
+export interface StageTiming {
+  startedAt: number;
+  endedAt?: number;
+}
+
+export type StageTimings = Partial<Record<ProcessingStage, StageTiming>>;
+
+interface UseProcessingStagesReturn {
+  status: ProcessingStatus;
+  timings: StageTimings;
+  // Stable callback to pass as `onProgress` to the service layer
+  reportStatus: (status: ProcessingStatus) => void;
+  finish: () => void;
+  reset: () => void;
+}
+
+function closeStage(
+  current: StageTimings,
+  stage: ProcessingStage | undefined,
+  now: number
+): StageTimings {
+  const timing = stage && current[stage];
+  if (!stage || !timing || timing.endedAt) return current;
+  return { ...current, [stage]: { ...timing, endedAt: now } };
+}
+
+export function useProcessingStages(): UseProcessingStagesReturn {
+  const [status, setStatus] = useState<ProcessingStatus>({
+    isProcessing: false,
+  });
+  const [timings, setTimings] = useState<StageTimings>({});
+  const currentStageRef = useRef<ProcessingStage | undefined>(undefined);
+
+  const reportStatus = useCallback((next: ProcessingStatus) => {
+    const previousStage = currentStageRef.current;
+    if (next.stage && next.stage !== previousStage) {
+      const now = Date.now();
+      currentStageRef.current = next.stage;
+      setTimings((current) => ({
+        ...closeStage(current, previousStage, now),
+        // A retry re-enters earlier stages: restart their clock
+        [next.stage!]: { startedAt: now },
+      }));
+    }
+    setStatus(next);
+  }, []);
+
+  const finish = useCallback(() => {
+    const stage = currentStageRef.current;
+    const now = Date.now();
+    currentStageRef.current = undefined;
+    setTimings((current) => closeStage(current, stage, now));
+    setStatus((prev) => ({ ...prev, isProcessing: false }));
+  }, []);
+
+  const reset = useCallback(() => {
+    currentStageRef.current = undefined;
+    setStatus({ isProcessing: false });
+    setTimings({});
+  }, []);
+
+  return { status, timings, reportStatus, finish, reset };
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  activateUpdate,
+  registerServiceWorker,
+} from "@/services/serviceWorker";
+
+// Registers the service worker and reports when a new version of the app is
+// ready. `applyUpdate` switches to it, which reloads the page.
+export function useServiceWorker(): {
+  updateReady: boolean;
+  applyUpdate: () => void;
+} {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    registerServiceWorker(setWaiting).catch((err) =>
+      console.error("Service worker registration failed:", err)
+    );
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (waiting) activateUpdate(waiting);
+  }, [waiting]);
+
+  return { updateReady: waiting !== null, applyUpdate };
+}
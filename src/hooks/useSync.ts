@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getSyncEngine, type SyncStatus } from "@/services/sync/engine";
+import { getSyncEnabled } from "@/services/preferences";
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+// Latest sync status; null until it has been read
+export function useSyncStatus(): SyncStatus | null {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => {
+    const engine = getSyncEngine();
+    let cancelled = false;
+    const unsubscribe = engine.subscribe(setStatus);
+    engine
+      .getStatus()
+      .then((current) => {
+        if (!cancelled) setStatus(current);
+      })
+      .catch((err) => console.error("Error reading sync status:", err));
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return status;
+}
+
+// Syncs in the background while `active`: right away, when the connection
+// comes back, when the app returns to the foreground and on an interval.
+// The preference is checked on every trigger so turning sync off in
+// Settings takes effect without a reload.
+export function useBackgroundSync(active: boolean) {
+  useEffect(() => {
+    if (!active) return;
+
+    const trigger = () => {
+      if (!getSyncEnabled() || !navigator.onLine) return;
+      getSyncEngine().sync();
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible") trigger();
+    };
+
+    trigger();
+    const timer = setInterval(trigger, SYNC_INTERVAL_MS);
+    window.addEventListener("online", trigger);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("online", trigger);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [active]);
+}
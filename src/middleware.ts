@@ -0,0 +1,44 @@
+import type { NextRequest } from "next/server";
+import { createAppError } from "@/services/errors";
+import { jsonError } from "@/app/api/_lib/http";
+
+// Shared-token check for the endpoints that read and write inspection data.
+// Devices send the token configured in Settings as "Authorization: Bearer
+// <token>". Without API_TOKEN the endpoints stay open in development only.
+
+export const config = {
+  matcher: [
+    "/api/equipment/:path*",
+    "/api/reports/:path*",
+    "/api/images/:path*",
+    "/api/sync/:path*",
+  ],
+};
+
+// Looks at every character, so the time taken does not reveal how much of a
+// guessed token was right
+function tokensMatch(expected: string, actual: string): boolean {
+  let difference = expected.length ^ actual.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ (actual.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+export function middleware(request: NextRequest) {
+  const expected = process.env.API_TOKEN;
+  if (!expected) {
+    if (process.env.NODE_ENV !== "production") return;
+    return jsonError(
+      createAppError("UNKNOWN_ERROR", "API_TOKEN is not configured")
+    );
+  }
+
+  const header = request.headers.get("authorization") ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+  if (!token || !tokensMatch(expected, token)) {
+    return jsonError(
+      createAppError("UNAUTHORIZED", "A valid API token is required")
+    );
+  }
+}
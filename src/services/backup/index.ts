@@ -0,0 +1,403 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  DatabaseCapturedImage,
+  DatabaseEquipment,
+  DatabaseEquipmentChange,
+  DatabaseInspectionReport,
+  DatabaseStoredImage,
+} from "@/types";
+import { createAppError } from "@/services/errors";
+import {
+  DB_VERSION,
+  fromDatabaseChange,
+  fromDatabaseEquipment,
+  fromDatabaseImage,
+  fromDatabaseReport,
+  openRecords,
+  requestToPromise,
+  runTransaction,
+  runWrite,
+  sealRecords,
+  SYNC_STATE_STORE,
+  toDatabaseChange,
+  toDatabaseEquipment,
+  toDatabaseImage,
+  toDatabaseReport,
+  trackChanges,
+} from "@/services/db";
+import { createZip, readZip, type ZipEntry } from "./zip";
+
+// Backups are a ZIP with a JSON manifest (equipment, reports and image
+// metadata, dates as ISO strings) and one file per photo and thumbnail.
+
+export const BACKUP_FORMAT = "hvac-scanner-backup";
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+const STORES = ["equipment", "reports", "images", "equipmentHistory"];
+
+interface BackupImage extends Omit<DatabaseStoredImage, "blob" | "thumbnail"> {
+  file: string;
+  thumbnailFile: string;
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number; // IndexedDB version the records were read from
+  exportedAt: string;
+  equipment: DatabaseEquipment[];
+  reports: DatabaseInspectionReport[];
+  images: BackupImage[];
+  // Absent from backups made before the change log existed
+  equipmentHistory?: DatabaseEquipmentChange[];
+}
+
+// What to do when a record in the backup has the same id as a local one
+export type ImportStrategy = "skip" | "overwrite" | "keep_both";
+
+export interface ImportCounts {
+  added: number;
+  overwritten: number;
+  skipped: number;
+  duplicated: number; // Imported under a new id (keep_both)
+}
+
+export interface ImportSummary {
+  equipment: ImportCounts;
+  reports: ImportCounts;
+  images: ImportCounts;
+  history: ImportCounts;
+}
+
+// Upgrades older manifests one version at a time; index 0 turns a version 1
+// manifest into version 2, and so on
+const MANIFEST_UPGRADES: ((manifest: BackupManifest) => BackupManifest)[] = [];
+
+function invalidBackup(message: string, details?: Record<string, unknown>) {
+  return createAppError("UNSUPPORTED_FORMAT", message, undefined, details);
+}
+
+function extension(mimeType?: string): string {
+  return mimeType === "image/png" ? "png" : "jpg";
+}
+
+export function backupFileName(date = new Date()): string {
+  return `hvac-scanner-backup-${date.toISOString().slice(0, 10)}.zip`;
+}
+
+export async function exportBackup(): Promise<Blob> {
+  const stored = await runTransaction(STORES, "readonly", (transaction) =>
+    Promise.all(
+      STORES.map((name) =>
+        requestToPromise<unknown[]>(transaction.objectStore(name).getAll())
+      )
+    )
+  );
+
+  // Backups are always written in plaintext; encryption only covers the
+  // local database
+  const [equipment, reports, images, equipmentHistory] = await Promise.all([
+    openRecords<DatabaseEquipment>("equipment", stored[0]),
+    openRecords<DatabaseInspectionReport>("reports", stored[1]),
+    openRecords<DatabaseStoredImage>("images", stored[2]),
+    openRecords<DatabaseEquipmentChange>("equipmentHistory", stored[3]),
+  ]);
+
+  const files: ZipEntry[] = [];
+  const imageEntries: BackupImage[] = [];
+
+  for (const image of images) {
+    const { blob, thumbnail, ...metadata } = image;
+    const file = `images/${image.id}.${extension(image.mimeType)}`;
+    const thumbnailFile = `thumbnails/${image.id}.jpg`;
+    files.push(
+      { name: file, data: new Uint8Array(await blob.arrayBuffer()) },
+      {
+        name: thumbnailFile,
+        data: new Uint8Array(await thumbnail.arrayBuffer()),
+      }
+    );
+    imageEntries.push({ ...metadata, file, thumbnailFile });
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: DB_VERSION,
+    exportedAt: new Date().toISOString(),
+    equipment,
+    reports,
+    images: imageEntries,
+    equipmentHistory,
+  };
+
+  return createZip([
+    {
+      name: MANIFEST_FILE,
+      data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+    },
+    ...files,
+  ]);
+}
+
+function isRecordList(value: unknown, requiredKeys: string[]): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (record) =>
+        typeof record === "object" &&
+        record !== null &&
+        requiredKeys.every(
+          (key) => typeof (record as Record<string, unknown>)[key] === "string"
+        )
+    )
+  );
+}
+
+function parseManifest(files: Map<string, Uint8Array>): BackupManifest {
+  const manifestFile = files.get(MANIFEST_FILE);
+  if (!manifestFile) throw invalidBackup("The backup has no manifest");
+
+  let raw: Partial<BackupManifest>;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(manifestFile));
+  } catch {
+    throw invalidBackup("The backup manifest is not valid JSON");
+  }
+
+  if (raw.format !== BACKUP_FORMAT || typeof raw.version !== "number") {
+    throw invalidBackup("This file is not an HVAC Scanner backup");
+  }
+  if (raw.version > BACKUP_VERSION) {
+    throw invalidBackup(
+      "This backup was made by a newer version of the app; update the app first",
+      { version: raw.version }
+    );
+  }
+  if (
+    !isRecordList(raw.equipment, ["id"]) ||
+    !isRecordList(raw.reports, ["id", "equipmentId"]) ||
+    !isRecordList(raw.images, ["id", "file", "thumbnailFile"]) ||
+    !isRecordList(raw.equipmentHistory ?? [], ["id", "equipmentId", "field"])
+  ) {
+    throw invalidBackup("The backup manifest is incomplete or corrupted");
+  }
+
+  let manifest = raw as BackupManifest;
+  for (const upgrade of MANIFEST_UPGRADES.slice(manifest.version - 1)) {
+    manifest = upgrade(manifest);
+  }
+
+  const missing = manifest.images.filter(
+    (image) => !files.has(image.file) || !files.has(image.thumbnailFile)
+  );
+  if (missing.length > 0) {
+    throw invalidBackup("The backup is missing photo files", {
+      missing: missing.map((image) => image.id),
+    });
+  }
+
+  return manifest;
+}
+
+function emptyCounts(): ImportCounts {
+  return { added: 0, overwritten: 0, skipped: 0, duplicated: 0 };
+}
+
+// Decides the id each incoming record is stored under; null means skip
+function resolveIds(
+  ids: string[],
+  existing: Set<IDBValidKey>,
+  strategy: ImportStrategy,
+  counts: ImportCounts
+): Map<string, string | null> {
+  const resolved = new Map<string, string | null>();
+  for (const id of ids) {
+    if (!existing.has(id)) {
+      resolved.set(id, id);
+      counts.added++;
+    } else if (strategy === "overwrite") {
+      resolved.set(id, id);
+      counts.overwritten++;
+    } else if (strategy === "keep_both") {
+      resolved.set(id, uuidv4());
+      counts.duplicated++;
+    } else {
+      resolved.set(id, null);
+      counts.skipped++;
+    }
+  }
+  return resolved;
+}
+
+// Validates the archive, then writes everything in one transaction so a
+// failed import leaves local data untouched. Existing ids are read in a
+// separate transaction first because records are sealed in between.
+export async function importBackup(
+  archive: Blob,
+  strategy: ImportStrategy
+): Promise<ImportSummary> {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = readZip(await archive.arrayBuffer());
+  } catch (error) {
+    throw createAppError(
+      "UNSUPPORTED_FORMAT",
+      "The backup file is damaged or not a ZIP archive",
+      error
+    );
+  }
+
+  const manifest = parseManifest(files);
+  const summary: ImportSummary = {
+    equipment: emptyCounts(),
+    reports: emptyCounts(),
+    images: emptyCounts(),
+    history: emptyCounts(),
+  };
+
+  const [equipmentKeys, reportKeys, imageKeys, historyKeys] =
+    await runTransaction(STORES, "readonly", (transaction) =>
+      Promise.all(
+        STORES.map((name) =>
+          requestToPromise(transaction.objectStore(name).getAllKeys())
+        )
+      )
+    );
+
+  const equipmentIds = resolveIds(
+    manifest.equipment.map((record) => record.id),
+    new Set(equipmentKeys),
+    strategy,
+    summary.equipment
+  );
+  const reportIds = resolveIds(
+    manifest.reports.map((record) => record.id),
+    new Set(reportKeys),
+    strategy,
+    summary.reports
+  );
+  const imageIds = resolveIds(
+    manifest.images.map((record) => record.id),
+    new Set(imageKeys),
+    strategy,
+    summary.images
+  );
+
+  // References follow renamed records; skipped ones keep pointing at the
+  // local record with the same id
+  const remap = (ids: Map<string, string | null>, id?: string) =>
+    id === undefined ? undefined : ids.get(id) ?? id;
+
+  const equipmentRecords: DatabaseEquipment[] = [];
+  for (const record of manifest.equipment) {
+    const id = equipmentIds.get(record.id);
+    if (!id) continue;
+    const equipment = fromDatabaseEquipment({ ...record, id });
+    equipmentRecords.push(toDatabaseEquipment(equipment));
+  }
+
+  const reportRecords: DatabaseInspectionReport[] = [];
+  for (const record of manifest.reports) {
+    const id = reportIds.get(record.id);
+    if (!id) continue;
+    const remapImage = (image: DatabaseCapturedImage) => ({
+      ...image,
+      id: remap(imageIds, image.id)!,
+      reportId: id,
+      equipmentId: remap(equipmentIds, image.equipmentId),
+    });
+    const report = fromDatabaseReport({
+      ...record,
+      id,
+      equipmentId: remap(equipmentIds, record.equipmentId)!,
+      labelImages: (record.labelImages ?? []).map(remapImage),
+      equipmentImages: (record.equipmentImages ?? []).map(remapImage),
+    });
+    reportRecords.push(toDatabaseReport(report));
+  }
+
+  const imageRecords: DatabaseStoredImage[] = [];
+  for (const record of manifest.images) {
+    const id = imageIds.get(record.id);
+    if (!id) continue;
+    const { file, thumbnailFile, ...metadata } = record;
+    const image = fromDatabaseImage({
+      ...metadata,
+      id,
+      reportId: remap(reportIds, record.reportId),
+      equipmentId: remap(equipmentIds, record.equipmentId),
+      blob: new Blob([files.get(file)!], {
+        type: record.mimeType || "image/jpeg",
+      }),
+      thumbnail: new Blob([files.get(thumbnailFile)!], {
+        type: "image/jpeg",
+      }),
+    });
+    imageRecords.push(toDatabaseImage(image));
+  }
+
+  // Change log entries are immutable, so one already present is always
+  // skipped; entries of equipment imported under a new id get new ids too
+  const existingHistory = new Set(historyKeys);
+  const historyRecords: DatabaseEquipmentChange[] = [];
+  for (const record of manifest.equipmentHistory ?? []) {
+    const equipmentId = remap(equipmentIds, record.equipmentId)!;
+    const renamed = equipmentId !== record.equipmentId;
+    if (!renamed && existingHistory.has(record.id)) {
+      summary.history.skipped++;
+      continue;
+    }
+    const change = fromDatabaseChange({
+      ...record,
+      id: renamed ? uuidv4() : record.id,
+      equipmentId,
+      reportId: remap(reportIds, record.reportId),
+    });
+    historyRecords.push(toDatabaseChange(change));
+    summary.history[renamed ? "duplicated" : "added"]++;
+  }
+
+  await runWrite(async () => {
+    // Sealed before the write transaction, which cannot wait on Web Crypto
+    const sealed = await Promise.all([
+      sealRecords("equipment", equipmentRecords),
+      sealRecords("reports", reportRecords),
+      sealRecords("images", imageRecords),
+      sealRecords("equipmentHistory", historyRecords),
+    ]);
+
+    await runTransaction(
+      [...STORES, SYNC_STATE_STORE],
+      "readwrite",
+      (transaction) => {
+        // Imported records are new to the sync server as far as we know
+        trackChanges(
+          transaction,
+          "equipment",
+          equipmentRecords.map((record) => record.id)
+        );
+        trackChanges(
+          transaction,
+          "reports",
+          reportRecords.map((record) => record.id)
+        );
+        trackChanges(
+          transaction,
+          "images",
+          imageRecords.map((record) => record.id)
+        );
+        return Promise.all(
+          STORES.flatMap((name, index) =>
+            sealed[index].map((record) =>
+              requestToPromise(transaction.objectStore(name).put(record))
+            )
+          )
+        );
+      }
+    );
+  });
+
+  return summary;
+}
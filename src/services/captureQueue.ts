@@ -0,0 +1,396 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  CaptureJob,
+  CaptureJobKind,
+  EquipmentChange,
+  HVACEquipment,
+  HVACEquipmentWithMetadata,
+  InspectionReport,
+  StoredImage,
+} from "@/types";
+import {
+  getCaptureJobRepository,
+  getEquipmentRepository,
+  getImageRepository,
+  getLockState,
+  getReportRepository,
+  runBackgroundTask,
+} from "@/services/db";
+import {
+  createAppError,
+  getErrorMessage,
+  isAppError,
+  isRetryableError,
+} from "@/services/errors";
+import {
+  buildEquipmentChanges,
+  EQUIPMENT_FIELD_LABELS,
+} from "@/services/equipmentHistory";
+import type { EquipmentMatch } from "@/services/equipmentIdentity";
+import { normalizeNameplate } from "@/services/normalization";
+import { getTechnicianName } from "@/services/preferences";
+import { scannerApi } from "@/services/scannerApi";
+
+// Applies a job's AI result to the latest copy of its report
+type ApplyResult = (report: InspectionReport) => {
+  report: InspectionReport;
+  changes: EquipmentChange[];
+};
+
+type FieldMetadataMap = NonNullable<HVACEquipmentWithMetadata["fieldMetadata"]>;
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+// Same bar a live label scan has to clear
+const MIN_LABEL_CONFIDENCE = 0.3;
+// The label is read before the photos are analyzed
+const KIND_ORDER: CaptureJobKind[] = ["scan_label", "analyze_equipment"];
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === "" || value === 0;
+}
+
+function toFiles(images: StoredImage[], type: StoredImage["type"]): File[] {
+  return images
+    .filter((image) => image.type === type)
+    .map(
+      (image) =>
+        new File([image.blob], `${image.id}.jpg`, { type: image.mimeType })
+    );
+}
+
+// A report is "processing" while one of its jobs runs and "completed" once
+// it has an analysis; until then a failed job makes it "error"
+function statusFor(
+  report: InspectionReport,
+  jobs: CaptureJob[]
+): InspectionReport["status"] {
+  const own = jobs.filter((job) => job.reportId === report.id);
+  if (own.some((job) => job.status === "running")) return "processing";
+  if (report.inspectionResult) return "completed";
+  return own.some((job) => job.status === "failed") ? "error" : "draft";
+}
+
+// Label scans and equipment analyses captured without a connection. The
+// photos are saved with a draft report and the AI calls run here once the
+// device is back online, retrying transient failures with backoff. Network
+// calls happen between IndexedDB transactions, and each result is applied
+// to the report as it is then, since sync may have changed it meanwhile.
+export class CaptureQueue {
+  private running: Promise<void> | null = null;
+  private listeners = new Set<(jobs: CaptureJob[]) => void>();
+  private completionListeners = new Set<(report: InspectionReport) => void>();
+  private matchListeners = new Set<
+    (report: InspectionReport, matches: EquipmentMatch[]) => void
+  >();
+
+  subscribe(listener: (jobs: CaptureJob[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Called with the report once its queued analysis has finished
+  subscribeToCompletions(
+    listener: (report: InspectionReport) => void
+  ): () => void {
+    this.completionListeners.add(listener);
+    return () => {
+      this.completionListeners.delete(listener);
+    };
+  }
+
+  // Called when a queued label scan identifies a unit that may already be
+  // stored, as a live scan does before the form. Without a listener the
+  // duplicate is left for the merge tool in Settings.
+  subscribeToMatches(
+    listener: (report: InspectionReport, matches: EquipmentMatch[]) => void
+  ): () => void {
+    this.matchListeners.add(listener);
+    return () => {
+      this.matchListeners.delete(listener);
+    };
+  }
+
+  getJobs(): Promise<CaptureJob[]> {
+    return getCaptureJobRepository().getAll();
+  }
+
+  // Queues AI work for a report already saved with its photos
+  async enqueue(reportId: string, kinds: CaptureJobKind[]): Promise<void> {
+    const now = new Date();
+    await getCaptureJobRepository().save(
+      kinds.map((kind) => ({
+        id: uuidv4(),
+        reportId,
+        kind,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+      }))
+    );
+    await this.notify();
+    void this.process();
+  }
+
+  // Puts a failed job back in line with a fresh set of attempts
+  async retry(jobId: string): Promise<void> {
+    const repository = getCaptureJobRepository();
+    const job = await repository.get(jobId);
+    if (!job) return;
+    await repository.save([
+      {
+        ...job,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lastError: undefined,
+      },
+    ]);
+    await this.refreshReportStatus(job.reportId);
+    await this.notify();
+    void this.process();
+  }
+
+  // Gives up on a job; the report keeps whatever the other jobs produced
+  async dismiss(jobId: string): Promise<void> {
+    const repository = getCaptureJobRepository();
+    const job = await repository.get(jobId);
+    if (!job) return;
+    await repository.delete([jobId]);
+    await this.refreshReportStatus(job.reportId);
+    await this.notify();
+  }
+
+  // Runs every job that is due; concurrent calls share the run in progress.
+  // Skipped while offline or locked, since reports can be neither analyzed
+  // nor read, and held back while the database is being re-encrypted.
+  process(): Promise<void> {
+    if (!this.running) {
+      this.running = runBackgroundTask(() => this.run())
+        .catch((error) => console.error("Capture queue failed:", error))
+        .finally(() => {
+          this.running = null;
+        });
+    }
+    return this.running;
+  }
+
+  private async run() {
+    for (;;) {
+      if (!navigator.onLine || (await getLockState()) === "locked") return;
+      const job = await this.nextDueJob();
+      if (!job) return;
+      await this.runJob(job);
+    }
+  }
+
+  // "running" jobs are picked up too: one left over from a closed tab never
+  // finished, since this is the only place that runs jobs
+  private async nextDueJob(): Promise<CaptureJob | null> {
+    const now = Date.now();
+    const due = (await this.getJobs())
+      .filter(
+        (job) => job.status !== "failed" && job.nextAttemptAt.getTime() <= now
+      )
+      .sort(
+        (a, b) =>
+          a.createdAt.getTime() - b.createdAt.getTime() ||
+          KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+      );
+    return due[0] ?? null;
+  }
+
+  private async runJob(job: CaptureJob) {
+    const repository = getCaptureJobRepository();
+    const reports = getReportRepository();
+
+    if (!(await reports.get(job.reportId))) {
+      // Deleted here or on another device
+      await repository.delete([job.id]);
+      await this.notify();
+      return;
+    }
+
+    try {
+      await repository.save([{ ...job, status: "running" }]);
+      await this.refreshReportStatus(job.reportId);
+      await this.notify();
+
+      const images = await getImageRepository().findByReportId(job.reportId);
+      const apply =
+        job.kind === "scan_label"
+          ? await this.scanLabel(images)
+          : await this.analyzeEquipment(images);
+
+      const latest = await reports.get(job.reportId);
+      if (!latest) {
+        await repository.delete([job.id]);
+        return;
+      }
+
+      const { report, changes } = apply(latest);
+      const others = (await this.getJobs()).filter(({ id }) => id !== job.id);
+      const status = statusFor(report, others);
+      const saved: InspectionReport = {
+        ...report,
+        status,
+        completedAt:
+          status === "completed"
+            ? report.completedAt ?? new Date()
+            : report.completedAt,
+      };
+      // The job goes only once its result is stored
+      await reports.save(saved, [], changes);
+      await repository.delete([job.id]);
+      if (job.kind === "scan_label") {
+        await this.notifyMatches(saved);
+      }
+      if (job.kind === "analyze_equipment" && status === "completed") {
+        this.completionListeners.forEach((listener) => listener(saved));
+      }
+    } catch (error) {
+      await this.handleFailure(job, error);
+    } finally {
+      await this.notify();
+    }
+  }
+
+  // Transient failures are retried later; attempts made while offline or
+  // locked do not count against the limit
+  private async handleFailure(job: CaptureJob, error: unknown) {
+    console.error(`Queued ${job.kind} failed:`, error);
+    const locked = isAppError(error) && error.details?.reason === "locked";
+    const counts = navigator.onLine && !locked;
+    const attempts = counts ? job.attempts + 1 : job.attempts;
+    const giveUp =
+      !locked && (!isRetryableError(error) || attempts >= MAX_ATTEMPTS);
+    const backoff = Math.min(
+      MAX_RETRY_DELAY_MS,
+      BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1)
+    );
+
+    await getCaptureJobRepository().save([
+      {
+        ...job,
+        status: giveUp ? "failed" : "pending",
+        attempts,
+        // Half to full backoff, so devices coming online together spread out
+        nextAttemptAt: new Date(
+          Date.now() + (counts ? backoff * (0.5 + Math.random() / 2) : 0)
+        ),
+        lastError: getErrorMessage(error),
+      },
+    ]);
+    try {
+      await this.refreshReportStatus(job.reportId);
+    } catch (statusError) {
+      console.error("Could not update report status:", statusError);
+    }
+  }
+
+  private async scanLabel(images: StoredImage[]): Promise<ApplyResult> {
+    const files = toFiles(images, "label");
+    if (files.length === 0) {
+      throw createAppError("PROCESSING_ERROR", "No label photos were saved");
+    }
+    const result = await scannerApi.scanLabel(files);
+    if (result.confidence <= MIN_LABEL_CONFIDENCE) {
+      throw createAppError(
+        "PROCESSING_ERROR",
+        `The label could not be read (${Math.round(
+          result.confidence * 100
+        )}% confidence). Enter the details by hand.`
+      );
+    }
+
+    return (report) => {
+      // Readings only fill the fields the technician left blank
+      const previous = report.equipment;
+      const equipment: HVACEquipment = { ...previous, updatedAt: new Date() };
+      const fieldMetadata: FieldMetadataMap = {};
+      const scanned = result.extractedData;
+      for (const field of Object.keys(
+        EQUIPMENT_FIELD_LABELS
+      ) as (keyof HVACEquipment)[]) {
+        if (!isEmpty(previous[field]) || isEmpty(scanned[field])) continue;
+        Object.assign(equipment, { [field]: scanned[field] });
+        Object.assign(fieldMetadata, {
+          [field]: scanned.fieldMetadata?.[field as keyof FieldMetadataMap] ?? {
+            source: "scanned",
+            confidence: result.confidence,
+          },
+        });
+      }
+      equipment.specs = normalizeNameplate(equipment);
+
+      const changes = buildEquipmentChanges({
+        previous,
+        scanned: { ...equipment, fieldMetadata },
+        saved: equipment,
+        technician: getTechnicianName(),
+        reportId: report.id,
+      });
+      return { report: { ...report, equipment }, changes };
+    };
+  }
+
+  private async analyzeEquipment(images: StoredImage[]): Promise<ApplyResult> {
+    const files = toFiles(images, "equipment");
+    if (files.length === 0) {
+      throw createAppError(
+        "PROCESSING_ERROR",
+        "No equipment photos were saved"
+      );
+    }
+    const result = await scannerApi.analyzeEquipment(files);
+    return (report) => ({
+      report: { ...report, inspectionResult: result },
+      changes: [],
+    });
+  }
+
+  // The job is already done, so a failed lookup only skips the prompt
+  private async notifyMatches(report: InspectionReport) {
+    if (this.matchListeners.size === 0) return;
+    try {
+      const matches = await getEquipmentRepository().findMatches(
+        report.equipment
+      );
+      if (matches.length === 0) return;
+      this.matchListeners.forEach((listener) => listener(report, matches));
+    } catch (error) {
+      console.error("Error looking up existing equipment:", error);
+    }
+  }
+
+  private async refreshReportStatus(reportId: string) {
+    const reports = getReportRepository();
+    const report = await reports.get(reportId);
+    if (!report) return;
+    const status = statusFor(report, await this.getJobs());
+    if (status !== report.status) await reports.save({ ...report, status });
+  }
+
+  private async notify() {
+    if (this.listeners.size === 0) return;
+    try {
+      const jobs = await this.getJobs();
+      this.listeners.forEach((listener) => listener(jobs));
+    } catch (error) {
+      console.error("Error reading capture jobs:", error);
+    }
+  }
+}
+
+let instance: CaptureQueue | null = null;
+
+export function getCaptureQueue(): CaptureQueue {
+  if (!instance) {
+    instance = new CaptureQueue();
+  }
+  return instance;
+}
@@ -0,0 +1,54 @@
+import type { CaptureJob, DatabaseCaptureJob } from "@/types";
+import { requestToPromise, runTransaction } from "./connection";
+import { fromDatabaseJob, toDatabaseJob } from "./serializers";
+
+const STORE = "captureJobs";
+
+// Jobs only say which report to process and when, so they are kept readable
+// even when the database is encrypted, and never leave the device.
+export class CaptureJobRepository {
+  async getAll(): Promise<CaptureJob[]> {
+    const records = await runTransaction([STORE], "readonly", (transaction) =>
+      requestToPromise<DatabaseCaptureJob[]>(
+        transaction.objectStore(STORE).getAll()
+      )
+    );
+    return records
+      .map(fromDatabaseJob)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async get(id: string): Promise<CaptureJob | null> {
+    const record = await runTransaction([STORE], "readonly", (transaction) =>
+      requestToPromise<DatabaseCaptureJob | undefined>(
+        transaction.objectStore(STORE).get(id)
+      )
+    );
+    return record ? fromDatabaseJob(record) : null;
+  }
+
+  async save(jobs: CaptureJob[]): Promise<void> {
+    await runTransaction([STORE], "readwrite", async (transaction) => {
+      const store = transaction.objectStore(STORE);
+      await Promise.all(
+        jobs.map((job) => requestToPromise(store.put(toDatabaseJob(job))))
+      );
+    });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    await runTransaction([STORE], "readwrite", async (transaction) => {
+      const store = transaction.objectStore(STORE);
+      await Promise.all(ids.map((id) => requestToPromise(store.delete(id))));
+    });
+  }
+}
+
+let instance: CaptureJobRepository | null = null;
+
+export function getCaptureJobRepository(): CaptureJobRepository {
+  if (!instance) {
+    instance = new CaptureJobRepository();
+  }
+  return instance;
+}
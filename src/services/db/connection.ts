@@ -0,0 +1,137 @@
+import { createAppError, isAppError } from "@/services/errors";
+import { DB_NAME, DB_VERSION, runMigrations } from "./migrations";
+
+// One IndexedDB connection shared by every repository. It is opened on first
+// use and dropped when another tab upgrades the schema, so the next call
+// reopens it at the new version.
+
+let connection: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (connection) return connection;
+
+  connection = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(
+        createAppError(
+          "STORAGE_ERROR",
+          "Local storage is not available in this browser"
+        )
+      );
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      runMigrations(request.result, request.transaction!, event.oldVersion);
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        connection = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      reject(
+        createAppError("STORAGE_ERROR", "Error opening database", request.error)
+      );
+    };
+  });
+
+  // A failed open is not cached, so the next call tries again
+  connection.catch(() => {
+    connection = null;
+  });
+
+  return connection;
+}
+
+export async function closeDatabase() {
+  const current = connection;
+  connection = null;
+  if (current) (await current.catch(() => null))?.close();
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  const promise = new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // When a transaction aborts, every pending request fails with it; the
+  // failure is reported once by runTransaction, not per request
+  promise.catch(() => undefined);
+  return promise;
+}
+
+export function isQuotaExceeded(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === "QuotaExceededError" ||
+      error.code === DOMException.QUOTA_EXCEEDED_ERR)
+  );
+}
+
+// Runs `work` in a single transaction and resolves once it has committed, so
+// multi-store writes either all land or none do. `work` must only await
+// requests of this transaction, or IndexedDB commits it early.
+export async function runTransaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  // Observed below; this only keeps an abort from surfacing as unhandled
+  done.catch(() => undefined);
+
+  try {
+    const result = await work(transaction);
+    await done;
+    return result;
+  } catch (error) {
+    try {
+      transaction.abort();
+    } catch {
+      // Already committed or aborted
+    }
+    if (isAppError(error)) throw error;
+
+    // A write over quota aborts the transaction; the failing request itself
+    // may only report AbortError
+    const cause = isQuotaExceeded(transaction.error)
+      ? transaction.error
+      : error;
+    if (isQuotaExceeded(cause)) {
+      throw createAppError(
+        "STORAGE_ERROR",
+        "This device is out of storage space. Free up space in Settings and try again",
+        cause,
+        { reason: "quota_exceeded" }
+      );
+    }
+    throw createAppError("STORAGE_ERROR", "Local storage error", error);
+  }
+}
+
+// Empties every store, keeping the schema
+export async function clearDatabase(): Promise<void> {
+  const db = await openDatabase();
+  const storeNames = Array.from(db.objectStoreNames);
+  await runTransaction(storeNames, "readwrite", async (transaction) => {
+    await Promise.all(
+      storeNames.map((name) =>
+        requestToPromise(transaction.objectStore(name).clear())
+      )
+    );
+  });
+}
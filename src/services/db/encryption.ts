@@ -0,0 +1,454 @@
+import { createAppError } from "@/services/errors";
+import { requestToPromise, runTransaction } from "./connection";
+
+// Optional encryption at rest. Records of the stores below are sealed with
+// AES-GCM under a key derived from the user's passphrase (PBKDF2); the key
+// only lives in memory while the app is unlocked.
+//
+// Web Crypto calls are not IndexedDB requests, so awaiting them inside a
+// transaction would commit it early: records are sealed before a write
+// transaction starts and opened after a read transaction finishes.
+
+export interface SealedData {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  type?: string; // MIME type of a sealed Blob
+}
+
+export type LockState = "disabled" | "locked" | "unlocked";
+
+interface EncryptionMeta {
+  key: "encryption";
+  salt: Uint8Array;
+  iterations: number;
+  verifier: SealedData; // VERIFIER sealed with the key, to check passphrases
+}
+
+interface StoreConfig {
+  // Fields kept readable for indexes and storage policies; the others are
+  // sealed together. Undefined leaves every non-blob field readable.
+  plaintext?: string[];
+  blobs?: string[];
+}
+
+const STORE_CONFIG: Record<string, StoreConfig> = {
+  equipment: { plaintext: ["id", "createdAt", "updatedAt"] },
+  reports: {
+    plaintext: ["id", "equipmentId", "status", "createdAt", "completedAt"],
+  },
+  images: { blobs: ["blob", "thumbnail"] },
+  equipmentHistory: { plaintext: ["id", "equipmentId", "changedAt"] },
+  // The last synced copy of a record and clashing values are record data too
+  syncState: {
+    plaintext: ["key", "store", "recordId", "revision", "dirty", "deleted"],
+  },
+  syncConflicts: {
+    plaintext: ["id", "store", "recordId", "field", "detectedAt"],
+  },
+};
+
+export const ENCRYPTED_STORES = Object.keys(STORE_CONFIG);
+
+const META_STORE = "meta";
+const META_KEY = "encryption";
+const PBKDF2_ITERATIONS = 310000;
+const GCM_TAG_BYTES = 16;
+const VERIFIER = "hvac-scanner";
+
+let meta: Promise<EncryptionMeta | null> | null = null;
+let sessionKey: CryptoKey | null = null;
+// Set while rewriteAll runs; writes are held once background tasks are done
+let rewriting: Promise<void> | null = null;
+let writesHeld = false;
+const backgroundTasks = new Set<Promise<unknown>>();
+const activeWrites = new Set<Promise<unknown>>();
+const listeners = new Set<(state: LockState) => void>();
+
+function lockedError() {
+  return createAppError(
+    "STORAGE_ERROR",
+    "Unlock the app to access saved data",
+    undefined,
+    { reason: "locked" }
+  );
+}
+
+function loadMeta(): Promise<EncryptionMeta | null> {
+  if (!meta) {
+    meta = runTransaction([META_STORE], "readonly", async (transaction) => {
+      const record = await requestToPromise<EncryptionMeta | undefined>(
+        transaction.objectStore(META_STORE).get(META_KEY)
+      );
+      return record ?? null;
+    });
+    meta.catch(() => {
+      meta = null;
+    });
+  }
+  return meta;
+}
+
+async function notify() {
+  const state = await getLockState();
+  listeners.forEach((listener) => listener(state));
+}
+
+export async function getLockState(): Promise<LockState> {
+  if (!(await loadMeta())) return "disabled";
+  return sessionKey ? "unlocked" : "locked";
+}
+
+export function subscribeToLockState(
+  listener: (state: LockState) => void
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Forgets the cached settings, e.g. after the database was cleared
+export function resetEncryptionState() {
+  meta = null;
+  sessionKey = null;
+  notify();
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+async function encrypt(
+  key: CryptoKey,
+  data: BufferSource
+): Promise<SealedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return {
+    iv,
+    data: await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, data),
+  };
+}
+
+function decrypt(key: CryptoKey, sealed: SealedData): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: sealed.iv },
+    key,
+    sealed.data
+  );
+}
+
+export function isSealedData(value: unknown): value is SealedData {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "iv" in value &&
+    "data" in value
+  );
+}
+
+// Byte size of a Blob field as stored, sealed or not; sealing only adds the
+// authentication tag
+export function storedBlobSize(value: Blob | SealedData): number {
+  return isSealedData(value)
+    ? value.data.byteLength - GCM_TAG_BYTES
+    : value.size;
+}
+
+async function sealWith(
+  key: CryptoKey | null,
+  storeName: string,
+  record: object
+): Promise<object> {
+  const config = STORE_CONFIG[storeName];
+  if (!key || !config) return record;
+
+  const result: Record<string, unknown> = {};
+  const hidden: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(record)) {
+    if (config.blobs?.includes(field) && value instanceof Blob) {
+      result[field] = {
+        ...(await encrypt(key, await value.arrayBuffer())),
+        type: value.type,
+      };
+    } else if (!config.plaintext || config.plaintext.includes(field)) {
+      result[field] = value;
+    } else {
+      hidden[field] = value;
+    }
+  }
+  if (config.plaintext) {
+    result.sealed = await encrypt(
+      key,
+      new TextEncoder().encode(JSON.stringify(hidden))
+    );
+  }
+  return result;
+}
+
+async function openWith<T>(
+  key: CryptoKey | null,
+  storeName: string,
+  stored: unknown
+): Promise<T> {
+  const config = STORE_CONFIG[storeName];
+  if (!config || typeof stored !== "object" || stored === null) {
+    return stored as T;
+  }
+
+  const result: Record<string, unknown> = { ...stored };
+  try {
+    for (const field of config.blobs ?? []) {
+      const value = result[field];
+      if (!isSealedData(value)) continue;
+      if (!key) throw lockedError();
+      result[field] = new Blob([await decrypt(key, value)], {
+        type: value.type,
+      });
+    }
+    if (isSealedData(result.sealed)) {
+      if (!key) throw lockedError();
+      const hidden = JSON.parse(
+        new TextDecoder().decode(await decrypt(key, result.sealed))
+      );
+      delete result.sealed;
+      Object.assign(result, hidden);
+    }
+  } catch (error) {
+    if (error instanceof DOMException) {
+      throw createAppError(
+        "STORAGE_ERROR",
+        "A saved record could not be decrypted",
+        error,
+        { storeName }
+      );
+    }
+    throw error;
+  }
+  return result as T;
+}
+
+async function activeKey(): Promise<CryptoKey | null> {
+  if (!(await loadMeta())) return null;
+  if (!sessionKey) throw lockedError();
+  return sessionKey;
+}
+
+// Seals records for `storeName` with the session key; a no-op while
+// encryption is off
+export async function sealRecords(
+  storeName: string,
+  records: object[]
+): Promise<object[]> {
+  const key = await activeKey();
+  return Promise.all(records.map((record) => sealWith(key, storeName, record)));
+}
+
+// Opens records read from `storeName`; records written before encryption
+// was turned on are returned as they are
+export async function openRecords<T>(
+  storeName: string,
+  records: unknown[]
+): Promise<T[]> {
+  const key = (await loadMeta()) ? sessionKey : null;
+  return Promise.all(
+    records.map((record) => openWith<T>(key, storeName, record))
+  );
+}
+
+export async function unlock(passphrase: string): Promise<void> {
+  const settings = await loadMeta();
+  if (!settings) return;
+  const key = await deriveKey(passphrase, settings.salt, settings.iterations);
+  try {
+    await decrypt(key, settings.verifier);
+  } catch {
+    throw createAppError("STORAGE_ERROR", "Incorrect passphrase", undefined, {
+      reason: "wrong_passphrase",
+    });
+  }
+  sessionKey = key;
+  notify();
+}
+
+export function lock() {
+  if (!sessionKey) return;
+  sessionKey = null;
+  notify();
+}
+
+async function track<T>(
+  running: Promise<T>,
+  active: Set<Promise<unknown>>
+): Promise<T> {
+  active.add(running);
+  try {
+    return await running;
+  } finally {
+    active.delete(running);
+  }
+}
+
+// Background writers (sync, the capture queue) run through this. While the
+// data is re-encrypted new runs wait, and the re-encryption lets the runs in
+// progress finish first, so none works across the change of key.
+export async function runBackgroundTask<T>(task: () => Promise<T>): Promise<T> {
+  while (rewriting) await rewriting;
+  return track(task(), backgroundTasks);
+}
+
+// Every write to the encrypted stores runs through this, from sealing its
+// records to committing them. The re-encryption waits for the writes in
+// progress and holds new ones, so none lands between its read and its write
+// or is sealed under a key that is about to be replaced. Writes must not
+// nest, or one would wait for a re-encryption that waits for the other.
+export async function runWrite<T>(write: () => Promise<T>): Promise<T> {
+  while (rewriting && writesHeld) await rewriting;
+  return track(write(), activeWrites);
+}
+
+// Rewrites every record of the encrypted stores from `fromKey` to `toKey`
+// (null meaning plaintext) and stores `nextMeta` in the same transaction, so
+// the data and the passphrase settings never disagree. Everything is read
+// into memory first because the crypto work cannot run inside a transaction,
+// and every converted record is held until that transaction. Records are
+// converted one at a time and the originals released as they go, so each
+// photo is held about once rather than twice.
+async function rewriteAll(
+  fromKey: CryptoKey | null,
+  toKey: CryptoKey | null,
+  nextMeta: EncryptionMeta | null
+) {
+  if (rewriting) {
+    throw createAppError(
+      "STORAGE_ERROR",
+      "The data is already being re-encrypted"
+    );
+  }
+  let finished!: () => void;
+  rewriting = new Promise((resolve) => {
+    finished = resolve;
+  });
+
+  try {
+    // Background tasks write through runWrite, so they finish before
+    // writes are held
+    await Promise.allSettled([...backgroundTasks]);
+    writesHeld = true;
+    await Promise.allSettled([...activeWrites]);
+
+    const stored = await runTransaction(
+      ENCRYPTED_STORES,
+      "readonly",
+      (transaction) =>
+        Promise.all(
+          ENCRYPTED_STORES.map((name) =>
+            requestToPromise<unknown[]>(transaction.objectStore(name).getAll())
+          )
+        )
+    );
+
+    const rewritten: object[][] = [];
+    for (const [index, name] of ENCRYPTED_STORES.entries()) {
+      const records = stored[index];
+      const converted: object[] = [];
+      for (let i = 0; i < records.length; i++) {
+        const record = await openWith<object>(fromKey, name, records[i]);
+        converted.push(await sealWith(toKey, name, record));
+        records[i] = undefined;
+      }
+      rewritten.push(converted);
+    }
+
+    await runTransaction(
+      [...ENCRYPTED_STORES, META_STORE],
+      "readwrite",
+      async (transaction) => {
+        const metaStore = transaction.objectStore(META_STORE);
+        await Promise.all([
+          ...ENCRYPTED_STORES.flatMap((name, index) =>
+            rewritten[index].map((record) =>
+              requestToPromise(transaction.objectStore(name).put(record))
+            )
+          ),
+          nextMeta
+            ? requestToPromise(metaStore.put(nextMeta))
+            : requestToPromise(metaStore.delete(META_KEY)),
+        ]);
+      }
+    );
+
+    meta = Promise.resolve(nextMeta);
+    sessionKey = toKey;
+  } finally {
+    rewriting = null;
+    writesHeld = false;
+    finished();
+  }
+  notify();
+}
+
+async function createMeta(
+  passphrase: string
+): Promise<{ key: CryptoKey; meta: EncryptionMeta }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    key,
+    meta: {
+      key: META_KEY,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encrypt(key, new TextEncoder().encode(VERIFIER)),
+    },
+  };
+}
+
+// Checks `passphrase` against the stored settings and returns its key
+async function verifiedKey(passphrase: string): Promise<CryptoKey> {
+  const settings = await loadMeta();
+  if (!settings) {
+    throw createAppError("STORAGE_ERROR", "Encryption is not turned on");
+  }
+  await unlock(passphrase);
+  return sessionKey!;
+}
+
+export async function enableEncryption(passphrase: string): Promise<void> {
+  if (await loadMeta()) {
+    throw createAppError("STORAGE_ERROR", "Encryption is already turned on");
+  }
+  const next = await createMeta(passphrase);
+  await rewriteAll(null, next.key, next.meta);
+}
+
+// Re-encrypts existing data under a new salt and key
+export async function changePassphrase(
+  currentPassphrase: string,
+  nextPassphrase: string
+): Promise<void> {
+  const currentKey = await verifiedKey(currentPassphrase);
+  const next = await createMeta(nextPassphrase);
+  await rewriteAll(currentKey, next.key, next.meta);
+}
+
+export async function disableEncryption(passphrase: string): Promise<void> {
+  const currentKey = await verifiedKey(passphrase);
+  await rewriteAll(currentKey, null, null);
+}
@@ -0,0 +1,44 @@
+import type { DatabaseEquipmentChange, EquipmentChange } from "@/types";
+import { requestToPromise, runTransaction } from "./connection";
+import { openRecords, runWrite, sealRecords } from "./encryption";
+import { fromDatabaseChange, toDatabaseChange } from "./serializers";
+
+const STORE = "equipmentHistory";
+
+// The change log is append-only: there is deliberately no update or delete.
+// Entries follow their equipment when records are merged.
+export class EquipmentHistoryRepository {
+  async findByEquipmentId(equipmentId: string): Promise<EquipmentChange[]> {
+    const stored = await runTransaction([STORE], "readonly", (transaction) =>
+      requestToPromise<unknown[]>(
+        transaction.objectStore(STORE).index("equipmentId").getAll(equipmentId)
+      )
+    );
+    const records = await openRecords<DatabaseEquipmentChange>(STORE, stored);
+    return records
+      .map(fromDatabaseChange)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+  }
+
+  async append(changes: EquipmentChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    return runWrite(async () => {
+      const records = await sealRecords(STORE, changes.map(toDatabaseChange));
+      await runTransaction([STORE], "readwrite", async (transaction) => {
+        const store = transaction.objectStore(STORE);
+        await Promise.all(
+          records.map((record) => requestToPromise(store.add(record)))
+        );
+      });
+    });
+  }
+}
+
+let instance: EquipmentHistoryRepository | null = null;
+
+export function getEquipmentHistoryRepository(): EquipmentHistoryRepository {
+  if (!instance) {
+    instance = new EquipmentHistoryRepository();
+  }
+  return instance;
+}
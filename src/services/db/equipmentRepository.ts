@@ -0,0 +1,220 @@
+import type {
+  DatabaseEquipment,
+  DatabaseEquipmentChange,
+  DatabaseInspectionReport,
+  DatabaseStoredImage,
+  EquipmentType,
+  HVACEquipment,
+} from "@/types";
+import { createAppError } from "@/services/errors";
+import {
+  findEquipmentMatches,
+  mergeEquipmentRecords,
+  type EquipmentMatch,
+} from "@/services/equipmentIdentity";
+import { requestToPromise, runTransaction } from "./connection";
+import { getLockState, openRecords, runWrite, sealRecords } from "./encryption";
+import { fromDatabaseEquipment, toDatabaseEquipment } from "./serializers";
+import { SYNC_STATE_STORE, trackChanges } from "./syncTracking";
+
+const STORE = "equipment";
+
+export class EquipmentRepository {
+  async get(id: string): Promise<HVACEquipment | null> {
+    const [record] = await this.query((store) => store.get(id));
+    return record ?? null;
+  }
+
+  async getAll(): Promise<HVACEquipment[]> {
+    return this.query((store) => store.getAll());
+  }
+
+  async findByBrand(brand: string): Promise<HVACEquipment[]> {
+    return this.findByIndex("brand", brand);
+  }
+
+  async findByType(type: EquipmentType): Promise<HVACEquipment[]> {
+    return this.findByIndex("equipmentType", type);
+  }
+
+  async findByAhriNumber(ahriNumber: string): Promise<HVACEquipment[]> {
+    return this.findByIndex("ahriNumber", ahriNumber);
+  }
+
+  // Stored units with the same brand and a matching serial number
+  async findMatches(
+    candidate: Pick<HVACEquipment, "id" | "brand" | "serialNumber">
+  ): Promise<EquipmentMatch[]> {
+    return findEquipmentMatches(candidate, await this.getAll());
+  }
+
+  async save(equipment: HVACEquipment): Promise<void> {
+    return runWrite(async () => {
+      const [record] = await sealRecords(STORE, [
+        toDatabaseEquipment(equipment),
+      ]);
+      await runTransaction(
+        [STORE, SYNC_STATE_STORE],
+        "readwrite",
+        async (transaction) => {
+          trackChanges(transaction, STORE, [equipment.id]);
+          await requestToPromise(transaction.objectStore(STORE).put(record));
+        }
+      );
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    return runWrite(async () => {
+      await runTransaction(
+        [STORE, SYNC_STATE_STORE],
+        "readwrite",
+        async (transaction) => {
+          trackChanges(transaction, STORE, [id], true);
+          await requestToPromise(transaction.objectStore(STORE).delete(id));
+        }
+      );
+    });
+  }
+
+  // Folds `sourceId` into `targetId`: fills the target's empty fields from
+  // the source, re-points the source's reports, photos and change log, then
+  // deletes it. Records are read first and written in one transaction
+  // afterwards, since sealed records are decrypted in between.
+  async merge(sourceId: string, targetId: string): Promise<HVACEquipment> {
+    return runWrite(async () => {
+      const stores = [STORE, "reports", "images", "equipmentHistory"];
+      const stored = await runTransaction(stores, "readonly", (transaction) =>
+        Promise.all([
+          requestToPromise(transaction.objectStore(STORE).get(sourceId)),
+          requestToPromise(transaction.objectStore(STORE).get(targetId)),
+          requestToPromise(
+            transaction
+              .objectStore("reports")
+              .index("equipmentId")
+              .getAll(sourceId)
+          ),
+          requestToPromise(
+            transaction
+              .objectStore("images")
+              .index("equipmentId")
+              .getAll(sourceId)
+          ),
+          requestToPromise(
+            transaction
+              .objectStore("equipmentHistory")
+              .index("equipmentId")
+              .getAll(sourceId)
+          ),
+        ])
+      );
+      if (!stored[0] || !stored[1] || sourceId === targetId) {
+        throw createAppError(
+          "STORAGE_ERROR",
+          "The equipment to merge was not found",
+          undefined,
+          { sourceId, targetId }
+        );
+      }
+
+      const [[source, target], reports] = await Promise.all([
+        openRecords<DatabaseEquipment>(STORE, [stored[0], stored[1]]),
+        openRecords<DatabaseInspectionReport>("reports", stored[2]),
+      ]);
+
+      const merged = mergeEquipmentRecords(
+        fromDatabaseEquipment(target),
+        fromDatabaseEquipment(source)
+      );
+      const repoint = <T extends { equipmentId?: string }>(record: T): T =>
+        record.equipmentId === sourceId
+          ? { ...record, equipmentId: targetId }
+          : record;
+
+      const [equipmentRecords, reportRecords] = await Promise.all([
+        sealRecords(STORE, [toDatabaseEquipment(merged)]),
+        sealRecords(
+          "reports",
+          reports.map((report) => ({
+            ...repoint(report),
+            labelImages: report.labelImages.map(repoint),
+            equipmentImages: report.equipmentImages.map(repoint),
+          }))
+        ),
+      ]);
+      // equipmentId is never sealed in these stores, so their records are
+      // re-pointed as stored
+      const imageRecords = (stored[3] as DatabaseStoredImage[]).map(repoint);
+      const historyRecords = (stored[4] as DatabaseEquipmentChange[]).map(
+        repoint
+      );
+
+      await runTransaction(
+        [...stores, SYNC_STATE_STORE],
+        "readwrite",
+        async (transaction) => {
+          trackChanges(transaction, STORE, [targetId]);
+          trackChanges(transaction, STORE, [sourceId], true);
+          trackChanges(
+            transaction,
+            "reports",
+            reports.map((report) => report.id)
+          );
+          // A photo shrunk on this device would replace the original on the
+          // server, so only full-size photos are pushed with their new unit
+          trackChanges(
+            transaction,
+            "images",
+            imageRecords
+              .filter((image) => !image.quality || image.quality === "original")
+              .map((image) => image.id)
+          );
+          const put = (storeName: string) => (record: object) =>
+            requestToPromise(transaction.objectStore(storeName).put(record));
+          await Promise.all([
+            ...equipmentRecords.map(put(STORE)),
+            requestToPromise(transaction.objectStore(STORE).delete(sourceId)),
+            ...reportRecords.map(put("reports")),
+            ...imageRecords.map(put("images")),
+            ...historyRecords.map(put("equipmentHistory")),
+          ]);
+        }
+      );
+      return merged;
+    });
+  }
+
+  // Sealed records leave the indexed fields out of the index, so with
+  // encryption on the lookup scans every record instead
+  private async findByIndex(
+    index: "brand" | "equipmentType" | "ahriNumber",
+    value: string
+  ): Promise<HVACEquipment[]> {
+    if ((await getLockState()) === "disabled") {
+      return this.query((store) => store.index(index).getAll(value));
+    }
+    return (await this.getAll()).filter(
+      (equipment) => equipment[index] === value
+    );
+  }
+
+  private async query(
+    read: (store: IDBObjectStore) => IDBRequest
+  ): Promise<HVACEquipment[]> {
+    const result = await runTransaction([STORE], "readonly", (transaction) =>
+      requestToPromise<unknown>(read(transaction.objectStore(STORE)))
+    );
+    const stored = Array.isArray(result) ? result : result ? [result] : [];
+    const records = await openRecords<DatabaseEquipment>(STORE, stored);
+    return records.map(fromDatabaseEquipment);
+  }
+}
+
+let instance: EquipmentRepository | null = null;
+
+export function getEquipmentRepository(): EquipmentRepository {
+  if (!instance) {
+    instance = new EquipmentRepository();
+  }
+  return instance;
+}
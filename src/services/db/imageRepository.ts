@@ -0,0 +1,83 @@
+import type { DatabaseStoredImage, StoredImage } from "@/types";
+import { requestToPromise, runTransaction } from "./connection";
+import { openRecords, runWrite, sealRecords } from "./encryption";
+import { fromDatabaseImage, toDatabaseImage } from "./serializers";
+import { SYNC_STATE_STORE, trackChanges } from "./syncTracking";
+
+const STORE = "images";
+
+export class ImageRepository {
+  async get(id: string): Promise<StoredImage | null> {
+    const [image] = await this.query((store) => store.get(id));
+    return image ?? null;
+  }
+
+  async findByReportId(reportId: string): Promise<StoredImage[]> {
+    return this.query((store) => store.index("reportId").getAll(reportId));
+  }
+
+  async findByEquipmentId(equipmentId: string): Promise<StoredImage[]> {
+    return this.query((store) =>
+      store.index("equipmentId").getAll(equipmentId)
+    );
+  }
+
+  async save(image: StoredImage): Promise<void> {
+    return runWrite(async () => {
+      const [record] = await sealRecords(STORE, [toDatabaseImage(image)]);
+      await runTransaction(
+        [STORE, SYNC_STATE_STORE],
+        "readwrite",
+        async (transaction) => {
+          trackChanges(transaction, STORE, [image.id]);
+          await requestToPromise(transaction.objectStore(STORE).put(record));
+        }
+      );
+    });
+  }
+
+  // Storage-policy rewrites (a down-sampled photo) only concern this
+  // device, so they are not marked for sync: pushing them would replace the
+  // original on the server and on every other device
+  async saveLocalCopy(image: StoredImage): Promise<void> {
+    return runWrite(async () => {
+      const [record] = await sealRecords(STORE, [toDatabaseImage(image)]);
+      await runTransaction([STORE], "readwrite", async (transaction) => {
+        await requestToPromise(transaction.objectStore(STORE).put(record));
+      });
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    return runWrite(async () => {
+      await runTransaction(
+        [STORE, SYNC_STATE_STORE],
+        "readwrite",
+        async (transaction) => {
+          trackChanges(transaction, STORE, [id], true);
+          await requestToPromise(transaction.objectStore(STORE).delete(id));
+        }
+      );
+    });
+  }
+
+  private async query(
+    read: (store: IDBObjectStore) => IDBRequest
+  ): Promise<StoredImage[]> {
+    const result = await runTransaction([STORE], "readonly", (transaction) =>
+      requestToPromise<unknown>(read(transaction.objectStore(STORE)))
+    );
+    const stored = Array.isArray(result) ? result : result ? [result] : [];
+    const records = await openRecords<DatabaseStoredImage>(STORE, stored);
+    return records.map(fromDatabaseImage);
+  }
+}
+
+let instance: ImageRepository | null = null;
+
+export function getImageRepository(): ImageRepository {
+  if (!instance) {
+    instance = new ImageRepository();
+  }
+  return instance;
+}
@@ -0,0 +1,71 @@
+export {
+  DB_NAME,
+  DB_VERSION,
+  MIGRATIONS,
+  runMigrations,
+  type Migration,
+} from "./migrations";
+export {
+  fromDatabaseChange,
+  fromDatabaseConflict,
+  fromDatabaseEquipment,
+  fromDatabaseImage,
+  fromDatabaseJob,
+  fromDatabaseReport,
+  toDatabaseChange,
+  toDatabaseConflict,
+  toDatabaseEquipment,
+  toDatabaseImage,
+  toDatabaseJob,
+  toDatabaseReport,
+  toISOString,
+} from "./serializers";
+export {
+  clearDatabase,
+  closeDatabase,
+  isQuotaExceeded,
+  openDatabase,
+  requestToPromise,
+  runTransaction,
+} from "./connection";
+export {
+  EquipmentRepository,
+  getEquipmentRepository,
+} from "./equipmentRepository";
+export { ReportRepository, getReportRepository } from "./reportRepository";
+export { ImageRepository, getImageRepository } from "./imageRepository";
+export {
+  EquipmentHistoryRepository,
+  getEquipmentHistoryRepository,
+} from "./equipmentHistoryRepository";
+export {
+  CaptureJobRepository,
+  getCaptureJobRepository,
+} from "./captureJobRepository";
+export {
+  ENCRYPTED_STORES,
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  getLockState,
+  isSealedData,
+  lock,
+  openRecords,
+  resetEncryptionState,
+  runBackgroundTask,
+  runWrite,
+  sealRecords,
+  storedBlobSize,
+  subscribeToLockState,
+  unlock,
+  type LockState,
+  type SealedData,
+} from "./encryption";
+export {
+  SYNCED_STORES,
+  SYNC_CONFLICTS_STORE,
+  SYNC_STATE_STORE,
+  newSyncState,
+  syncKey,
+  trackChanges,
+} from "./syncTracking";
@@ -0,0 +1,218 @@
+import { normalizeEquipmentType } from "@/services/equipmentTypes";
+import { SYNCED_STORES, newSyncState } from "./syncTracking";
+
+// Ordered schema upgrades for the IndexedDB database. Each step runs inside
+// the versionchange transaction, so a failing step aborts the whole upgrade
+// and the database stays at its previous version.
+//
+// Never edit a released step: add a new one with the next version number.
+
+export const DB_NAME = "hvac_scanner_db";
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Runs `update` over every record of a store; returning undefined leaves the
+// record untouched
+function transformRecords<From, To>(
+  transaction: IDBTransaction,
+  storeName: string,
+  update: (record: From) => To | undefined
+) {
+  const request = transaction.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const updated = update(cursor.value as From);
+    if (updated) cursor.update(updated);
+    cursor.continue();
+  };
+}
+
+// Record conversions as they were when version 3 was released. The live
+// serializers keep changing, and an old database upgraded today has to end
+// up exactly where it would have then. The type mapping is shared because
+// it only ever gains legacy spellings.
+type LegacyRecord = Record<string, unknown>;
+
+function legacyISOString(value: unknown): string {
+  const date =
+    value === undefined ? new Date() : new Date(value as Date | string);
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+function legacyEquipment(record: LegacyRecord): LegacyRecord {
+  return {
+    ...record,
+    ...(record.equipmentType
+      ? {
+          equipmentType:
+            normalizeEquipmentType(record.equipmentType) ?? "other",
+        }
+      : {}),
+    createdAt: legacyISOString(record.createdAt),
+    updatedAt: legacyISOString(record.updatedAt),
+  };
+}
+
+function legacyCapturedImage(record: LegacyRecord): LegacyRecord {
+  const image: LegacyRecord = {
+    ...record,
+    capturedAt: legacyISOString(record.capturedAt),
+  };
+  delete image.url;
+  return image;
+}
+
+function legacyReport(record: LegacyRecord): LegacyRecord {
+  const { equipment, ...rest } = record;
+  const images = (value: unknown) =>
+    ((value as LegacyRecord[] | undefined) ?? []).map(legacyCapturedImage);
+  return {
+    ...rest,
+    equipmentId:
+      rest.equipmentId || (equipment as LegacyRecord | undefined)?.id,
+    labelImages: images(record.labelImages),
+    equipmentImages: images(record.equipmentImages),
+    createdAt: legacyISOString(record.createdAt),
+    completedAt: record.completedAt
+      ? legacyISOString(record.completedAt)
+      : undefined,
+  };
+}
+
+function legacyImage(record: LegacyRecord): LegacyRecord {
+  return { ...record, capturedAt: legacyISOString(record.capturedAt) };
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create equipment, reports and images stores",
+    migrate: (db) => {
+      const equipmentStore = db.createObjectStore("equipment", {
+        keyPath: "id",
+      });
+      equipmentStore.createIndex("createdAt", "createdAt");
+      equipmentStore.createIndex("brand", "brand");
+      equipmentStore.createIndex("equipmentType", "equipmentType");
+
+      const reportsStore = db.createObjectStore("reports", { keyPath: "id" });
+      reportsStore.createIndex("equipmentId", "equipmentId");
+      reportsStore.createIndex("createdAt", "createdAt");
+      reportsStore.createIndex("status", "status");
+
+      const imagesStore = db.createObjectStore("images", { keyPath: "id" });
+      imagesStore.createIndex("equipmentId", "equipmentId");
+      imagesStore.createIndex("type", "type");
+      imagesStore.createIndex("capturedAt", "capturedAt");
+    },
+  },
+  {
+    version: 2,
+    description: "Index equipment by AHRI reference",
+    migrate: (db, transaction) => {
+      transaction
+        .objectStore("equipment")
+        .createIndex("ahriNumber", "ahriNumber");
+    },
+  },
+  {
+    version: 3,
+    description:
+      "Store dates as ISO strings, move equipment out of reports and index images by report",
+    migrate: (db, transaction) => {
+      transaction.objectStore("images").createIndex("reportId", "reportId");
+
+      transformRecords(transaction, "equipment", legacyEquipment);
+
+      // Reports used to embed a copy of their equipment; keep it in the
+      // equipment store unless a record for it is already there
+      const equipmentStore = transaction.objectStore("equipment");
+      transformRecords<LegacyRecord, LegacyRecord>(
+        transaction,
+        "reports",
+        (record) => {
+          const embedded = record.equipment as LegacyRecord | undefined;
+          if (embedded?.id) {
+            const equipment = legacyEquipment(embedded);
+            const existing = equipmentStore.get(equipment.id as string);
+            existing.onsuccess = () => {
+              if (!existing.result) equipmentStore.put(equipment);
+            };
+          }
+          return legacyReport(record);
+        }
+      );
+
+      transformRecords(transaction, "images", legacyImage);
+    },
+  },
+  {
+    version: 4,
+    description: "Create the append-only equipment change log",
+    migrate: (db) => {
+      const historyStore = db.createObjectStore("equipmentHistory", {
+        keyPath: "id",
+      });
+      historyStore.createIndex("equipmentId", "equipmentId");
+      historyStore.createIndex("changedAt", "changedAt");
+    },
+  },
+  {
+    version: 5,
+    description: "Create the meta store for encryption settings",
+    migrate: (db) => {
+      db.createObjectStore("meta", { keyPath: "key" });
+    },
+  },
+  {
+    version: 6,
+    description:
+      "Create sync state and conflict stores and mark existing records for upload",
+    migrate: (db, transaction) => {
+      const stateStore = db.createObjectStore("syncState", { keyPath: "key" });
+      stateStore.createIndex("dirty", "dirty");
+
+      const conflictsStore = db.createObjectStore("syncConflicts", {
+        keyPath: "id",
+      });
+      conflictsStore.createIndex("recordId", "recordId");
+
+      // Records saved before sync existed have never been pushed
+      for (const store of SYNCED_STORES) {
+        const request = transaction.objectStore(store).getAllKeys();
+        request.onsuccess = () => {
+          for (const key of request.result) {
+            stateStore.put(newSyncState(store, String(key), 1));
+          }
+        };
+      }
+    },
+  },
+  {
+    version: 7,
+    description: "Create the capture job queue",
+    migrate: (db) => {
+      const jobsStore = db.createObjectStore("captureJobs", { keyPath: "id" });
+      jobsStore.createIndex("reportId", "reportId");
+    },
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number
+) {
+  for (const migration of MIGRATIONS) {
+    if (migration.version > oldVersion) {
+      migration.migrate(db, transaction);
+    }
+  }
+}
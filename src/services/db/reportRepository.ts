@@ -0,0 +1,176 @@
+import type {
+  DatabaseEquipment,
+  DatabaseInspectionReport,
+  EquipmentChange,
+  InspectionReport,
+  StoredImage,
+} from "@/types";
+import { requestToPromise, runTransaction } from "./connection";
+import { openRecords, runWrite, sealRecords } from "./encryption";
+import {
+  fromDatabaseEquipment,
+  fromDatabaseReport,
+  toDatabaseChange,
+  toDatabaseEquipment,
+  toDatabaseImage,
+  toDatabaseReport,
+  toISOString,
+} from "./serializers";
+import { SYNC_STATE_STORE, trackChanges } from "./syncTracking";
+
+const STORES = ["equipment", "reports"];
+
+// Reports are stored without their equipment; reads join it back from the
+// equipment store in the same transaction.
+export class ReportRepository {
+  async get(id: string): Promise<InspectionReport | null> {
+    const [report] = await this.query((store) => store.get(id));
+    return report ?? null;
+  }
+
+  async getAll(): Promise<InspectionReport[]> {
+    return this.query((store) => store.getAll());
+  }
+
+  async findByEquipmentId(equipmentId: string): Promise<InspectionReport[]> {
+    return this.query((store) =>
+      store.index("equipmentId").getAll(equipmentId)
+    );
+  }
+
+  async findByStatus(
+    status: InspectionReport["status"]
+  ): Promise<InspectionReport[]> {
+    return this.query((store) => store.index("status").getAll(status));
+  }
+
+  // Inclusive on both ends; ISO strings sort chronologically
+  async findByDateRange(from: Date, to: Date): Promise<InspectionReport[]> {
+    const range = IDBKeyRange.bound(toISOString(from), toISOString(to));
+    return this.query((store) => store.index("createdAt").getAll(range));
+  }
+
+  // Writes the report, its equipment, its photos and the equipment's change
+  // log entries in one transaction so a failure never leaves a report
+  // pointing at missing images or history describing an unsaved edit
+  async save(
+    report: InspectionReport,
+    images: StoredImage[] = [],
+    changes: EquipmentChange[] = []
+  ): Promise<void> {
+    return runWrite(async () => {
+      const [[equipmentRecord], [reportRecord], imageRecords, changeRecords] =
+        await Promise.all([
+          sealRecords("equipment", [toDatabaseEquipment(report.equipment)]),
+          sealRecords("reports", [toDatabaseReport(report)]),
+          sealRecords("images", images.map(toDatabaseImage)),
+          sealRecords("equipmentHistory", changes.map(toDatabaseChange)),
+        ]);
+
+      await runTransaction(
+        [...STORES, "images", "equipmentHistory", SYNC_STATE_STORE],
+        "readwrite",
+        async (transaction) => {
+          trackChanges(transaction, "equipment", [report.equipment.id]);
+          trackChanges(transaction, "reports", [report.id]);
+          trackChanges(
+            transaction,
+            "images",
+            images.map((image) => image.id)
+          );
+          const imagesStore = transaction.objectStore("images");
+          const historyStore = transaction.objectStore("equipmentHistory");
+          await Promise.all([
+            requestToPromise(
+              transaction.objectStore("equipment").put(equipmentRecord)
+            ),
+            requestToPromise(
+              transaction.objectStore("reports").put(reportRecord)
+            ),
+            ...imageRecords.map((record) =>
+              requestToPromise(imagesStore.put(record))
+            ),
+            ...changeRecords.map((record) =>
+              requestToPromise(historyStore.add(record))
+            ),
+          ]);
+        }
+      );
+    });
+  }
+
+  // Deletes the report and its photos; the equipment is kept because other
+  // reports may refer to it
+  async delete(id: string): Promise<void> {
+    return runWrite(async () => {
+      await runTransaction(
+        ["reports", "images", SYNC_STATE_STORE],
+        "readwrite",
+        async (transaction) => {
+          const imagesStore = transaction.objectStore("images");
+          const imageIds = await requestToPromise(
+            imagesStore.index("reportId").getAllKeys(id)
+          );
+          trackChanges(transaction, "reports", [id], true);
+          trackChanges(transaction, "images", imageIds.map(String), true);
+          await Promise.all([
+            requestToPromise(transaction.objectStore("reports").delete(id)),
+            ...imageIds.map((imageId) =>
+              requestToPromise(imagesStore.delete(imageId))
+            ),
+          ]);
+        }
+      );
+    });
+  }
+
+  // Reports and their equipment are read in one transaction and opened
+  // afterwards, outside it
+  private async query(
+    read: (store: IDBObjectStore) => IDBRequest
+  ): Promise<InspectionReport[]> {
+    const [storedReports, storedEquipment] = await runTransaction(
+      STORES,
+      "readonly",
+      async (transaction) => {
+        const result = await requestToPromise<unknown>(
+          read(transaction.objectStore("reports"))
+        );
+        const reports = Array.isArray(result) ? result : result ? [result] : [];
+        const store = transaction.objectStore("equipment");
+        const equipmentIds = [
+          ...new Set(
+            reports.map(
+              (record: Pick<DatabaseInspectionReport, "equipmentId">) =>
+                record.equipmentId
+            )
+          ),
+        ];
+        const equipment = await Promise.all(
+          equipmentIds.map((id) => requestToPromise<unknown>(store.get(id)))
+        );
+        return [reports, equipment.filter(Boolean)];
+      }
+    );
+
+    const [records, equipment] = await Promise.all([
+      openRecords<DatabaseInspectionReport>("reports", storedReports),
+      openRecords<DatabaseEquipment>("equipment", storedEquipment),
+    ]);
+    const equipmentById = new Map(
+      equipment.map((record) => [record.id, fromDatabaseEquipment(record)])
+    );
+    return records.map((record) =>
+      fromDatabaseReport(record, equipmentById.get(record.equipmentId))
+    );
+  }
+}
+
+let instance: ReportRepository | null = null;
+
+export function getReportRepository(): ReportRepository {
+  if (!instance) {
+    instance = new ReportRepository();
+  }
+  return instance;
+}
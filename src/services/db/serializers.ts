@@ -0,0 +1,164 @@
+import type {
+  CaptureJob,
+  CapturedImage,
+  DatabaseCaptureJob,
+  DatabaseCapturedImage,
+  DatabaseEquipment,
+  DatabaseEquipmentChange,
+  DatabaseInspectionReport,
+  DatabaseStoredImage,
+  DatabaseSyncConflict,
+  EquipmentChange,
+  HVACEquipment,
+  InspectionReport,
+  StoredImage,
+  SyncConflict,
+} from "@/types";
+import { normalizeEquipmentType } from "@/services/equipmentTypes";
+import { withoutUrl } from "@/services/imageStorage";
+
+// Conversions between the domain types and the records kept in IndexedDB.
+// Dates are stored as ISO strings so records survive export and sync, and
+// readers accept raw Date values too in case a record predates version 3.
+
+// A missing or unparseable date is replaced by the current time rather than
+// failing the write (or, during a migration, the whole upgrade)
+export function toISOString(value: Date | string | undefined): string {
+  const date = value === undefined ? new Date() : new Date(value);
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+// Records written before the taxonomy was unified can hold legacy type
+// values ("RTU", "Split_System", "RTU (Rooftop Unit)")
+function withCanonicalType<T extends { equipmentType?: string }>(record: T): T {
+  if (!record.equipmentType) return record;
+  return {
+    ...record,
+    equipmentType: normalizeEquipmentType(record.equipmentType) ?? "other",
+  };
+}
+
+export function toDatabaseEquipment(
+  equipment: HVACEquipment
+): DatabaseEquipment {
+  return withCanonicalType({
+    ...equipment,
+    createdAt: toISOString(equipment.createdAt),
+    updatedAt: toISOString(equipment.updatedAt),
+  });
+}
+
+export function fromDatabaseEquipment(
+  record: DatabaseEquipment
+): HVACEquipment {
+  return withCanonicalType({
+    ...record,
+    createdAt: toDate(record.createdAt),
+    updatedAt: toDate(record.updatedAt),
+  });
+}
+
+function toDatabaseCapturedImage(image: CapturedImage): DatabaseCapturedImage {
+  return {
+    ...withoutUrl(image),
+    capturedAt: toISOString(image.capturedAt),
+  };
+}
+
+function fromDatabaseCapturedImage(
+  record: DatabaseCapturedImage
+): CapturedImage {
+  return { ...record, capturedAt: toDate(record.capturedAt) };
+}
+
+export function toDatabaseReport(
+  report: InspectionReport
+): DatabaseInspectionReport {
+  const { equipment, ...rest } = report;
+  return {
+    ...rest,
+    equipmentId: rest.equipmentId || equipment.id,
+    labelImages: report.labelImages.map(toDatabaseCapturedImage),
+    equipmentImages: report.equipmentImages.map(toDatabaseCapturedImage),
+    createdAt: toISOString(report.createdAt),
+    completedAt: report.completedAt && toISOString(report.completedAt),
+  };
+}
+
+// `equipment` comes from the equipment store; a report whose equipment was
+// deleted keeps a placeholder so it can still be opened
+export function fromDatabaseReport(
+  record: DatabaseInspectionReport,
+  equipment?: HVACEquipment
+): InspectionReport {
+  const createdAt = toDate(record.createdAt);
+  return {
+    ...record,
+    equipment: equipment ?? {
+      id: record.equipmentId,
+      brand: "Unknown equipment",
+      createdAt,
+      updatedAt: createdAt,
+    },
+    labelImages: (record.labelImages ?? []).map(fromDatabaseCapturedImage),
+    equipmentImages: (record.equipmentImages ?? []).map(
+      fromDatabaseCapturedImage
+    ),
+    inspectionResult:
+      record.inspectionResult && withCanonicalType(record.inspectionResult),
+    createdAt,
+    completedAt: record.completedAt ? toDate(record.completedAt) : undefined,
+  };
+}
+
+export function toDatabaseImage(image: StoredImage): DatabaseStoredImage {
+  return { ...image, capturedAt: toISOString(image.capturedAt) };
+}
+
+export function fromDatabaseImage(record: DatabaseStoredImage): StoredImage {
+  return { ...record, capturedAt: toDate(record.capturedAt) };
+}
+
+export function toDatabaseChange(
+  change: EquipmentChange
+): DatabaseEquipmentChange {
+  return { ...change, changedAt: toISOString(change.changedAt) };
+}
+
+export function fromDatabaseChange(
+  record: DatabaseEquipmentChange
+): EquipmentChange {
+  return { ...record, changedAt: toDate(record.changedAt) };
+}
+
+export function toDatabaseConflict(
+  conflict: SyncConflict
+): DatabaseSyncConflict {
+  return { ...conflict, detectedAt: toISOString(conflict.detectedAt) };
+}
+
+export function fromDatabaseConflict(
+  record: DatabaseSyncConflict
+): SyncConflict {
+  return { ...record, detectedAt: toDate(record.detectedAt) };
+}
+
+export function toDatabaseJob(job: CaptureJob): DatabaseCaptureJob {
+  return {
+    ...job,
+    nextAttemptAt: toISOString(job.nextAttemptAt),
+    createdAt: toISOString(job.createdAt),
+  };
+}
+
+export function fromDatabaseJob(record: DatabaseCaptureJob): CaptureJob {
+  return {
+    ...record,
+    nextAttemptAt: toDate(record.nextAttemptAt),
+    createdAt: toDate(record.createdAt),
+  };
+}
@@ -0,0 +1,52 @@
+import type { SyncState, SyncStoreName } from "@/types";
+
+// Local bookkeeping for sync: every write to a synced store bumps the
+// record's dirty counter in the same transaction, so no change can be saved
+// without also being queued for upload. Deletions leave a tombstone.
+
+export const SYNCED_STORES: SyncStoreName[] = [
+  "equipment",
+  "reports",
+  "images",
+];
+export const SYNC_STATE_STORE = "syncState";
+export const SYNC_CONFLICTS_STORE = "syncConflicts";
+
+export function syncKey(store: SyncStoreName, recordId: string): string {
+  return `${store}:${recordId}`;
+}
+
+export function newSyncState(
+  store: SyncStoreName,
+  recordId: string,
+  dirty = 0
+): SyncState {
+  return {
+    key: syncKey(store, recordId),
+    store,
+    recordId,
+    revision: null,
+    dirty,
+    deleted: false,
+  };
+}
+
+// Marks records of `store` as changed (or deleted) on this device. Runs on
+// request callbacks so the caller's transaction must include the sync state
+// store; a failure aborts that transaction with the write it belongs to.
+// Sealed fields of an existing state are carried over untouched.
+export function trackChanges(
+  transaction: IDBTransaction,
+  store: SyncStoreName,
+  recordIds: string[],
+  deleted = false
+) {
+  const stateStore = transaction.objectStore(SYNC_STATE_STORE);
+  for (const recordId of new Set(recordIds)) {
+    const request = stateStore.get(syncKey(store, recordId));
+    request.onsuccess = () => {
+      const state: SyncState = request.result ?? newSyncState(store, recordId);
+      stateStore.put({ ...state, dirty: state.dirty + 1, deleted });
+    };
+  }
+}
@@ -0,0 +1,53 @@
+// Manufacturer families that share serial and model numbering schemes
+export type BrandFamily =
+  | "carrier"
+  | "trane"
+  | "lennox"
+  | "goodman"
+  | "rheem"
+  | "icp"
+  | "york";
+
+const BRAND_FAMILIES: Record<BrandFamily, string[]> = {
+  carrier: ["carrier", "bryant", "payne"],
+  trane: ["trane", "american standard", "runtru"],
+  lennox: ["lennox"],
+  goodman: ["goodman", "amana", "daikin", "janitrol"],
+  rheem: ["rheem", "ruud"],
+  icp: [
+    "icp",
+    "heil",
+    "tempstar",
+    "comfortmaker",
+    "arcoaire",
+    "keeprite",
+    "day & night",
+    "day and night",
+  ],
+  york: ["york", "coleman", "luxaire", "champion"],
+};
+
+export function getBrandFamily(brand?: string): BrandFamily | null {
+  const name = brand?.trim().toLowerCase();
+  if (!name) return null;
+
+  for (const [family, names] of Object.entries(BRAND_FAMILIES)) {
+    if (names.some((candidate) => name.startsWith(candidate))) {
+      return family as BrandFamily;
+    }
+  }
+  return null;
+}
+
+// Serial and model numbers are compared without spacing or punctuation
+export function cleanCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// Display name for explanations ("Carrier serial ...", "Ruud serial ...")
+export function brandLabel(brand: string): string {
+  return brand
+    .trim()
+    .toLowerCase()
+    .replace(/\b\w/g, (letter) => letter.toUpperCase());
+}
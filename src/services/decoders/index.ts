@@ -0,0 +1,206 @@
+import type { HVACEquipmentWithMetadata } from "@/types";
+import { parseCapacity, parseVoltage } from "@/services/normalization";
+import { cleanCode } from "./brands";
+import { decodeModelNumber, type ModelDecoding } from "./modelNumber";
+import { decodeSerialDate } from "./serialDate";
+
+export { decodeSerialDate, type SerialDateDecoding } from "./serialDate";
+export {
+  decodeModelNumber,
+  formatTons,
+  type DecodedField,
+  type ModelDecoding,
+} from "./modelNumber";
+export { getBrandFamily, type BrandFamily } from "./brands";
+
+type Metadata = NonNullable<HVACEquipmentWithMetadata["fieldMetadata"]>;
+
+// Working copy shared by the individual decoder steps
+interface DecoderContext {
+  equipment: HVACEquipmentWithMetadata;
+  fieldMetadata: Metadata;
+  scanWarnings: string[];
+}
+
+// Months apart before a decoded date counts as a contradiction; week-based
+// codes only pin the date down to the start of the week
+const DATE_TOLERANCE_MONTHS = 1;
+
+// Rated capacity on a nameplate is often a little under the nominal size
+// encoded in the model (34,800 BTU/h on a 3-ton unit)
+const CAPACITY_TOLERANCE = 0.15;
+
+const MODEL_FIELDS = [
+  "series",
+  "equipmentType",
+  "capacity",
+  "btu",
+  "voltage",
+  "refrigerantType",
+] as const;
+
+type ModelField = (typeof MODEL_FIELDS)[number];
+
+const MODEL_FIELD_LABELS: Record<ModelField, string> = {
+  series: "series",
+  equipmentType: "equipment type",
+  capacity: "capacity",
+  btu: "BTU",
+  voltage: "voltage",
+  refrigerantType: "refrigerant",
+};
+
+function monthsApart(a: string, b: string): number {
+  const first = new Date(a);
+  const second = new Date(b);
+  if (isNaN(first.getTime()) || isNaN(second.getTime())) return Infinity;
+  return Math.abs(
+    (first.getFullYear() - second.getFullYear()) * 12 +
+      first.getMonth() -
+      second.getMonth()
+  );
+}
+
+function withinTolerance(a: number, b: number, tolerance: number) {
+  return Math.abs(a - b) <= tolerance * Math.max(a, b);
+}
+
+// Only contradictions that can be told apart reliably count; values that
+// cannot be parsed are left alone
+function contradicts(
+  field: ModelField,
+  current: string | number,
+  decoded: string | number
+): boolean {
+  switch (field) {
+    case "btu":
+      return !withinTolerance(
+        Number(current),
+        Number(decoded),
+        CAPACITY_TOLERANCE
+      );
+    case "capacity": {
+      const scanned = parseCapacity(String(current));
+      const expected = parseCapacity(String(decoded));
+      return (
+        !!scanned &&
+        !!expected &&
+        !withinTolerance(scanned.tons, expected.tons, CAPACITY_TOLERANCE)
+      );
+    }
+    case "voltage": {
+      const scanned = parseVoltage(String(current));
+      const expected = parseVoltage(String(decoded));
+      return (
+        !!scanned &&
+        !!expected &&
+        (scanned.maxVolts !== expected.maxVolts ||
+          (!!scanned.phase &&
+            !!expected.phase &&
+            scanned.phase !== expected.phase))
+      );
+    }
+    default:
+      return cleanCode(String(current)) !== cleanCode(String(decoded));
+  }
+}
+
+// A decoded manufacture date replaces a guessed one; a date printed on the
+// label (source "scanned") is kept and a disagreement becomes a warning.
+function applySerialDate({
+  equipment,
+  fieldMetadata,
+  scanWarnings,
+}: DecoderContext) {
+  const decodedDate = decodeSerialDate(equipment.brand, equipment.serialNumber);
+  if (!decodedDate) return;
+
+  const current = equipment.manufactureDate;
+  const metadata = fieldMetadata.manufactureDate;
+
+  if (current && metadata?.source === "scanned") {
+    if (monthsApart(current, decodedDate.date) <= DATE_TOLERANCE_MONTHS) {
+      fieldMetadata.manufactureDate = {
+        ...metadata,
+        confidence: Math.max(metadata.confidence ?? 0, decodedDate.confidence),
+        inferenceBasis: `Confirmed by ${decodedDate.basis}`,
+      };
+    } else {
+      scanWarnings.push(
+        `Manufacture date ${current} does not match the serial number (${decodedDate.basis})`
+      );
+    }
+    return;
+  }
+
+  equipment.manufactureDate = decodedDate.date;
+  fieldMetadata.manufactureDate = {
+    source: "ai_inferred",
+    confidence: decodedDate.confidence,
+    inferenceBasis: decodedDate.basis,
+    sourceImage: fieldMetadata.serialNumber?.sourceImage,
+  };
+}
+
+// Missing or guessed fields are filled from the model number; values read
+// off the label are kept and contradictions become warnings.
+function applyModelNumber({
+  equipment,
+  fieldMetadata,
+  scanWarnings,
+}: DecoderContext) {
+  const decoded: ModelDecoding | null = decodeModelNumber(
+    equipment.brand,
+    equipment.model
+  );
+  if (!decoded) return;
+
+  for (const field of MODEL_FIELDS) {
+    const decodedField = decoded[field];
+    if (!decodedField) continue;
+
+    const current = equipment[field];
+    const isScanned =
+      current !== undefined &&
+      current !== "" &&
+      fieldMetadata[field]?.source !== "ai_inferred";
+
+    if (isScanned) {
+      if (contradicts(field, current, decodedField.value)) {
+        scanWarnings.push(
+          `Scanned ${MODEL_FIELD_LABELS[field]} "${current}" does not match the model number (${decodedField.basis})`
+        );
+      }
+      continue;
+    }
+
+    Object.assign(equipment, { [field]: decodedField.value });
+    fieldMetadata[field] = {
+      source: "ai_inferred",
+      confidence: decoded.confidence,
+      inferenceBasis: decodedField.basis,
+      sourceImage: fieldMetadata.model?.sourceImage,
+    };
+  }
+}
+
+// Runs the deterministic decoders over a label scan. Values encoded in the
+// serial and model numbers win over the vision model's guesses.
+export function applyDecoders(
+  equipment: HVACEquipmentWithMetadata
+): HVACEquipmentWithMetadata {
+  const context: DecoderContext = {
+    equipment: { ...equipment },
+    fieldMetadata: { ...equipment.fieldMetadata },
+    scanWarnings: [...(equipment.scanWarnings ?? [])],
+  };
+
+  applySerialDate(context);
+  applyModelNumber(context);
+
+  return {
+    ...context.equipment,
+    fieldMetadata: context.fieldMetadata,
+    scanWarnings: context.scanWarnings,
+  };
+}
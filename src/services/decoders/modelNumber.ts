@@ -0,0 +1,266 @@
+import type { HVACEquipment } from "@/types";
+import { brandLabel, cleanCode, getBrandFamily } from "./brands";
+
+export interface DecodedField<T> {
+  value: T;
+  basis: string; // e.g. "Goodman model GSX140481KB: capacity code 048 = 4 tons"
+}
+
+export interface ModelDecoding {
+  series?: DecodedField<string>;
+  equipmentType?: DecodedField<NonNullable<HVACEquipment["equipmentType"]>>;
+  capacity?: DecodedField<string>;
+  btu?: DecodedField<number>;
+  voltage?: DecodedField<string>;
+  refrigerantType?: DecodedField<string>;
+  confidence: number;
+}
+
+// Brand-specific layouts are documented nomenclature; the generic capacity
+// code is a best guess that also matches unrelated digits
+const BRAND_RULE_CONFIDENCE = 0.85;
+const GENERIC_RULE_CONFIDENCE = 0.6;
+
+// Nominal capacity codes in thousands of BTU/h: 018 = 1.5 tons ... 060 = 5 tons
+const CAPACITY_CODES = [18, 24, 30, 36, 42, 48, 60];
+
+const VOLTAGE_1PH = "208/230V 1-phase";
+const VOLTAGE_3PH = "208/230V 3-phase";
+const VOLTAGE_460 = "460V 3-phase";
+
+const CARRIER_VOLTAGE: Record<string, string> = {
+  "3": VOLTAGE_1PH,
+  "5": VOLTAGE_3PH,
+  "6": VOLTAGE_460,
+};
+
+const GOODMAN_VOLTAGE: Record<string, string> = {
+  "1": VOLTAGE_1PH,
+  "3": VOLTAGE_3PH,
+  "4": VOLTAGE_460,
+};
+
+const TRANE_VOLTAGE: Record<string, string> = {
+  "1": VOLTAGE_1PH,
+  "3": VOLTAGE_3PH,
+  "4": VOLTAGE_460,
+};
+
+const LENNOX_VOLTAGE: Record<string, string> = {
+  "230": VOLTAGE_1PH,
+  "260": VOLTAGE_3PH,
+  "460": VOLTAGE_460,
+};
+
+const RHEEM_VOLTAGE: Record<string, string> = {
+  J: VOLTAGE_1PH,
+  C: VOLTAGE_3PH,
+  D: VOLTAGE_460,
+};
+
+export function formatTons(tons: number): string {
+  return tons === 1 ? "1 ton" : `${tons} tons`;
+}
+
+function capacityFields(
+  thousands: number,
+  prefix: string,
+  code: string
+): Pick<ModelDecoding, "capacity" | "btu"> {
+  const tons = thousands / 12;
+  const basis = `${prefix}: capacity code ${code} = ${formatTons(tons)}`;
+  return {
+    capacity: { value: formatTons(tons), basis },
+    btu: { value: thousands * 1000, basis },
+  };
+}
+
+function voltageField(
+  table: Record<string, string>,
+  code: string,
+  prefix: string,
+  what = "voltage code"
+): Pick<ModelDecoding, "voltage"> {
+  const voltage = table[code];
+  return voltage
+    ? {
+        voltage: {
+          value: voltage,
+          basis: `${prefix}: ${what} ${code} = ${voltage}`,
+        },
+      }
+    : {};
+}
+
+// Decodes nominal capacity, voltage, type, series and refrigerant generation
+// from a model number. Returns null when nothing in the model is recognised.
+export function decodeModelNumber(
+  brand: string | undefined,
+  modelNumber: string | undefined
+): ModelDecoding | null {
+  if (!modelNumber) return null;
+
+  const model = cleanCode(modelNumber);
+  const family = getBrandFamily(brand);
+  const prefix = `${
+    brand ? `${brandLabel(brand)} ` : ""
+  }model ${modelNumber.trim()}`;
+  let match: RegExpMatchArray | null;
+
+  switch (family) {
+    // 24/25 + series letters + SEER tier + 2-digit capacity + design letter
+    // + 3-digit code whose last digit is the voltage: 24ACC636A003
+    case "carrier":
+      match = model.match(/^(2[45])([A-Z]{3}\d)(\d{2})[A-Z]\d{2}(\d)$/);
+      if (match && CAPACITY_CODES.includes(Number(match[3]))) {
+        const isHeatPump = match[1] === "25";
+        return {
+          series: {
+            value: `${match[1]}${match[2]}`,
+            basis: `${prefix}: series ${match[1]}${match[2]}`,
+          },
+          equipmentType: {
+            value: isHeatPump ? "heat_pump" : "air_conditioner",
+            basis: `${prefix}: prefix ${match[1]} = ${
+              isHeatPump ? "heat pump" : "air conditioner"
+            }`,
+          },
+          ...capacityFields(Number(match[3]), prefix, match[3]),
+          ...voltageField(CARRIER_VOLTAGE, match[4], prefix),
+          confidence: BRAND_RULE_CONFIDENCE,
+        };
+      }
+      break;
+
+    // GSX (AC) / GSZ (heat pump) + SEER + 3-digit capacity + voltage digit
+    // + revision: GSX140481KB. The whole GSX/GSZ line is R-410A.
+    case "goodman":
+      match = model.match(/^GS([XZ])(\d{2})(\d{3})(\d)/);
+      if (match && CAPACITY_CODES.includes(Number(match[3]))) {
+        const isHeatPump = match[1] === "Z";
+        return {
+          series: {
+            value: `GS${match[1]}${match[2]}`,
+            basis: `${prefix}: series GS${match[1]}, ${match[2]} SEER`,
+          },
+          equipmentType: {
+            value: isHeatPump ? "heat_pump" : "air_conditioner",
+            basis: `${prefix}: GS${match[1]} = ${
+              isHeatPump ? "heat pump" : "air conditioner"
+            }`,
+          },
+          ...capacityFields(Number(match[3]), prefix, match[3]),
+          ...voltageField(GOODMAN_VOLTAGE, match[4], prefix, "voltage digit"),
+          refrigerantType: {
+            value: "R-410A",
+            basis: `${prefix}: GS${match[1]} series uses R-410A`,
+          },
+          confidence: BRAND_RULE_CONFIDENCE,
+        };
+      }
+      break;
+
+    // Refrigerant generation (2 = R-22, 4 = R-410A) + TTR (AC) / TWR (heat
+    // pump) + series digit + 3-digit capacity + design letter + voltage digit:
+    // 4TTR4036L1000A
+    case "trane":
+      match = model.match(/^([24])T([TW])R(\d)(\d{3})[A-Z](\d)/);
+      if (match && CAPACITY_CODES.includes(Number(match[4]))) {
+        const isHeatPump = match[2] === "W";
+        const refrigerant = match[1] === "4" ? "R-410A" : "R-22";
+        return {
+          series: {
+            value: `${match[1]}T${match[2]}R${match[3]}`,
+            basis: `${prefix}: series ${match[1]}T${match[2]}R${match[3]}`,
+          },
+          equipmentType: {
+            value: isHeatPump ? "heat_pump" : "air_conditioner",
+            basis: `${prefix}: T${match[2]}R = ${
+              isHeatPump ? "heat pump" : "air conditioner"
+            }`,
+          },
+          ...capacityFields(Number(match[4]), prefix, match[4]),
+          ...voltageField(TRANE_VOLTAGE, match[5], prefix, "voltage digit"),
+          refrigerantType: {
+            value: refrigerant,
+            basis: `${prefix}: leading ${match[1]} = ${refrigerant} generation`,
+          },
+          confidence: BRAND_RULE_CONFIDENCE,
+        };
+      }
+      break;
+
+    // SERIES-CAPACITY-VOLTAGE, e.g. XC16-036-230 or ML14XC1-036-230. The
+    // dashes carry the structure, so this one is matched on the raw model.
+    case "lennox":
+      match = modelNumber
+        .toUpperCase()
+        .replace(/\s+/g, "")
+        .match(/^([A-Z0-9]{3,8})-(\d{3})-(\d{3})/);
+      if (match && CAPACITY_CODES.includes(Number(match[2]))) {
+        const typeCode = match[1].match(/XP|XC|AC/)?.[0];
+        const isHeatPump = typeCode === "XP";
+        return {
+          series: {
+            value: match[1],
+            basis: `${prefix}: series ${match[1]}`,
+          },
+          ...(typeCode && {
+            equipmentType: {
+              value: isHeatPump ? "heat_pump" : "air_conditioner",
+              basis: `${prefix}: ${typeCode} = ${
+                isHeatPump ? "heat pump" : "air conditioner"
+              }`,
+            },
+          }),
+          ...capacityFields(Number(match[2]), prefix, match[2]),
+          ...voltageField(LENNOX_VOLTAGE, match[3], prefix),
+          confidence: BRAND_RULE_CONFIDENCE,
+        };
+      }
+      break;
+
+    // RA (AC) / RP (heat pump) + SEER + optional series letters + 2-digit
+    // capacity + design letter + voltage letter: RA1436AJ1NA. RA/RP lines
+    // are R-410A.
+    case "rheem":
+      match = model.match(/^R([AP])(\d{2})([A-Z]{0,2})(\d{2})[A-Z]([JCD])/);
+      if (match && CAPACITY_CODES.includes(Number(match[4]))) {
+        const isHeatPump = match[1] === "P";
+        return {
+          series: {
+            value: `R${match[1]}${match[2]}${match[3]}`,
+            basis: `${prefix}: series R${match[1]}${match[2]}${match[3]}, ${match[2]} SEER`,
+          },
+          equipmentType: {
+            value: isHeatPump ? "heat_pump" : "air_conditioner",
+            basis: `${prefix}: R${match[1]} = ${
+              isHeatPump ? "heat pump" : "air conditioner"
+            }`,
+          },
+          ...capacityFields(Number(match[4]), prefix, match[4]),
+          ...voltageField(RHEEM_VOLTAGE, match[5], prefix, "voltage letter"),
+          refrigerantType: {
+            value: "R-410A",
+            basis: `${prefix}: R${match[1]} series uses R-410A`,
+          },
+          confidence: BRAND_RULE_CONFIDENCE,
+        };
+      }
+      break;
+  }
+
+  // Any brand: a single 018-060 capacity code in the model that does not
+  // continue a longer number (so "1024" is not read as 024)
+  const codes = (
+    modelNumber.toUpperCase().match(/(?<!\d)0(18|24|30|36|42|48|60)/g) ?? []
+  ).filter((code, index, all) => all.indexOf(code) === index);
+  if (codes.length === 1) {
+    return {
+      ...capacityFields(Number(codes[0].slice(1)), prefix, codes[0]),
+      confidence: GENERIC_RULE_CONFIDENCE,
+    };
+  }
+
+  return null;
+}
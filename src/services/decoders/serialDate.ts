@@ -0,0 +1,208 @@
+import { brandLabel, cleanCode, getBrandFamily } from "./brands";
+
+export interface SerialDateDecoding {
+  date: string; // YYYY-MM-DD, first day of the encoded week or month
+  year: number;
+  month: number; // 1-12
+  week?: number;
+  confidence: number;
+  basis: string; // e.g. "Carrier serial week 12 of 2016"
+}
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// Lennox and York encode the month as A-M, skipping I
+const MONTH_LETTERS = "ABCDEFGHJKLM";
+
+// York year letters repeat every 20 years: A=1984/2004/2024, skipping
+// I, O, Q, U, Y and Z
+const YORK_YEAR_LETTERS = "ABCDEFGHJKLMNPRSTVWX";
+const YORK_BASE_YEAR = 1984;
+
+// Fixed formats are unambiguous once the brand is known; York's letter
+// cycle has to guess the 20-year period
+const FIXED_FORMAT_CONFIDENCE = 0.9;
+const YORK_CONFIDENCE = 0.6;
+
+// Two-digit years resolve to the latest matching year that is not in the future
+function fullYear(twoDigits: number, now: Date): number {
+  const year = 2000 + twoDigits;
+  return year > now.getFullYear() ? year - 100 : year;
+}
+
+function fromWeek(
+  year: number,
+  week: number,
+  basis: string,
+  confidence = FIXED_FORMAT_CONFIDENCE
+): SerialDateDecoding | null {
+  if (week < 1 || week > 53) return null;
+  const date = new Date(Date.UTC(year, 0, 1 + (week - 1) * 7));
+  return {
+    date: date.toISOString().slice(0, 10),
+    year,
+    month: date.getUTCMonth() + 1,
+    week,
+    confidence,
+    basis,
+  };
+}
+
+function fromMonth(
+  year: number,
+  month: number,
+  basis: string,
+  confidence = FIXED_FORMAT_CONFIDENCE
+): SerialDateDecoding | null {
+  if (month < 1 || month > 12) return null;
+  return {
+    date: `${year}-${String(month).padStart(2, "0")}-01`,
+    year,
+    month,
+    confidence,
+    basis,
+  };
+}
+
+// Decodes the manufacture date encoded in a serial number. Returns null when
+// the brand is unknown or the serial does not match the brand's format.
+export function decodeSerialDate(
+  brand: string | undefined,
+  serialNumber: string | undefined,
+  now = new Date()
+): SerialDateDecoding | null {
+  const family = getBrandFamily(brand);
+  if (!brand || !family || !serialNumber) return null;
+
+  const serial = cleanCode(serialNumber);
+  const label = brandLabel(brand);
+  let match: RegExpMatchArray | null;
+  let decoded: SerialDateDecoding | null = null;
+
+  switch (family) {
+    // WWYY + plant letter + sequence: 1216E12345
+    case "carrier":
+      match = serial.match(/^(\d{2})(\d{2})[A-Z]\d{5}$/);
+      if (match) {
+        const year = fullYear(Number(match[2]), now);
+        const week = Number(match[1]);
+        decoded = fromWeek(
+          year,
+          week,
+          `${label} serial week ${week} of ${year}`
+        );
+      }
+      break;
+
+    // 2010 and later: YYWW + day of week + sequence/plant code: 1612312345
+    case "trane":
+      match = serial.match(/^(\d{2})(\d{2})\d[A-Z0-9]{4,5}$/);
+      if (match && Number(match[1]) >= 10) {
+        const year = fullYear(Number(match[1]), now);
+        const week = Number(match[2]);
+        decoded = fromWeek(
+          year,
+          week,
+          `${label} serial week ${week} of ${year}`
+        );
+      }
+      break;
+
+    // Plant (2 digits) + YY + month letter + sequence: 5816C12345
+    case "lennox":
+      match = serial.match(/^(\d{2})(\d{2})([A-HJ-M])\d{4,}$/);
+      if (match) {
+        const year = fullYear(Number(match[2]), now);
+        const month = MONTH_LETTERS.indexOf(match[3]) + 1;
+        decoded = fromMonth(
+          year,
+          month,
+          `${label} serial ${MONTH_NAMES[month - 1]} ${year} (plant ${
+            match[1]
+          })`
+        );
+      }
+      break;
+
+    // YYMM + sequence: 1608123456
+    case "goodman":
+      match = serial.match(/^(\d{2})(\d{2})\d{6}$/);
+      if (match) {
+        const year = fullYear(Number(match[1]), now);
+        const month = Number(match[2]);
+        decoded = fromMonth(
+          year,
+          month,
+          `${label} serial ${MONTH_NAMES[month - 1]} ${year}`
+        );
+      }
+      break;
+
+    // Plant letter(s) + WWYY + sequence: W161512345
+    case "rheem":
+      match = serial.match(/^([A-Z]{1,2})(\d{2})(\d{2})\d{5}$/);
+      if (match) {
+        const year = fullYear(Number(match[3]), now);
+        const week = Number(match[2]);
+        decoded = fromWeek(
+          year,
+          week,
+          `${label} serial week ${week} of ${year} (plant ${match[1]})`
+        );
+      }
+      break;
+
+    // Plant letter + YYWW + sequence: E161212345
+    case "icp":
+      match = serial.match(/^([A-Z])(\d{2})(\d{2})\d{5}$/);
+      if (match) {
+        const year = fullYear(Number(match[2]), now);
+        const week = Number(match[3]);
+        decoded = fromWeek(
+          year,
+          week,
+          `${label} serial week ${week} of ${year}`
+        );
+      }
+      break;
+
+    // Plant + product letter, month letter, year letter, sequence: WMCS123456
+    case "york":
+      match = serial.match(/^[A-Z]{2}([A-HJ-M])([A-HJ-NPRSTV-X])\d{6}$/);
+      if (match) {
+        const month = MONTH_LETTERS.indexOf(match[1]) + 1;
+        const offset = YORK_YEAR_LETTERS.indexOf(match[2]);
+        let year = YORK_BASE_YEAR + offset;
+        while (year + 20 <= now.getFullYear()) year += 20;
+        if (year === now.getFullYear() && month > now.getMonth() + 1) {
+          year -= 20;
+        }
+        decoded = fromMonth(
+          year,
+          month,
+          `${label} serial ${MONTH_NAMES[month - 1]} ${year} (year letter ${
+            match[2]
+          }, assuming the latest 20-year cycle)`,
+          YORK_CONFIDENCE
+        );
+      }
+      break;
+  }
+
+  // A date in the future means the serial was misread or is another format
+  if (decoded && new Date(decoded.date) > now) return null;
+  return decoded;
+}
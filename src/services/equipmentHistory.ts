@@ -0,0 +1,147 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  EquipmentChange,
+  FieldMetadata,
+  HVACEquipment,
+  HVACEquipmentWithMetadata,
+} from "@/types";
+
+// Builds the change log entries written when equipment is saved. A rescan
+// is logged with the scanner's source and confidence, and a value the
+// technician then corrects in the form is logged again as a manual change.
+
+export const EQUIPMENT_FIELD_LABELS: Partial<
+  Record<keyof HVACEquipment, string>
+> = {
+  brand: "Brand",
+  model: "Model",
+  series: "Series",
+  serialNumber: "Serial",
+  btu: "BTU",
+  voltage: "Voltage",
+  amperage: "Amperage",
+  refrigerantType: "Refrigerant",
+  phase: "Phase",
+  hertz: "Hz",
+  mca: "MCA",
+  mocp: "MOCP",
+  rla: "RLA",
+  lra: "LRA",
+  factoryCharge: "Charge",
+  ahriNumber: "AHRI",
+  seerRating: "SEER",
+  eerRating: "EER",
+  capacity: "Capacity",
+  equipmentType: "Type",
+  manufactureDate: "Mfg. Date",
+  location: "Location",
+};
+
+const TRACKED_FIELDS = Object.keys(
+  EQUIPMENT_FIELD_LABELS
+) as (keyof HVACEquipment)[];
+
+type FieldValue = string | number | undefined;
+
+// Empty inputs and the 0 the number inputs fall back to both mean "not set"
+function toFieldValue(value: unknown): FieldValue {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number") return value === 0 ? undefined : value;
+  return undefined;
+}
+
+interface ChangeContext {
+  // The stored record before this save; null for a new unit
+  previous: HVACEquipment | null;
+  // Readings from the label scan the form was filled from, if any
+  scanned?: HVACEquipmentWithMetadata | null;
+  saved: HVACEquipment;
+  technician?: string;
+  reportId?: string;
+  changedAt?: Date;
+}
+
+export function buildEquipmentChanges({
+  previous,
+  scanned,
+  saved,
+  technician,
+  reportId,
+  changedAt = new Date(),
+}: ChangeContext): EquipmentChange[] {
+  const changes: EquipmentChange[] = [];
+  const record = (
+    field: keyof HVACEquipment,
+    oldValue: FieldValue,
+    newValue: FieldValue,
+    metadata: FieldMetadata
+  ) =>
+    changes.push({
+      id: uuidv4(),
+      equipmentId: saved.id,
+      field,
+      oldValue,
+      newValue,
+      source: metadata.source,
+      confidence: metadata.confidence,
+      changedAt,
+      technician: technician || undefined,
+      reportId,
+    });
+
+  const scanMetadata = scanned?.fieldMetadata as
+    | Partial<Record<keyof HVACEquipment, FieldMetadata>>
+    | undefined;
+
+  for (const field of TRACKED_FIELDS) {
+    let current = toFieldValue(previous?.[field]);
+
+    const metadata = scanMetadata?.[field];
+    const scannedValue = toFieldValue(scanned?.[field]);
+    if (
+      metadata &&
+      metadata.source !== "manual" &&
+      scannedValue !== undefined &&
+      scannedValue !== current
+    ) {
+      record(field, current, scannedValue, metadata);
+      current = scannedValue;
+    }
+
+    const savedValue = toFieldValue(saved[field]);
+    if (savedValue === current) continue;
+
+    // Picking another reading of a conflicting field is not a manual edit
+    const candidate = scanned?.fieldConflicts
+      ?.find((conflict) => conflict.field === field)
+      ?.candidates.find((option) => toFieldValue(option.value) === savedValue);
+    record(
+      field,
+      current,
+      savedValue,
+      candidate
+        ? {
+            source: metadata?.source ?? "scanned",
+            confidence: candidate.confidence,
+          }
+        : { source: "manual" }
+    );
+  }
+  return changes;
+}
+
+// Change log entries grouped by field, oldest first within each field
+export function groupChangesByField(
+  changes: EquipmentChange[]
+): [keyof HVACEquipment, EquipmentChange[]][] {
+  const groups = new Map<keyof HVACEquipment, EquipmentChange[]>();
+  for (const change of [...changes].sort(
+    (a, b) => a.changedAt.getTime() - b.changedAt.getTime()
+  )) {
+    groups.set(change.field, [...(groups.get(change.field) ?? []), change]);
+  }
+  return TRACKED_FIELDS.filter((field) => groups.has(field)).map((field) => [
+    field,
+    groups.get(field)!,
+  ]);
+}
@@ -0,0 +1,160 @@
+import type { HVACEquipment } from "@/types";
+
+// A unit is identified by its brand and serial number. Label scans misread
+// look-alike characters, so serials are also compared with those folded
+// together and allowing a single wrong, missing or extra character.
+
+export type EquipmentMatchKind = "exact" | "fuzzy";
+
+export interface EquipmentMatch {
+  equipment: HVACEquipment;
+  kind: EquipmentMatchKind;
+}
+
+// Serials shorter than this are too generic to match on a near miss
+const FUZZY_MIN_LENGTH = 6;
+
+// Characters OCR confuses, folded onto the digit they are usually mistaken for
+const LOOKALIKES: Record<string, string> = {
+  O: "0",
+  Q: "0",
+  D: "0",
+  I: "1",
+  L: "1",
+  Z: "2",
+  S: "5",
+  G: "6",
+  B: "8",
+};
+
+function compact(value?: string): string {
+  return (value ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function normalizeBrand(brand?: string): string {
+  return compact(brand);
+}
+
+export function normalizeSerial(serial?: string): string {
+  return compact(serial);
+}
+
+// Serial with look-alike characters folded, e.g. "SO1-2B" -> "50128"
+export function foldSerial(serial?: string): string {
+  return normalizeSerial(serial).replace(
+    /[OQDILZSGB]/g,
+    (char) => LOOKALIKES[char]
+  );
+}
+
+// True when `a` becomes `b` with at most one substitution, insertion or
+// deletion
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < shorter.length && j < longer.length) {
+    if (shorter[i] === longer[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (shorter.length === longer.length) i++;
+    j++;
+  }
+  return edits + (longer.length - j) <= 1;
+}
+
+export function compareSerials(
+  a?: string,
+  b?: string
+): EquipmentMatchKind | null {
+  const left = normalizeSerial(a);
+  const right = normalizeSerial(b);
+  if (!left || !right) return null;
+  if (left === right) return "exact";
+
+  const foldedLeft = foldSerial(left);
+  const foldedRight = foldSerial(right);
+  if (foldedLeft === foldedRight) return "fuzzy";
+  if (
+    Math.min(foldedLeft.length, foldedRight.length) >= FUZZY_MIN_LENGTH &&
+    withinOneEdit(foldedLeft, foldedRight)
+  ) {
+    return "fuzzy";
+  }
+  return null;
+}
+
+export function matchEquipment(
+  a: Pick<HVACEquipment, "brand" | "serialNumber">,
+  b: Pick<HVACEquipment, "brand" | "serialNumber">
+): EquipmentMatchKind | null {
+  const brand = normalizeBrand(a.brand);
+  if (!brand || brand !== normalizeBrand(b.brand)) return null;
+  return compareSerials(a.serialNumber, b.serialNumber);
+}
+
+// Existing units that may be `candidate`, exact matches first
+export function findEquipmentMatches(
+  candidate: Pick<HVACEquipment, "id" | "brand" | "serialNumber">,
+  existing: HVACEquipment[]
+): EquipmentMatch[] {
+  const matches: EquipmentMatch[] = [];
+  for (const equipment of existing) {
+    if (equipment.id === candidate.id) continue;
+    const kind = matchEquipment(candidate, equipment);
+    if (kind) matches.push({ equipment, kind });
+  }
+  return matches.sort(
+    (a, b) => Number(a.kind === "fuzzy") - Number(b.kind === "fuzzy")
+  );
+}
+
+// Groups of stored units that look like the same physical unit
+export function findDuplicateGroups(
+  equipment: HVACEquipment[]
+): HVACEquipment[][] {
+  const groups: HVACEquipment[][] = [];
+  const grouped = new Set<string>();
+
+  for (const unit of equipment) {
+    if (grouped.has(unit.id)) continue;
+    const group = [
+      unit,
+      ...findEquipmentMatches(unit, equipment)
+        .map((match) => match.equipment)
+        .filter((other) => !grouped.has(other.id)),
+    ];
+    if (group.length < 2) continue;
+    group.forEach((member) => grouped.add(member.id));
+    groups.push(group);
+  }
+  return groups;
+}
+
+// Combines two records of the same unit under `target`'s id; `target` wins
+// where both have a value
+export function mergeEquipmentRecords(
+  target: HVACEquipment,
+  source: HVACEquipment
+): HVACEquipment {
+  const merged: HVACEquipment = { ...source, ...target };
+  for (const key of Object.keys(source) as (keyof HVACEquipment)[]) {
+    const value = target[key];
+    if (value === undefined || value === null || value === "") {
+      Object.assign(merged, { [key]: source[key] });
+    }
+  }
+  return {
+    ...merged,
+    id: target.id,
+    createdAt:
+      source.createdAt < target.createdAt ? source.createdAt : target.createdAt,
+    updatedAt: new Date(),
+  };
+}
@@ -0,0 +1,164 @@
+import type { EquipmentCategory, EquipmentType } from "@/types";
+
+// Canonical equipment taxonomy shared by the prompts, the schema, the form
+// and the history filters. Anything else (legacy stored values, free-form
+// model output) goes through normalizeEquipmentType.
+
+interface EquipmentTypeInfo {
+  value: EquipmentType;
+  label: string;
+  category: EquipmentCategory;
+  // Visual cues for the vision model
+  description: string;
+}
+
+export const EQUIPMENT_CATEGORIES: Record<EquipmentCategory, string> = {
+  split_system: "Split systems",
+  packaged: "Packaged units",
+  heating: "Heating",
+  commercial: "Commercial / hydronic",
+  other: "Other",
+};
+
+export const EQUIPMENT_TYPES: EquipmentTypeInfo[] = [
+  {
+    value: "air_conditioner",
+    label: "Air Conditioner",
+    category: "split_system",
+    description: "outdoor condensing unit with coil and fan, cooling only",
+  },
+  {
+    value: "heat_pump",
+    label: "Heat Pump",
+    category: "split_system",
+    description: "like a split condenser but with a reversing valve",
+  },
+  {
+    value: "mini_split",
+    label: "Mini Split",
+    category: "split_system",
+    description: "small ductless wall, ceiling or floor mounted units",
+  },
+  {
+    value: "vrf",
+    label: "VRF / VRV System",
+    category: "split_system",
+    description: "variable refrigerant flow outdoor units serving many zones",
+  },
+  {
+    value: "rooftop_unit",
+    label: "Rooftop Unit (RTU)",
+    category: "packaged",
+    description: "large packaged unit installed on a roof with visible fans",
+  },
+  {
+    value: "package_unit",
+    label: "Package Unit",
+    category: "packaged",
+    description: "compact all-in-one unit installed at ground level",
+  },
+  {
+    value: "furnace",
+    label: "Furnace",
+    category: "heating",
+    description: "gas, oil or electric forced-air heating equipment",
+  },
+  {
+    value: "boiler",
+    label: "Boiler",
+    category: "heating",
+    description: "hot water or steam heating equipment",
+  },
+  {
+    value: "chiller",
+    label: "Chiller",
+    category: "commercial",
+    description: "large chilled water equipment",
+  },
+  {
+    value: "air_handler",
+    label: "Air Handler",
+    category: "commercial",
+    description: "indoor air handling unit with blower and coil",
+  },
+  {
+    value: "ductwork",
+    label: "Ductwork",
+    category: "other",
+    description: "supply or return ducts, plenums and registers",
+  },
+  {
+    value: "other",
+    label: "Other",
+    category: "other",
+    description: "anything not listed above",
+  },
+];
+
+export const EQUIPMENT_TYPE_VALUES = EQUIPMENT_TYPES.map((type) => type.value);
+
+// Values produced by older prompts and stored by earlier app versions
+const LEGACY_EQUIPMENT_TYPES: Record<string, EquipmentType> = {
+  ac: "air_conditioner",
+  a_c: "air_conditioner",
+  split_system: "air_conditioner",
+  split: "air_conditioner",
+  condenser: "air_conditioner",
+  condensing_unit: "air_conditioner",
+  hp: "heat_pump",
+  ductless: "mini_split",
+  minisplit: "mini_split",
+  vrv: "vrf",
+  vrf_system: "vrf",
+  rtu: "rooftop_unit",
+  rtu_rooftop_unit: "rooftop_unit",
+  rooftop: "rooftop_unit",
+  packaged_unit: "package_unit",
+  pu: "package_unit",
+  ahu: "air_handler",
+  air_handling_unit: "air_handler",
+  ducts: "ductwork",
+  duct: "ductwork",
+};
+
+function typeKey(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+// Maps canonical values, labels ("Rooftop Unit (RTU)") and legacy values
+// ("RTU", "Split_System") to the canonical type. Unknown input returns
+// undefined so callers decide between "other" and rejecting the value.
+export function normalizeEquipmentType(
+  value: unknown
+): EquipmentType | undefined {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const key = typeKey(value);
+
+  return (
+    EQUIPMENT_TYPES.find(
+      (type) => type.value === key || typeKey(type.label) === key
+    )?.value ?? LEGACY_EQUIPMENT_TYPES[key]
+  );
+}
+
+export function getEquipmentTypeLabel(value?: string): string | undefined {
+  const type = normalizeEquipmentType(value);
+  return type && EQUIPMENT_TYPES.find((info) => info.value === type)?.label;
+}
+
+// Types grouped by category, in taxonomy order, for <optgroup> lists
+export function groupEquipmentTypes(): [
+  EquipmentCategory,
+  EquipmentTypeInfo[]
+][] {
+  return (Object.keys(EQUIPMENT_CATEGORIES) as EquipmentCategory[]).map(
+    (category) => [
+      category,
+      EQUIPMENT_TYPES.filter((type) => type.category === category),
+    ]
+  );
+}
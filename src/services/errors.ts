@@ -0,0 +1,44 @@
+import type { AppError, ErrorCode } from "@/types";
+
+export function createAppError(
+  code: ErrorCode,
+  message: string,
+  originalError?: unknown,
+  details?: Record<string, unknown>
+): AppError {
+  const merged =
+    originalError === undefined ? details : { ...details, originalError };
+  return {
+    code,
+    message,
+    timestamp: new Date(),
+    details: merged,
+  };
+}
+
+export function isAppError(error: unknown): error is AppError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    "message" in error &&
+    "timestamp" in error
+  );
+}
+
+export function getErrorMessage(error: unknown): string {
+  if (isAppError(error) || error instanceof Error) {
+    return error.message;
+  }
+  return "Unknown error";
+}
+
+// Transient failures (connectivity, timeouts, rate limits, upstream outages)
+// are reported as NETWORK_ERROR; retrying the same request may succeed.
+export function isRetryableError(error: unknown): boolean {
+  return isAppError(error) && error.code === "NETWORK_ERROR";
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return isAppError(error) && error.code === "REQUEST_CANCELLED";
+}
@@ -0,0 +1,84 @@
+// Client-side image preparation before upload. Runs in the browser because it
+// relies on canvas; the server receives the already enhanced JPEG.
+
+const MAX_SIZE = 1600;
+const CONTRAST_FACTOR = 1.2;
+const BRIGHTNESS = 10;
+
+export async function preprocessImage(file: File): Promise<File> {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d");
+    const img = document.createElement("img");
+
+    img.onload = () => {
+      let { width, height } = img;
+
+      if (width > height) {
+        if (width > MAX_SIZE) {
+          height = (height * MAX_SIZE) / width;
+          width = MAX_SIZE;
+        }
+      } else {
+        if (height > MAX_SIZE) {
+          width = (width * MAX_SIZE) / height;
+          height = MAX_SIZE;
+        }
+      }
+
+      canvas.width = width;
+      canvas.height = height;
+
+      if (!ctx) {
+        URL.revokeObjectURL(img.src);
+        reject(new Error("Could not create canvas context"));
+        return;
+      }
+
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = "high";
+
+      ctx.drawImage(img, 0, 0, width, height);
+
+      const imageData = ctx.getImageData(0, 0, width, height);
+      const data = imageData.data;
+
+      for (let i = 0; i < data.length; i += 4) {
+        for (let channel = 0; channel < 3; channel++) {
+          const contrasted = (data[i + channel] - 128) * CONTRAST_FACTOR + 128;
+          data[i + channel] = Math.min(
+            255,
+            Math.max(0, contrasted) + BRIGHTNESS
+          );
+        }
+      }
+
+      ctx.putImageData(imageData, 0, 0);
+      URL.revokeObjectURL(img.src);
+
+      canvas.toBlob(
+        (blob) => {
+          if (!blob) {
+            reject(new Error("Could not encode image"));
+            return;
+          }
+          resolve(
+            new File([blob], file.name.replace(/\.\w+$/, "") + ".jpg", {
+              type: "image/jpeg",
+              lastModified: Date.now(),
+            })
+          );
+        },
+        "image/jpeg",
+        0.92
+      );
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(img.src);
+      reject(new Error("Error loading image"));
+    };
+
+    img.src = URL.createObjectURL(file);
+  });
+}
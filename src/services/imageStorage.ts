@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from "uuid";
+import type { CapturedImage, StoredImage } from "@/types";
+
+// Turns captured photos into rows for the IndexedDB images store. Runs in the
+// browser because thumbnails are drawn on a canvas.
+
+const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.8;
+
+interface Dimensions {
+  width: number;
+  height: number;
+}
+
+export interface ResizedImage {
+  blob: Blob;
+  dimensions: Dimensions; // Of the resized image
+  originalDimensions: Dimensions;
+}
+
+// Scales an image down so its longest side is at most `maxSize` and encodes
+// it as JPEG. Smaller images are re-encoded at their own size.
+export async function resizeImage(
+  blob: Blob,
+  maxSize: number,
+  quality: number
+): Promise<ResizedImage> {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d");
+    const img = document.createElement("img");
+
+    img.onload = () => {
+      const originalDimensions = { width: img.width, height: img.height };
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      URL.revokeObjectURL(img.src);
+
+      if (!ctx) {
+        reject(new Error("Could not create canvas context"));
+        return;
+      }
+
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = "high";
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+      canvas.toBlob(
+        (resized) => {
+          if (!resized) {
+            reject(new Error("Could not encode image"));
+            return;
+          }
+          resolve({
+            blob: resized,
+            dimensions: { width: canvas.width, height: canvas.height },
+            originalDimensions,
+          });
+        },
+        "image/jpeg",
+        quality
+      );
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(img.src);
+      reject(new Error("Error loading image"));
+    };
+
+    img.src = URL.createObjectURL(blob);
+  });
+}
+
+export async function createStoredImage(
+  file: Blob,
+  type: CapturedImage["type"],
+  capturedAt = new Date()
+): Promise<StoredImage> {
+  const thumbnail = await resizeImage(file, THUMBNAIL_SIZE, THUMBNAIL_QUALITY);
+  return {
+    id: uuidv4(),
+    type,
+    capturedAt,
+    fileSize: file.size,
+    mimeType: file.type || "image/jpeg",
+    dimensions: thumbnail.originalDimensions,
+    quality: "original",
+    blob: file,
+    thumbnail: thumbnail.blob,
+  };
+}
+
+// Reference stored on the report; `url` is only set while the page that
+// captured the photo is open
+export function toCapturedImage(
+  image: StoredImage,
+  url?: string
+): CapturedImage {
+  const reference: CapturedImage & Partial<StoredImage> = { ...image, url };
+  delete reference.blob;
+  delete reference.thumbnail;
+  if (!url) delete reference.url;
+  return reference;
+}
+
+// Object URLs die with the page, so they are dropped before persisting
+export function withoutUrl(image: CapturedImage): CapturedImage {
+  if (!image.url) return image;
+  const reference = { ...image };
+  delete reference.url;
+  return reference;
+}
@@ -0,0 +1,123 @@
+import type {
+  EncodedImage,
+  FailureDetection,
+  HVACEquipment,
+  HVACEquipmentWithMetadata,
+  InspectionResult,
+  LabelScanResult,
+} from "@/types";
+import { createAppError, isAppError } from "@/services/errors";
+import { mergeLabelScans } from "@/services/labelMerge";
+import { applyDecoders } from "@/services/decoders";
+import {
+  getVisionProvider,
+  type VisionProvider,
+  type VisionRequestOptions,
+} from "@/services/vision";
+
+// Server-side orchestration: calls the configured vision provider and maps
+// its raw payloads to the shapes the app works with.
+export class InspectionService {
+  constructor(private provider: VisionProvider) {}
+
+  // Scans every photo of the nameplate in parallel and merges the readings
+  // field by field (see mergeLabelScans)
+  async scanLabel(
+    images: EncodedImage[],
+    options?: VisionRequestOptions
+  ): Promise<LabelScanResult> {
+    try {
+      const startTime = Date.now();
+      const responses = await Promise.all(
+        images.map((image) => this.provider.scanLabel(image, options))
+      );
+      const merged = mergeLabelScans(responses);
+
+      // Dates and specs encoded in the serial/model numbers are decoded
+      // locally and take precedence over the model's guesses
+      const extractedData: HVACEquipmentWithMetadata = applyDecoders({
+        id: "",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...merged.structuredData,
+        fieldMetadata: merged.fieldMetadata,
+        fieldConflicts: merged.conflicts,
+      });
+
+      return {
+        confidence: merged.confidence,
+        extractedData,
+        rawText: merged.extractedText,
+        processingTime: Date.now() - startTime,
+        imageCount: images.length,
+      };
+    } catch (error) {
+      if (isAppError(error)) throw error;
+      throw createAppError(
+        "PROCESSING_ERROR",
+        "Error processing the label",
+        error
+      );
+    }
+  }
+
+  async analyzeEquipment(
+    images: EncodedImage[],
+    options?: VisionRequestOptions
+  ): Promise<InspectionResult> {
+    try {
+      const startTime = Date.now();
+      const response = await this.provider.analyzeEquipment(images, options);
+
+      return {
+        equipmentType: response.equipmentType,
+        equipmentDescription: response.equipmentDescription,
+        failures: (response.failures || []).map((failure, index) => ({
+          ...failure,
+          id: failure.id || `failure-${index + 1}`,
+        })),
+        overallCondition: response.condition,
+        maintenanceUrgency: response.urgency,
+        generalRecommendations: response.recommendations || [],
+        processingTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      if (isAppError(error)) throw error;
+      throw createAppError(
+        "PROCESSING_ERROR",
+        "Error analyzing equipment",
+        error
+      );
+    }
+  }
+
+  async generateDetailedRecommendations(
+    equipment: Partial<HVACEquipment>,
+    failures: FailureDetection[],
+    options?: VisionRequestOptions
+  ): Promise<string[]> {
+    try {
+      return await this.provider.generateRecommendations(
+        equipment,
+        failures,
+        options
+      );
+    } catch (error) {
+      if (isAppError(error)) throw error;
+      throw createAppError(
+        "PROCESSING_ERROR",
+        "Error generating recommendations",
+        error
+      );
+    }
+  }
+}
+
+let instance: InspectionService | null = null;
+
+export function getInspectionService(): InspectionService {
+  if (!instance) {
+    instance = new InspectionService(getVisionProvider());
+  }
+  return instance;
+}
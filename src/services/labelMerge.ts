@@ -0,0 +1,141 @@
+import type {
+  FieldConflict,
+  FieldMetadata,
+  HVACEquipment,
+  OpenAIVisionResponse,
+} from "@/types";
+
+type FieldValue = string | number;
+
+interface Reading {
+  value: FieldValue;
+  confidence: number;
+  imageIndex: number;
+  metadata: FieldMetadata;
+}
+
+// Readings whose normalized values match are treated as the same answer
+interface ReadingGroup {
+  readings: Reading[];
+  // Independent photos agreeing raise confidence: 1 - Π(1 - c)
+  confidence: number;
+}
+
+export interface MergedLabelScan extends OpenAIVisionResponse {
+  conflicts: FieldConflict[];
+}
+
+// Each photo is a separate model call, so keep label scans small
+export const MAX_LABEL_IMAGES = 5;
+
+// A second reading below this confidence is noise, not a conflict
+const CONFLICT_MIN_CONFIDENCE = 0.3;
+const MAX_MERGED_CONFIDENCE = 0.99;
+const DEFAULT_FIELD_CONFIDENCE = 0.6;
+
+// Identifiers are compared without spacing or punctuation so "24ACC6-36A003"
+// and "24ACC636A003" count as the same reading.
+const IDENTIFIER_FIELDS: (keyof HVACEquipment)[] = ["model", "serialNumber"];
+
+function normalizeValue(field: keyof HVACEquipment, value: FieldValue) {
+  if (typeof value === "number") return String(value);
+  const text = value.trim().toUpperCase();
+  return IDENTIFIER_FIELDS.includes(field)
+    ? text.replace(/[^A-Z0-9]/g, "")
+    : text.replace(/\s+/g, " ");
+}
+
+function groupReadings(
+  field: keyof HVACEquipment,
+  readings: Reading[]
+): ReadingGroup[] {
+  const groups = new Map<string, Reading[]>();
+  for (const reading of readings) {
+    const key = normalizeValue(field, reading.value);
+    groups.set(key, [...(groups.get(key) ?? []), reading]);
+  }
+
+  return Array.from(groups.values(), (grouped) => ({
+    readings: grouped.sort((a, b) => b.confidence - a.confidence),
+    confidence: Math.min(
+      MAX_MERGED_CONFIDENCE,
+      1 - grouped.reduce((miss, r) => miss * (1 - r.confidence), 1)
+    ),
+  })).sort((a, b) => b.confidence - a.confidence);
+}
+
+// Merges the label scans of several photos of the same nameplate. Each field
+// takes the value with the highest combined confidence; the photo of its best
+// reading is recorded in `sourceImage`. Fields read differently on different
+// photos are returned as conflicts for the technician to resolve.
+export function mergeLabelScans(
+  scans: OpenAIVisionResponse[]
+): MergedLabelScan {
+  const readingsByField = new Map<keyof HVACEquipment, Reading[]>();
+
+  scans.forEach((scan, imageIndex) => {
+    for (const [field, value] of Object.entries(scan.structuredData)) {
+      if (
+        (typeof value !== "string" && typeof value !== "number") ||
+        value === ""
+      ) {
+        continue;
+      }
+      const key = field as keyof HVACEquipment;
+      const metadata = scan.fieldMetadata[field] ?? { source: "scanned" };
+      readingsByField.set(key, [
+        ...(readingsByField.get(key) ?? []),
+        {
+          value,
+          confidence: metadata.confidence ?? DEFAULT_FIELD_CONFIDENCE,
+          imageIndex,
+          metadata,
+        },
+      ]);
+    }
+  });
+
+  const structuredData: Record<string, FieldValue> = {};
+  const fieldMetadata: Record<string, FieldMetadata> = {};
+  const conflicts: FieldConflict[] = [];
+
+  readingsByField.forEach((readings, field) => {
+    const [winner, ...others] = groupReadings(field, readings);
+    const best = winner.readings[0];
+
+    structuredData[field] = best.value;
+    fieldMetadata[field] = {
+      ...best.metadata,
+      confidence: winner.confidence,
+      sourceImage: best.imageIndex,
+    };
+
+    const rivals = others.filter(
+      (group) => group.confidence >= CONFLICT_MIN_CONFIDENCE
+    );
+    if (rivals.length > 0) {
+      conflicts.push({
+        field,
+        candidates: [winner, ...rivals].map((group) => ({
+          value: group.readings[0].value,
+          confidence: group.confidence,
+          imageIndex: group.readings[0].imageIndex,
+        })),
+      });
+    }
+  });
+
+  return {
+    extractedText: scans
+      .map((scan, index) =>
+        scans.length > 1
+          ? `[Photo ${index + 1}]\n${scan.extractedText}`
+          : scan.extractedText
+      )
+      .join("\n\n"),
+    structuredData: structuredData as Partial<HVACEquipment>,
+    fieldMetadata,
+    confidence: Math.max(0, ...scans.map((scan) => scan.confidence)),
+    conflicts,
+  };
+}
@@ -0,0 +1,260 @@
+import type {
+  AmperageSpec,
+  CapacitySpec,
+  HVACEquipment,
+  NameplateSpecs,
+  ValidationErrors,
+  VoltageSpec,
+} from "@/types";
+
+const BTU_PER_TON = 12000;
+const BTU_PER_KW = 3412;
+const MIN_TONS = 0.5;
+const MAX_TONS = 200;
+// Same allowance the model decoders give a rated capacity
+const BTU_TOLERANCE = 0.15;
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+const AMP_LABELS = ["RLA", "LRA", "FLA", "MCA"] as const;
+
+function toNumber(value: string): number {
+  return Number(value.replace(/,/g, ""));
+}
+
+// Parses nameplate voltage notations: "208-230V", "208/230V 1-phase",
+// "460V 3PH 60Hz" and the V/Ph/Hz shorthand "208-230/1/60".
+export function parseVoltage(voltage?: string): VoltageSpec | null {
+  if (!voltage) return null;
+  const text = voltage.trim();
+
+  const shorthand = text.match(
+    /(\d{3})(?:\s*[-/]\s*(\d{3}))?\s*V?\s*\/\s*([13])\s*\/\s*(50|60)\b/i
+  );
+  if (shorthand) {
+    const volts = [Number(shorthand[1]), Number(shorthand[2] || shorthand[1])];
+    return {
+      minVolts: Math.min(...volts),
+      maxVolts: Math.max(...volts),
+      phase: Number(shorthand[3]) as 1 | 3,
+      hertz: Number(shorthand[4]),
+    };
+  }
+
+  const volts = (text.match(/\d{3}(?!\d)/g) ?? [])
+    .map(Number)
+    .filter((value) => value >= 100 && value <= 700);
+  if (volts.length === 0) return null;
+
+  const spec: VoltageSpec = {
+    minVolts: Math.min(...volts),
+    maxVolts: Math.max(...volts),
+  };
+
+  const phase = text.match(/([13])\s*-?\s*(?:ph(?:ase)?|ø|φ)/i)?.[1];
+  if (phase) {
+    spec.phase = Number(phase) as 1 | 3;
+  } else if (/single[\s-]*phase/i.test(text)) {
+    spec.phase = 1;
+  } else if (/three[\s-]*phase/i.test(text)) {
+    spec.phase = 3;
+  }
+
+  const hertz = text.match(/(50|60)\s*hz/i)?.[1];
+  if (hertz) spec.hertz = Number(hertz);
+
+  return spec;
+}
+
+// Parses labelled currents ("RLA 15.2 LRA 82", "15.2 RLA / 82 LRA") or a
+// bare value ("15.2A"), which is kept as `amps`.
+export function parseAmperage(amperage?: string): AmperageSpec | null {
+  if (!amperage) return null;
+  const text = amperage.toUpperCase();
+  const spec: AmperageSpec = {};
+
+  for (const label of AMP_LABELS) {
+    const match =
+      text.match(new RegExp(`${label}\\s*[:=]?\\s*${NUMBER}`)) ??
+      text.match(new RegExp(`${NUMBER}\\s*A?\\s*${label}`));
+    if (match) {
+      spec[label.toLowerCase() as keyof AmperageSpec] = Number(match[1]);
+    }
+  }
+
+  if (Object.keys(spec).length === 0) {
+    const bare = text.match(new RegExp(`${NUMBER}\\s*(?:A|AMPS?)?\\b`));
+    if (!bare) return null;
+    spec.amps = Number(bare[1]);
+  }
+
+  return spec;
+}
+
+// Parses "3 tons", "3T", "36,000 BTU/h", "36 MBH" or "10.5 kW", falling back
+// to the separate `btu` field when the capacity text has no usable value.
+export function parseCapacity(
+  capacity?: string,
+  btu?: number
+): CapacitySpec | null {
+  const text = capacity?.trim() ?? "";
+  let btuPerHour: number | undefined;
+
+  const tons = text.match(/(\d+(?:\.\d+)?)\s*(?:tons?|tr|t)\b/i);
+  const btuText = text.match(/(\d{1,3}(?:,\d{3})+|\d{4,7})\s*btu/i);
+  const mbh = text.match(/(\d+(?:\.\d+)?)\s*mbh/i);
+  const kw = text.match(/(\d+(?:\.\d+)?)\s*kw\b/i);
+
+  if (tons) btuPerHour = Number(tons[1]) * BTU_PER_TON;
+  else if (btuText) btuPerHour = toNumber(btuText[1]);
+  else if (mbh) btuPerHour = Number(mbh[1]) * 1000;
+  else if (kw) btuPerHour = Math.round(Number(kw[1]) * BTU_PER_KW);
+  else if (btu) btuPerHour = btu;
+
+  if (!btuPerHour) return null;
+  return {
+    tons: Math.round((btuPerHour / BTU_PER_TON) * 100) / 100,
+    btuPerHour,
+  };
+}
+
+// Structured values for search and calculations; stored next to the
+// free-form strings, which stay exactly as read off the label
+export function normalizeNameplate(
+  equipment: Partial<HVACEquipment>
+): NameplateSpecs {
+  const specs: NameplateSpecs = {};
+  const voltage = parseVoltage(equipment.voltage);
+  const amperage = parseAmperage(equipment.amperage);
+  const capacity = parseCapacity(equipment.capacity, equipment.btu);
+
+  if (voltage) specs.voltage = voltage;
+  if (amperage) specs.amperage = amperage;
+  if (capacity) specs.capacity = capacity;
+  return specs;
+}
+
+// Plausibility checks for the equipment form. Keys match HVACEquipment
+// fields so errors can be shown next to their inputs.
+export function validateEquipment(
+  equipment: Partial<HVACEquipment>
+): ValidationErrors {
+  const errors: ValidationErrors = {};
+
+  if (equipment.voltage) {
+    const voltage = parseVoltage(equipment.voltage);
+    if (!voltage) {
+      errors.voltage = "Could not read a voltage (e.g. 208-230V 1-phase)";
+    } else if (voltage.minVolts < 100 || voltage.maxVolts > 600) {
+      errors.voltage = "Voltage should be between 100V and 600V";
+    } else if (voltage.hertz && voltage.hertz !== 50 && voltage.hertz !== 60) {
+      errors.voltage = "Frequency should be 50 or 60 Hz";
+    }
+  }
+
+  if (equipment.amperage) {
+    const amperage = parseAmperage(equipment.amperage);
+    const values = amperage
+      ? Object.values(amperage).filter((value) => value !== undefined)
+      : [];
+    if (!amperage) {
+      errors.amperage = "Could not read a current (e.g. 15.2A or RLA 15.2)";
+    } else if (values.some((value) => value <= 0 || value > 500)) {
+      errors.amperage = "Current should be between 0 and 500A";
+    } else if (amperage.rla && amperage.lra && amperage.lra <= amperage.rla) {
+      errors.amperage = "LRA should be higher than RLA";
+    }
+  }
+
+  if (equipment.phase && equipment.phase !== 1 && equipment.phase !== 3) {
+    errors.phase = "Phase should be 1 or 3";
+  }
+
+  if (equipment.hertz && equipment.hertz !== 50 && equipment.hertz !== 60) {
+    errors.hertz = "Frequency should be 50 or 60 Hz";
+  }
+
+  for (const field of ["mca", "mocp", "rla", "lra"] as const) {
+    const value = equipment[field];
+    if (value !== undefined && value !== 0 && (value < 0 || value > 500)) {
+      errors[field] = "Current should be between 0 and 500A";
+    }
+  }
+
+  if (
+    !errors.mocp &&
+    equipment.mca &&
+    equipment.mocp &&
+    equipment.mocp < equipment.mca
+  ) {
+    errors.mocp = "Max fuse should not be lower than MCA";
+  }
+
+  if (
+    !errors.lra &&
+    equipment.rla &&
+    equipment.lra &&
+    equipment.lra <= equipment.rla
+  ) {
+    errors.lra = "LRA should be higher than RLA";
+  }
+
+  if (equipment.capacity) {
+    const capacity = parseCapacity(equipment.capacity);
+    if (!capacity) {
+      errors.capacity = "Could not read a capacity (e.g. 3 tons or 36,000 BTU)";
+    } else if (capacity.tons < MIN_TONS || capacity.tons > MAX_TONS) {
+      errors.capacity = "Capacity should be between 0.5 and 200 tons";
+    }
+  }
+
+  if (equipment.btu) {
+    // Rated capacities are often a little off the nominal size (34,800 BTU/h
+    // on a 3-ton unit), so only the range and a gross mismatch are checked
+    const capacity = parseCapacity(equipment.capacity);
+    if (
+      equipment.btu < MIN_TONS * BTU_PER_TON ||
+      equipment.btu > MAX_TONS * BTU_PER_TON
+    ) {
+      errors.btu = "BTU should be between 6,000 and 2,400,000";
+    } else if (
+      capacity &&
+      Math.abs(capacity.btuPerHour - equipment.btu) >
+        capacity.btuPerHour * BTU_TOLERANCE
+    ) {
+      errors.btu = `Does not match the capacity (${capacity.tons} tons)`;
+    }
+  }
+
+  if (
+    equipment.seerRating !== undefined &&
+    equipment.seerRating !== 0 &&
+    (equipment.seerRating < 8 || equipment.seerRating > 30)
+  ) {
+    errors.seerRating = "SEER should be between 8 and 30";
+  }
+
+  if (
+    equipment.eerRating !== undefined &&
+    equipment.eerRating !== 0 &&
+    (equipment.eerRating < 5 || equipment.eerRating > 25)
+  ) {
+    errors.eerRating = "EER should be between 5 and 25";
+  }
+
+  if (equipment.manufactureDate) {
+    const date = new Date(equipment.manufactureDate);
+    if (isNaN(date.getTime())) {
+      errors.manufactureDate = "Invalid date";
+    } else if (date > new Date()) {
+      errors.manufactureDate = "Manufacture date is in the future";
+    } else if (date.getFullYear() < 1950) {
+      errors.manufactureDate = "Manufacture date is before 1950";
+    }
+  }
+
+  return errors;
+}
+
+export function hasValidationErrors(errors: ValidationErrors): boolean {
+  return Object.values(errors).some(Boolean);
+}
@@ -0,0 +1,67 @@
+// System notifications for work that finishes while the technician is busy
+// elsewhere. Everything degrades to a no-op where the API is missing or the
+// permission was not granted.
+
+function isSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+// Must be called from a user gesture; browsers ignore or block the prompt
+// otherwise. Resolves to whether notifications can be shown.
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!isSupported()) return false;
+  if (Notification.permission !== "default") {
+    return Notification.permission === "granted";
+  }
+  try {
+    return (await Notification.requestPermission()) === "granted";
+  } catch (error) {
+    console.error("Could not request notification permission:", error);
+    return false;
+  }
+}
+
+// `tag` replaces an earlier notification with the same tag instead of
+// stacking a new one. Returns false when nothing was shown.
+export function showNotification(
+  title: string,
+  options: { body?: string; tag?: string; onClick?: () => void } = {}
+): boolean {
+  if (!isSupported() || Notification.permission !== "granted") return false;
+  try {
+    const notification = new Notification(title, {
+      body: options.body,
+      tag: options.tag,
+    });
+    notification.onclick = () => {
+      window.focus();
+      options.onClick?.();
+      notification.close();
+    };
+    return true;
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker;
+    // tapping one then just brings the app to the front
+    if (showWithServiceWorker(title, options)) return true;
+    console.error("Could not show notification:", error);
+    return false;
+  }
+}
+
+function showWithServiceWorker(
+  title: string,
+  options: { body?: string; tag?: string }
+): boolean {
+  if (!("serviceWorker" in navigator) || !navigator.serviceWorker.controller) {
+    return false;
+  }
+  navigator.serviceWorker.ready
+    .then((registration) =>
+      registration.showNotification(title, {
+        body: options.body,
+        tag: options.tag,
+      })
+    )
+    .catch((error) => console.error("Could not show notification:", error));
+  return true;
+}
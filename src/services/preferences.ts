@@ -0,0 +1,76 @@
+// Small per-device settings kept in localStorage rather than IndexedDB so
+// they survive "Delete all local data" and are readable synchronously.
+
+const TECHNICIAN_KEY = "hvac_scanner_technician";
+const AUTO_LOCK_KEY = "hvac_scanner_auto_lock_minutes";
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+function readPreference(key: string): string {
+  if (typeof window === "undefined") return "";
+  try {
+    return window.localStorage.getItem(key) ?? "";
+  } catch {
+    // Storage can be blocked (private mode, disabled cookies)
+    return "";
+  }
+}
+
+function writePreference(key: string, value: string) {
+  if (typeof window === "undefined") return;
+  try {
+    if (value) {
+      window.localStorage.setItem(key, value);
+    } else {
+      window.localStorage.removeItem(key);
+    }
+  } catch (error) {
+    console.error(`Could not save preference ${key}:`, error);
+  }
+}
+
+// Recorded on every equipment change made on this device
+export function getTechnicianName(): string {
+  return readPreference(TECHNICIAN_KEY);
+}
+
+export function setTechnicianName(name: string) {
+  writePreference(TECHNICIAN_KEY, name.trim());
+}
+
+// Minutes of inactivity before an encrypted database locks again; 0 never
+// locks automatically
+export function getAutoLockMinutes(): number {
+  const stored = readPreference(AUTO_LOCK_KEY);
+  if (!stored) return DEFAULT_AUTO_LOCK_MINUTES;
+  const minutes = Number(stored);
+  return Number.isFinite(minutes) && minutes >= 0
+    ? minutes
+    : DEFAULT_AUTO_LOCK_MINUTES;
+}
+
+export function setAutoLockMinutes(minutes: number) {
+  writePreference(AUTO_LOCK_KEY, String(Math.max(0, Math.round(minutes))));
+}
+
+const SYNC_ENABLED_KEY = "hvac_scanner_sync_enabled";
+
+// Off until the technician turns it on in Settings
+export function getSyncEnabled(): boolean {
+  return readPreference(SYNC_ENABLED_KEY) === "true";
+}
+
+export function setSyncEnabled(enabled: boolean) {
+  writePreference(SYNC_ENABLED_KEY, enabled ? "true" : "");
+}
+
+const SYNC_TOKEN_KEY = "hvac_scanner_sync_token";
+
+// Shared API token of the sync server (its API_TOKEN)
+export function getSyncToken(): string {
+  return readPreference(SYNC_TOKEN_KEY);
+}
+
+export function setSyncToken(token: string) {
+  writePreference(SYNC_TOKEN_KEY, token.trim());
+}
@@ -0,0 +1,640 @@
+import type { jsPDF } from "jspdf";
+import type {
+  CapturedImage,
+  EquipmentChange,
+  FailureDetection,
+  FieldMetadata,
+  FieldSource,
+  HVACEquipment,
+  InspectionReport,
+  InspectionResult,
+} from "@/types";
+import {
+  getEquipmentHistoryRepository,
+  getImageRepository,
+} from "@/services/db";
+import { createAppError } from "@/services/errors";
+import { EQUIPMENT_FIELD_LABELS } from "@/services/equipmentHistory";
+import { getEquipmentTypeLabel } from "@/services/equipmentTypes";
+import { resizeImage } from "@/services/imageStorage";
+
+// Builds the PDF a technician hands to the customer: nameplate data with
+// where each value came from, the condition assessment, every detected issue
+// and the photos. Runs in the browser; photos are read from IndexedDB and
+// drawn through a canvas.
+
+type RGB = [number, number, number];
+
+interface ReportPhoto {
+  label: string;
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const MARGIN = 48;
+const BANNER_HEIGHT = 72;
+const FOOTER_HEIGHT = 36;
+const LINE_HEIGHT_FACTOR = 1.3;
+
+const BRAND_COLOR: RGB = [37, 99, 235];
+const TEXT_COLOR: RGB = [17, 24, 39];
+const MUTED_COLOR: RGB = [107, 114, 128];
+const RULE_COLOR: RGB = [229, 231, 235];
+const PANEL_COLOR: RGB = [243, 244, 246];
+
+// Photos are re-encoded so a report with many of them stays small enough to
+// send by email
+const PHOTO_MAX_SIZE = 1200;
+const PHOTO_QUALITY = 0.75;
+const PHOTO_HEIGHT = 190;
+const PHOTO_GAP = 12;
+
+const CONDITION_LABELS: Record<InspectionResult["overallCondition"], string> = {
+  excellent: "Excellent",
+  good: "Good",
+  fair: "Fair",
+  poor: "Poor",
+  critical: "Critical",
+};
+
+const CONDITION_COLORS: Record<InspectionResult["overallCondition"], RGB> = {
+  excellent: [22, 163, 74],
+  good: [34, 197, 94],
+  fair: [202, 138, 4],
+  poor: [234, 88, 12],
+  critical: [220, 38, 38],
+};
+
+const URGENCY_LABELS: Record<InspectionResult["maintenanceUrgency"], string> = {
+  immediate: "Immediate",
+  within_week: "Within a week",
+  within_month: "Within a month",
+  routine: "Routine maintenance",
+  none: "Not required",
+};
+
+const SEVERITY_LABELS: Record<FailureDetection["severity"], string> = {
+  critical: "Critical",
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+const SEVERITY_COLORS: Record<FailureDetection["severity"], RGB> = {
+  critical: [220, 38, 38],
+  high: [234, 88, 12],
+  medium: [202, 138, 4],
+  low: [22, 163, 74],
+};
+
+const SOURCE_LABELS: Record<FieldSource, string> = {
+  scanned: "Scanned",
+  ai_inferred: "AI inferred",
+  manual: "Entered",
+};
+
+const NAMEPLATE_FIELDS = Object.keys(
+  EQUIPMENT_FIELD_LABELS
+) as (keyof HVACEquipment)[];
+
+function describeEquipment(equipment?: HVACEquipment): string {
+  const name = [equipment?.brand, equipment?.model].filter(Boolean).join(" ");
+  return name || "Unidentified equipment";
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function formatFieldValue(
+  field: keyof HVACEquipment,
+  value: unknown
+): string | null {
+  if (value === undefined || value === null || value === "" || value === 0) {
+    return null;
+  }
+  if (field === "equipmentType") {
+    return getEquipmentTypeLabel(String(value)) ?? String(value);
+  }
+  if (field === "btu" && typeof value === "number") {
+    return value.toLocaleString();
+  }
+  return String(value);
+}
+
+function formatSource(metadata?: FieldMetadata): string {
+  if (!metadata) return "";
+  const label = SOURCE_LABELS[metadata.source];
+  return metadata.source !== "manual" && metadata.confidence !== undefined
+    ? `${label} (${Math.round(metadata.confidence * 100)}%)`
+    : label;
+}
+
+function humanize(value: string): string {
+  const text = value.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Where a nameplate value came from: the newest change log entry that set
+// it. Scanned values are logged with their confidence when the report is
+// saved, so the log covers the label scan too.
+function findFieldSource(
+  report: InspectionReport,
+  changes: EquipmentChange[],
+  field: keyof HVACEquipment
+): FieldMetadata | undefined {
+  const value = String(report.equipment[field]);
+  const change = changes
+    .filter(
+      (entry) => entry.field === field && String(entry.newValue) === value
+    )
+    .pop();
+  return change && { source: change.source, confidence: change.confidence };
+}
+
+// Label photos first, each kind in capture order
+async function loadPhotos(report: InspectionReport): Promise<ReportPhoto[]> {
+  const stored = await getImageRepository().findByReportId(report.id);
+  const byId = new Map(stored.map((image) => [image.id, image]));
+  const photos: ReportPhoto[] = [];
+
+  const add = async (images: CapturedImage[], kind: string) => {
+    for (const [index, image] of images.entries()) {
+      const source = byId.get(image.id);
+      if (!source) continue;
+      try {
+        const resized = await resizeImage(
+          source.blob,
+          PHOTO_MAX_SIZE,
+          PHOTO_QUALITY
+        );
+        photos.push({
+          label: `${kind} photo ${index + 1}`,
+          data: new Uint8Array(await resized.blob.arrayBuffer()),
+          ...resized.dimensions,
+        });
+      } catch (error) {
+        // A photo that cannot be decoded is left out rather than failing
+        // the whole report
+        console.error(`Could not add photo ${image.id} to the report:`, error);
+      }
+    }
+  };
+
+  await add(report.labelImages, "Label");
+  await add(report.equipmentImages, "Equipment");
+  return photos;
+}
+
+// Keeps track of the write position and starts a new page when a block
+// does not fit on the current one
+class PdfLayout {
+  y = MARGIN;
+  readonly pageWidth: number;
+  readonly pageHeight: number;
+  readonly contentWidth: number;
+
+  constructor(readonly doc: jsPDF) {
+    this.pageWidth = doc.internal.pageSize.getWidth();
+    this.pageHeight = doc.internal.pageSize.getHeight();
+    this.contentWidth = this.pageWidth - MARGIN * 2;
+  }
+
+  get bottom(): number {
+    return this.pageHeight - MARGIN - FOOTER_HEIGHT;
+  }
+
+  lineHeight(size: number): number {
+    return size * LINE_HEIGHT_FACTOR;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.bottom) this.addPage();
+  }
+
+  addPage() {
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  setFont(
+    size: number,
+    style: "normal" | "bold" = "normal",
+    color: RGB = TEXT_COLOR
+  ) {
+    this.doc.setFont("helvetica", style);
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...color);
+  }
+
+  wrap(text: string, width: number): string[] {
+    return this.doc.splitTextToSize(text, width) as string[];
+  }
+
+  // Wrapped text; lines move to the next page one at a time
+  paragraph(
+    text: string,
+    {
+      size = 10,
+      style = "normal",
+      color = TEXT_COLOR,
+      indent = 0,
+    }: {
+      size?: number;
+      style?: "normal" | "bold";
+      color?: RGB;
+      indent?: number;
+    } = {}
+  ) {
+    this.setFont(size, style, color);
+    const lineHeight = this.lineHeight(size);
+    for (const line of this.wrap(text, this.contentWidth - indent)) {
+      this.ensureSpace(lineHeight);
+      this.setFont(size, style, color);
+      this.doc.text(line, MARGIN + indent, this.y, { baseline: "top" });
+      this.y += lineHeight;
+    }
+  }
+
+  bullet(text: string, indent = 0) {
+    const size = 10;
+    this.ensureSpace(this.lineHeight(size));
+    this.doc.setFillColor(...MUTED_COLOR);
+    this.doc.circle(MARGIN + indent + 3, this.y + size / 2, 1.6, "F");
+    this.paragraph(text, { size, indent: indent + 12 });
+  }
+
+  heading(text: string) {
+    // Keep a heading together with the start of its section
+    this.ensureSpace(60);
+    this.y += 8;
+    this.setFont(13, "bold", BRAND_COLOR);
+    this.doc.text(text, MARGIN, this.y, { baseline: "top" });
+    this.y += this.lineHeight(13);
+    this.doc.setDrawColor(...RULE_COLOR);
+    this.doc.setLineWidth(0.75);
+    this.doc.line(MARGIN, this.y, this.pageWidth - MARGIN, this.y);
+    this.y += 8;
+  }
+
+  space(height: number) {
+    this.y += height;
+  }
+}
+
+function drawBanner(layout: PdfLayout, report: InspectionReport) {
+  const { doc } = layout;
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, layout.pageWidth, BANNER_HEIGHT, "F");
+
+  layout.setFont(18, "bold", [255, 255, 255]);
+  doc.text("HVAC Inspection Report", MARGIN, 22, { baseline: "top" });
+  layout.setFont(10, "normal", [219, 234, 254]);
+  doc.text("HVAC Scanner", MARGIN, 46, { baseline: "top" });
+  doc.text(
+    formatDate(report.completedAt ?? report.createdAt),
+    layout.pageWidth - MARGIN,
+    46,
+    { baseline: "top", align: "right" }
+  );
+  layout.y = BANNER_HEIGHT + 24;
+}
+
+function drawSummary(layout: PdfLayout, report: InspectionReport) {
+  const { technician } = report;
+  layout.paragraph(describeEquipment(report.equipment), {
+    size: 16,
+    style: "bold",
+  });
+  const details = [
+    report.equipment.location && `Location: ${report.equipment.location}`,
+    `Inspected: ${formatDate(report.completedAt ?? report.createdAt)}`,
+    technician && `Technician: ${technician}`,
+    `Report: ${report.id.slice(0, 8).toUpperCase()}`,
+  ].filter(Boolean) as string[];
+  layout.paragraph(details.join("   |   "), { size: 9, color: MUTED_COLOR });
+  layout.space(6);
+}
+
+function drawNameplate(
+  layout: PdfLayout,
+  report: InspectionReport,
+  changes: EquipmentChange[]
+) {
+  const rows = NAMEPLATE_FIELDS.flatMap((field) => {
+    const value = formatFieldValue(field, report.equipment[field]);
+    if (value === null) return [];
+    return [
+      {
+        label: EQUIPMENT_FIELD_LABELS[field] ?? field,
+        value,
+        source: formatSource(findFieldSource(report, changes, field)),
+      },
+    ];
+  });
+
+  layout.heading("Equipment Nameplate");
+  if (rows.length === 0) {
+    layout.paragraph("No nameplate data was recorded.", {
+      color: MUTED_COLOR,
+    });
+    return;
+  }
+
+  const { doc } = layout;
+  const labelWidth = 110;
+  const sourceWidth = 110;
+  const valueWidth = layout.contentWidth - labelWidth - sourceWidth;
+  const size = 10;
+  const lineHeight = layout.lineHeight(size);
+
+  layout.setFont(8, "bold", MUTED_COLOR);
+  doc.text("FIELD", MARGIN, layout.y, { baseline: "top" });
+  doc.text("VALUE", MARGIN + labelWidth, layout.y, { baseline: "top" });
+  doc.text("SOURCE", MARGIN + labelWidth + valueWidth, layout.y, {
+    baseline: "top",
+  });
+  layout.space(14);
+
+  rows.forEach((row, index) => {
+    layout.setFont(size);
+    const lines = layout.wrap(row.value, valueWidth - 8);
+    const height = lines.length * lineHeight + 6;
+    layout.ensureSpace(height);
+    if (index % 2 === 0) {
+      doc.setFillColor(...PANEL_COLOR);
+      doc.rect(MARGIN, layout.y, layout.contentWidth, height, "F");
+    }
+    const top = layout.y + 3;
+    layout.setFont(size, "bold");
+    doc.text(row.label, MARGIN + 4, top, { baseline: "top" });
+    layout.setFont(size);
+    doc.text(lines, MARGIN + labelWidth, top, {
+      baseline: "top",
+      lineHeightFactor: LINE_HEIGHT_FACTOR,
+    });
+    layout.setFont(9, "normal", MUTED_COLOR);
+    doc.text(row.source, MARGIN + labelWidth + valueWidth, top + 1, {
+      baseline: "top",
+    });
+    layout.y += height;
+  });
+  layout.space(6);
+}
+
+function drawAssessment(layout: PdfLayout, result: InspectionResult) {
+  const { doc } = layout;
+  layout.heading("Assessment");
+
+  const boxHeight = 50;
+  const boxWidth = (layout.contentWidth - 12) / 2;
+  layout.ensureSpace(boxHeight);
+  const boxes: [string, string, RGB][] = [
+    [
+      "OVERALL CONDITION",
+      CONDITION_LABELS[result.overallCondition] ?? "Unknown",
+      CONDITION_COLORS[result.overallCondition] ?? TEXT_COLOR,
+    ],
+    [
+      "MAINTENANCE URGENCY",
+      URGENCY_LABELS[result.maintenanceUrgency] ?? "Not specified",
+      result.maintenanceUrgency === "immediate"
+        ? SEVERITY_COLORS.critical
+        : TEXT_COLOR,
+    ],
+  ];
+  boxes.forEach(([label, value, color], index) => {
+    const x = MARGIN + index * (boxWidth + 12);
+    doc.setFillColor(...PANEL_COLOR);
+    doc.roundedRect(x, layout.y, boxWidth, boxHeight, 4, 4, "F");
+    layout.setFont(8, "bold", MUTED_COLOR);
+    doc.text(label, x + 12, layout.y + 10, { baseline: "top" });
+    layout.setFont(14, "bold", color);
+    doc.text(value, x + 12, layout.y + 24, { baseline: "top" });
+  });
+  layout.space(boxHeight + 10);
+
+  if (result.equipmentType) {
+    layout.paragraph(
+      `Identified as: ${
+        getEquipmentTypeLabel(result.equipmentType) ?? result.equipmentType
+      }`,
+      { color: MUTED_COLOR }
+    );
+  }
+  if (result.equipmentDescription) {
+    layout.paragraph(result.equipmentDescription);
+  }
+}
+
+function drawFailure(
+  layout: PdfLayout,
+  failure: FailureDetection,
+  index: number
+) {
+  const { doc } = layout;
+  const badge = SEVERITY_LABELS[failure.severity] ?? humanize(failure.severity);
+  const color = SEVERITY_COLORS[failure.severity] ?? MUTED_COLOR;
+  const badgeWidth = 64;
+
+  layout.setFont(11, "bold");
+  const title = layout.wrap(
+    `${index + 1}. ${failure.description}`,
+    layout.contentWidth - badgeWidth - 12
+  );
+  const titleHeight = title.length * layout.lineHeight(11);
+  layout.ensureSpace(titleHeight + 40);
+
+  doc.setFillColor(...color);
+  doc.roundedRect(
+    layout.pageWidth - MARGIN - badgeWidth,
+    layout.y,
+    badgeWidth,
+    16,
+    8,
+    8,
+    "F"
+  );
+  layout.setFont(8, "bold", [255, 255, 255]);
+  doc.text(
+    badge.toUpperCase(),
+    layout.pageWidth - MARGIN - badgeWidth / 2,
+    layout.y + 4,
+    { baseline: "top", align: "center" }
+  );
+  layout.setFont(11, "bold");
+  doc.text(title, MARGIN, layout.y, {
+    baseline: "top",
+    lineHeightFactor: LINE_HEIGHT_FACTOR,
+  });
+  layout.y += Math.max(titleHeight, 18) + 2;
+
+  const facts = [
+    `Type: ${humanize(failure.type)}`,
+    failure.location && `Location: ${failure.location}`,
+    `Confidence: ${Math.round(failure.confidence * 100)}%`,
+  ].filter(Boolean) as string[];
+  layout.paragraph(facts.join("   |   "), { size: 9, color: MUTED_COLOR });
+
+  if (failure.recommendations.length > 0) {
+    layout.space(4);
+    failure.recommendations.forEach((recommendation) =>
+      layout.bullet(recommendation, 4)
+    );
+  }
+  layout.space(12);
+}
+
+function drawFailures(layout: PdfLayout, result: InspectionResult) {
+  const failures = result.failures ?? [];
+  layout.heading(`Issues Detected (${failures.length})`);
+  if (failures.length === 0) {
+    layout.paragraph("No issues were detected.", { color: MUTED_COLOR });
+    return;
+  }
+  failures.forEach((failure, index) => drawFailure(layout, failure, index));
+}
+
+function drawRecommendations(layout: PdfLayout, result: InspectionResult) {
+  if (!result.generalRecommendations?.length) return;
+  layout.heading("General Recommendations");
+  result.generalRecommendations.forEach((recommendation) =>
+    layout.bullet(recommendation)
+  );
+}
+
+function drawNotes(layout: PdfLayout, report: InspectionReport) {
+  const notes = [
+    ["Inspection notes", report.notes],
+    ["Equipment notes", report.equipment.notes],
+  ].filter((entry): entry is [string, string] => Boolean(entry[1]?.trim()));
+  if (notes.length === 0) return;
+
+  layout.heading("Technician Notes");
+  notes.forEach(([label, text]) => {
+    layout.paragraph(label, { size: 9, style: "bold", color: MUTED_COLOR });
+    layout.paragraph(text.trim());
+    layout.space(6);
+  });
+}
+
+// Two photos per row, each scaled to fit its cell
+function drawPhotos(layout: PdfLayout, photos: ReportPhoto[]) {
+  if (photos.length === 0) return;
+  const { doc } = layout;
+  layout.heading(`Photos (${photos.length})`);
+
+  const cellWidth = (layout.contentWidth - PHOTO_GAP) / 2;
+  const captionHeight = 16;
+  for (let start = 0; start < photos.length; start += 2) {
+    layout.ensureSpace(PHOTO_HEIGHT + captionHeight);
+    photos.slice(start, start + 2).forEach((photo, column) => {
+      const scale = Math.min(
+        cellWidth / photo.width,
+        PHOTO_HEIGHT / photo.height
+      );
+      const width = photo.width * scale;
+      const height = photo.height * scale;
+      const x = MARGIN + column * (cellWidth + PHOTO_GAP);
+      doc.setFillColor(...PANEL_COLOR);
+      doc.rect(x, layout.y, cellWidth, PHOTO_HEIGHT, "F");
+      doc.addImage(
+        photo.data,
+        "JPEG",
+        x + (cellWidth - width) / 2,
+        layout.y + (PHOTO_HEIGHT - height) / 2,
+        width,
+        height
+      );
+      layout.setFont(8, "normal", MUTED_COLOR);
+      doc.text(photo.label, x, layout.y + PHOTO_HEIGHT + 4, {
+        baseline: "top",
+      });
+    });
+    layout.space(PHOTO_HEIGHT + captionHeight + 8);
+  }
+}
+
+// Drawn last, once the page count is known
+function drawFooters(layout: PdfLayout, report: InspectionReport) {
+  const { doc } = layout;
+  const pages = doc.getNumberOfPages();
+  const generated = `Generated ${new Date().toLocaleString()}`;
+  const title = `${describeEquipment(report.equipment)} inspection`;
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    const y = layout.pageHeight - MARGIN;
+    doc.setDrawColor(...RULE_COLOR);
+    doc.setLineWidth(0.75);
+    doc.line(MARGIN, y - 8, layout.pageWidth - MARGIN, y - 8);
+    layout.setFont(8, "normal", MUTED_COLOR);
+    doc.text(page === 1 ? generated : title, MARGIN, y, { baseline: "top" });
+    doc.text(`Page ${page} of ${pages}`, layout.pageWidth - MARGIN, y, {
+      baseline: "top",
+      align: "right",
+    });
+  }
+}
+
+export function reportFileName(report: InspectionReport): string {
+  const name = describeEquipment(report.equipment)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  const date = (report.completedAt ?? report.createdAt)
+    .toISOString()
+    .slice(0, 10);
+  return `inspection-${name}-${date}.pdf`;
+}
+
+// Fails with PROCESSING_ERROR for reports without an analysis; storage
+// errors (such as a locked database) are passed through
+export async function generateReportPdf(
+  report: InspectionReport
+): Promise<Blob> {
+  const result = report.inspectionResult;
+  if (!result) {
+    throw createAppError(
+      "PROCESSING_ERROR",
+      "This inspection has not been analyzed yet"
+    );
+  }
+
+  const [{ jsPDF }, changes, photos] = await Promise.all([
+    // Loaded on demand; most sessions never generate a report
+    import("jspdf"),
+    getEquipmentHistoryRepository().findByEquipmentId(report.equipmentId),
+    loadPhotos(report),
+  ]);
+
+  try {
+    const doc = new jsPDF({ unit: "pt", format: "letter" });
+    doc.setProperties({
+      title: `${describeEquipment(report.equipment)} inspection report`,
+      subject: "HVAC inspection report",
+      author: report.technician || "HVAC Scanner",
+      creator: "HVAC Scanner",
+    });
+
+    const layout = new PdfLayout(doc);
+    drawBanner(layout, report);
+    drawSummary(layout, report);
+    drawNameplate(layout, report, changes);
+    drawAssessment(layout, result);
+    drawFailures(layout, result);
+    drawRecommendations(layout, result);
+    drawNotes(layout, report);
+    drawPhotos(layout, photos);
+    drawFooters(layout, report);
+
+    return doc.output("blob");
+  } catch (error) {
+    console.error("Error generating report PDF:", error);
+    throw createAppError("PROCESSING_ERROR", "Could not create the PDF", error);
+  }
+}
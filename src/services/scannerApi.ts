@@ -0,0 +1,313 @@
+import type {
+  APIResponse,
+  ErrorCode,
+  FailureDetection,
+  HVACEquipment,
+  InspectionResult,
+  LabelScanResult,
+  ProcessingStatus,
+} from "@/types";
+import { createAppError, isAppError } from "@/services/errors";
+import { preprocessImage } from "@/services/imagePreprocessing";
+
+export interface ApiRequestOptions {
+  signal?: AbortSignal;
+  // Per-attempt timeout; retries get a fresh timer
+  timeoutMs?: number;
+  // Stage transitions: preprocessing -> uploading -> analyzing -> extracting
+  onProgress?: (status: ProcessingStatus) => void;
+}
+
+interface HttpResponse {
+  status: number;
+  ok: boolean;
+  text: string;
+  header: (name: string) => string | null;
+}
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 15000;
+const RETRYABLE_STATUS = [429, 502, 503, 504];
+
+// Thin browser client for the /api/* route handlers. All model calls happen
+// on the server; this only prepares images and unwraps APIResponse payloads.
+class ScannerApiClient {
+  // Several photos of the same nameplate are read and merged server-side
+  async scanLabel(
+    imageFiles: File[],
+    options: ApiRequestOptions = {}
+  ): Promise<LabelScanResult> {
+    options.onProgress?.({
+      isProcessing: true,
+      stage: "preprocessing",
+      message: `Enhancing ${imageFiles.length} image(s)`,
+    });
+    const formData = new FormData();
+    const images = await Promise.all(imageFiles.map(preprocessImage));
+    images.forEach((image) => formData.append("image", image));
+
+    const result = await this.post<LabelScanResult>(
+      "/api/scan-label",
+      { body: formData },
+      { timeoutMs: 60000, ...options }
+    );
+
+    return {
+      ...result,
+      extractedData: {
+        ...result.extractedData,
+        createdAt: new Date(result.extractedData.createdAt),
+        updatedAt: new Date(result.extractedData.updatedAt),
+      },
+    };
+  }
+
+  async analyzeEquipment(
+    imageFiles: File[],
+    options: ApiRequestOptions = {}
+  ): Promise<InspectionResult> {
+    options.onProgress?.({
+      isProcessing: true,
+      stage: "preprocessing",
+      message: `Enhancing ${imageFiles.length} image(s)`,
+    });
+    const formData = new FormData();
+    const images = await Promise.all(imageFiles.map(preprocessImage));
+    images.forEach((image) => formData.append("images", image));
+
+    return this.post<InspectionResult>(
+      "/api/analyze-equipment",
+      { body: formData },
+      { timeoutMs: 90000, ...options }
+    );
+  }
+
+  async generateDetailedRecommendations(
+    equipment: Partial<HVACEquipment>,
+    failures: FailureDetection[],
+    options: ApiRequestOptions = {}
+  ): Promise<string[]> {
+    return this.post<string[]>(
+      "/api/recommendations",
+      {
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ equipment, failures }),
+      },
+      { timeoutMs: 60000, ...options }
+    );
+  }
+
+  // Retries transient failures (network errors, 429 and 5xx gateway errors)
+  // with exponential backoff and full jitter, honouring Retry-After.
+  private async post<T>(
+    url: string,
+    init: RequestInit,
+    options: ApiRequestOptions
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.postOnce<T>(url, init, options);
+      } catch (error) {
+        const retryAfter = isAppError(error)
+          ? (error.details?.retryAfterMs as number | undefined)
+          : undefined;
+        const canRetry =
+          isAppError(error) &&
+          error.code === "NETWORK_ERROR" &&
+          !error.details?.timedOut &&
+          attempt < MAX_RETRIES;
+        if (!canRetry) throw error;
+
+        const backoff = Math.min(
+          MAX_RETRY_DELAY_MS,
+          BASE_RETRY_DELAY_MS * 2 ** attempt
+        );
+        const delay = retryAfter ?? Math.random() * backoff;
+        console.warn(
+          `Request to ${url} failed, retrying in ${Math.round(delay)}ms`
+        );
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  private async postOnce<T>(
+    url: string,
+    init: RequestInit,
+    { signal, timeoutMs, onProgress }: ApiRequestOptions
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort);
+    const timer = timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+    try {
+      if (signal?.aborted) throw cancelledError();
+
+      let response: HttpResponse;
+      try {
+        response = await sendRequest(url, init, controller.signal, {
+          onUploadProgress: (progress) =>
+            onProgress?.({
+              isProcessing: true,
+              stage: "uploading",
+              progress,
+              message: "Uploading",
+            }),
+          onUploaded: () =>
+            onProgress?.({
+              isProcessing: true,
+              stage: "analyzing",
+              message: "Waiting for AI response",
+            }),
+        });
+      } catch (error) {
+        if (timedOut) {
+          throw createAppError(
+            "NETWORK_ERROR",
+            "The request timed out",
+            error,
+            { timedOut: true }
+          );
+        }
+        if (signal?.aborted) throw cancelledError();
+        throw createAppError(
+          "NETWORK_ERROR",
+          "Could not reach the server",
+          error
+        );
+      }
+
+      onProgress?.({
+        isProcessing: true,
+        stage: "extracting",
+        message: "Reading AI response",
+      });
+
+      let payload: APIResponse<T>;
+      try {
+        payload = JSON.parse(response.text);
+      } catch (error) {
+        throw createAppError(
+          RETRYABLE_STATUS.includes(response.status)
+            ? "NETWORK_ERROR"
+            : "API_ERROR",
+          `Invalid server response (${response.status})`,
+          error
+        );
+      }
+
+      if (!response.ok || !payload.success || payload.data === undefined) {
+        // The server classifies its own errors; the status is only a
+        // fallback for responses that did not come from our handlers
+        const code: ErrorCode =
+          (payload.error as ErrorCode) ||
+          (RETRYABLE_STATUS.includes(response.status)
+            ? "NETWORK_ERROR"
+            : "API_ERROR");
+        const retryAfter = Number(response.header("Retry-After"));
+
+        throw createAppError(
+          code,
+          payload.message || `Request failed (${response.status})`,
+          undefined,
+          {
+            status: response.status,
+            retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+          }
+        );
+      }
+
+      return payload.data;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
+
+// XMLHttpRequest instead of fetch: it is the only browser API that reports
+// upload progress, which lets us tell "uploading" apart from "analyzing".
+function sendRequest(
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal,
+  handlers: {
+    onUploadProgress: (progress: number) => void;
+    onUploaded: () => void;
+  }
+): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    new Headers(init.headers).forEach((value, key) =>
+      xhr.setRequestHeader(key, value)
+    );
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        handlers.onUploadProgress(event.loaded / event.total);
+      }
+    };
+    xhr.upload.onload = () => handlers.onUploaded();
+
+    xhr.onload = () => {
+      signal.removeEventListener("abort", onAbort);
+      resolve({
+        status: xhr.status,
+        ok: xhr.status >= 200 && xhr.status < 300,
+        text: xhr.responseText,
+        header: (name) => xhr.getResponseHeader(name),
+      });
+    };
+    xhr.onerror = () => {
+      signal.removeEventListener("abort", onAbort);
+      reject(new TypeError("Network request failed"));
+    };
+
+    const onAbort = () => {
+      xhr.abort();
+      reject(new DOMException("Request aborted", "AbortError"));
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    handlers.onUploadProgress(0);
+    xhr.send(init.body as XMLHttpRequestBodyInit | null);
+  });
+}
+
+function cancelledError() {
+  return createAppError("REQUEST_CANCELLED", "Request cancelled");
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export const scannerApi = new ScannerApiClient();
+export default scannerApi;
@@ -0,0 +1,47 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { createAppError } from "@/services/errors";
+import { runServerMigrations } from "./migrations";
+
+// The server's SQLite database, opened on first use by the route handlers.
+// DATABASE_PATH picks the file (":memory:" for a throwaway database).
+
+const DEFAULT_DATABASE_PATH = "./data/hvac-scanner.db";
+
+// Kept on globalThis so every route bundle, and every reload in development,
+// shares one connection
+const globalDb = globalThis as { serverDatabase?: Database.Database };
+
+export function getServerDatabase(): Database.Database {
+  if (!globalDb.serverDatabase) {
+    const file = process.env.DATABASE_PATH || DEFAULT_DATABASE_PATH;
+    try {
+      if (file !== ":memory:") {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+      }
+      const db = new Database(file);
+      db.pragma("journal_mode = WAL");
+      runServerMigrations(db);
+      globalDb.serverDatabase = db;
+    } catch (error) {
+      throw createAppError(
+        "STORAGE_ERROR",
+        "Could not open the server database",
+        error,
+        { file }
+      );
+    }
+  }
+  return globalDb.serverDatabase;
+}
+
+// Hands out the next sync revision; call inside the write's transaction
+export function nextRevision(db: Database.Database): number {
+  const row = db
+    .prepare(
+      "UPDATE revision_counter SET value = value + 1 WHERE id = 1 RETURNING value"
+    )
+    .get() as { value: number };
+  return row.value;
+}
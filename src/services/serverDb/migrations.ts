@@ -0,0 +1,127 @@
+import type Database from "better-sqlite3";
+
+// Ordered schema upgrades for the server's SQLite database, tracked with
+// PRAGMA user_version. Each step runs in a transaction with the version
+// bump, so a failing step leaves the database at its previous version.
+//
+// Never edit a released step: add a new one with the next version number.
+
+export interface ServerMigration {
+  version: number;
+  description: string;
+  sql: string;
+}
+
+// Columns mirror DatabaseEquipment, DatabaseInspectionReport and
+// DatabaseStoredImage. Nested values are JSON text and fields outside the
+// schema are kept in `extra`. Every row carries the sync revision it was
+// last written at; deleted records stay as tombstones with only an id.
+export const SERVER_MIGRATIONS: ServerMigration[] = [
+  {
+    version: 1,
+    description: "Create equipment, reports and images tables",
+    sql: `
+      CREATE TABLE revision_counter (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        value INTEGER NOT NULL
+      );
+      INSERT INTO revision_counter (id, value) VALUES (1, 0);
+
+      CREATE TABLE equipment (
+        id TEXT PRIMARY KEY,
+        brand TEXT,
+        model TEXT,
+        series TEXT,
+        serial_number TEXT,
+        capacity TEXT,
+        btu REAL,
+        manufacture_date TEXT,
+        voltage TEXT,
+        amperage TEXT,
+        phase INTEGER,
+        hertz REAL,
+        mca REAL,
+        mocp REAL,
+        rla REAL,
+        lra REAL,
+        refrigerant_type TEXT,
+        factory_charge TEXT,
+        seer_rating REAL,
+        eer_rating REAL,
+        ahri_number TEXT,
+        equipment_type TEXT,
+        location TEXT,
+        notes TEXT,
+        specs TEXT,
+        created_at TEXT,
+        updated_at TEXT,
+        extra TEXT,
+        revision INTEGER NOT NULL,
+        deleted INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX equipment_brand ON equipment (brand);
+      CREATE INDEX equipment_type ON equipment (equipment_type);
+      CREATE INDEX equipment_updated_at ON equipment (updated_at);
+      CREATE INDEX equipment_revision ON equipment (revision);
+
+      CREATE TABLE reports (
+        id TEXT PRIMARY KEY,
+        equipment_id TEXT,
+        status TEXT,
+        overall_condition TEXT,
+        maintenance_urgency TEXT,
+        created_at TEXT,
+        completed_at TEXT,
+        notes TEXT,
+        label_images TEXT,
+        equipment_images TEXT,
+        label_scan_result TEXT,
+        inspection_result TEXT,
+        extra TEXT,
+        revision INTEGER NOT NULL,
+        deleted INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX reports_equipment_id ON reports (equipment_id);
+      CREATE INDEX reports_status ON reports (status);
+      CREATE INDEX reports_condition ON reports (overall_condition);
+      CREATE INDEX reports_created_at ON reports (created_at);
+      CREATE INDEX reports_revision ON reports (revision);
+
+      CREATE TABLE images (
+        id TEXT PRIMARY KEY,
+        report_id TEXT,
+        equipment_id TEXT,
+        type TEXT,
+        captured_at TEXT,
+        file_size INTEGER,
+        mime_type TEXT,
+        dimensions TEXT,
+        quality TEXT,
+        blob BLOB,
+        blob_type TEXT,
+        thumbnail BLOB,
+        thumbnail_type TEXT,
+        extra TEXT,
+        revision INTEGER NOT NULL,
+        deleted INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX images_report_id ON images (report_id);
+      CREATE INDEX images_equipment_id ON images (equipment_id);
+      CREATE INDEX images_revision ON images (revision);
+    `,
+  },
+];
+
+export const SERVER_DB_VERSION =
+  SERVER_MIGRATIONS[SERVER_MIGRATIONS.length - 1].version;
+
+export function runServerMigrations(db: Database.Database) {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  for (const migration of SERVER_MIGRATIONS) {
+    if (migration.version <= current) continue;
+    db.transaction(() => {
+      db.exec(migration.sql);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+  }
+}
@@ -0,0 +1,196 @@
+import type {
+  DatabaseEquipment,
+  DatabaseInspectionReport,
+  DatabaseStoredImage,
+  InspectionReport,
+  InspectionResult,
+} from "@/types";
+import { createAppError } from "@/services/errors";
+import { normalizeNameplate } from "@/services/normalization";
+import {
+  fromDatabaseEquipment,
+  fromDatabaseReport,
+  toDatabaseEquipment,
+  toDatabaseReport,
+  toISOString,
+} from "@/services/db/serializers";
+import {
+  EQUIPMENT_TABLE,
+  IMAGES_TABLE,
+  REPORTS_TABLE,
+  isStoredBlob,
+  type TableDefinition,
+} from "./tables";
+
+// Checks records sent to the REST endpoints and normalizes them the way the
+// devices do (ISO dates, canonical equipment types) before they are stored.
+
+export const REPORT_STATUSES: InspectionReport["status"][] = [
+  "draft",
+  "processing",
+  "completed",
+  "error",
+];
+export const REPORT_CONDITIONS: InspectionResult["overallCondition"][] = [
+  "excellent",
+  "good",
+  "fair",
+  "poor",
+  "critical",
+];
+export const REPORT_URGENCIES: InspectionResult["maintenanceUrgency"][] = [
+  "immediate",
+  "within_week",
+  "within_month",
+  "routine",
+  "none",
+];
+
+// Image metadata as served by REST; the photo itself is behind `fileUrl`
+export interface ImageResource
+  extends Omit<DatabaseStoredImage, "blob" | "thumbnail"> {
+  fileUrl: string;
+  thumbnailUrl: string;
+}
+
+function invalidRecord(message: string) {
+  return createAppError("INVALID_REQUEST", message);
+}
+
+// Numeric fields of the records; every other plain column holds text
+const NUMBER_FIELDS = new Set([
+  "btu",
+  "phase",
+  "hertz",
+  "mca",
+  "mocp",
+  "rla",
+  "lra",
+  "seerRating",
+  "eerRating",
+  "fileSize",
+]);
+
+// SQLite can only bind text and numbers, so anything else in a plain column
+// is rejected here rather than failing the insert. Also used for sync pushes.
+export function checkColumns(
+  table: TableDefinition,
+  record: Record<string, unknown>
+) {
+  for (const { field, kind } of table.columns) {
+    const value = record[field];
+    if (kind !== "value" || value === undefined || value === null) continue;
+    if (NUMBER_FIELDS.has(field)) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw invalidRecord(`${field} must be a number`);
+      }
+    } else if (typeof value !== "string") {
+      throw invalidRecord(`${field} must be a string`);
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkImageList(record: Record<string, unknown>, field: string) {
+  const value = record[field];
+  if (value === undefined || value === null) return;
+  if (!Array.isArray(value) || !value.every(isObject)) {
+    throw invalidRecord(`${field} must be a list of images`);
+  }
+}
+
+// `id` comes from the URL when the body is sent to /{id}
+function asRecord(body: unknown, id?: string): Record<string, unknown> {
+  if (!isObject(body)) {
+    throw invalidRecord("The request body must be a JSON object");
+  }
+  const record = { ...body };
+  if (id !== undefined) {
+    if (record.id !== undefined && record.id !== id) {
+      throw invalidRecord("The id in the body does not match the URL");
+    }
+    record.id = id;
+  }
+  if (typeof record.id !== "string" || !record.id) {
+    throw invalidRecord("id is required");
+  }
+  return record;
+}
+
+export function parseEquipment(body: unknown, id?: string): DatabaseEquipment {
+  const fields = asRecord(body, id);
+  checkColumns(EQUIPMENT_TABLE, fields);
+  const record = fields as unknown as DatabaseEquipment;
+  // A client that sends no edit time is making the edit now
+  const equipment = fromDatabaseEquipment({
+    ...record,
+    createdAt: toISOString(record.createdAt),
+    updatedAt: toISOString(record.updatedAt),
+  });
+  return toDatabaseEquipment({
+    ...equipment,
+    specs: normalizeNameplate(equipment),
+  });
+}
+
+export function parseReport(
+  body: unknown,
+  id?: string
+): DatabaseInspectionReport {
+  const fields = asRecord(body, id);
+  checkColumns(REPORTS_TABLE, fields);
+  checkImageList(fields, "labelImages");
+  checkImageList(fields, "equipmentImages");
+  for (const field of ["labelScanResult", "inspectionResult"]) {
+    if (fields[field] !== undefined && !isObject(fields[field])) {
+      throw invalidRecord(`${field} must be an object`);
+    }
+  }
+  const record = fields as unknown as DatabaseInspectionReport;
+  if (typeof record.equipmentId !== "string" || !record.equipmentId) {
+    throw invalidRecord("equipmentId is required");
+  }
+  if (!REPORT_STATUSES.includes(record.status)) {
+    throw invalidRecord(`status must be one of ${REPORT_STATUSES.join(", ")}`);
+  }
+  return toDatabaseReport(
+    fromDatabaseReport({
+      ...record,
+      labelImages: record.labelImages ?? [],
+      equipmentImages: record.equipmentImages ?? [],
+      createdAt: toISOString(record.createdAt),
+    })
+  );
+}
+
+export function parseImageMetadata(
+  body: unknown
+): Omit<DatabaseStoredImage, "blob" | "thumbnail"> {
+  const fields = asRecord(body);
+  checkColumns(IMAGES_TABLE, fields);
+  const record = fields as unknown as DatabaseStoredImage;
+  if (record.type !== "label" && record.type !== "equipment") {
+    throw invalidRecord('type must be "label" or "equipment"');
+  }
+  const metadata = { ...record, capturedAt: toISOString(record.capturedAt) };
+  delete (metadata as Partial<DatabaseStoredImage>).blob;
+  delete (metadata as Partial<DatabaseStoredImage>).thumbnail;
+  return metadata;
+}
+
+export function toImageResource(
+  record: Record<string, unknown>
+): ImageResource {
+  const metadata = Object.fromEntries(
+    Object.entries(record).filter(([, value]) => !isStoredBlob(value))
+  ) as Omit<DatabaseStoredImage, "blob" | "thumbnail">;
+  const fileUrl = `/api/images/${encodeURIComponent(metadata.id)}/file`;
+  return {
+    ...metadata,
+    fileUrl,
+    thumbnailUrl: `${fileUrl}?variant=thumbnail`,
+  };
+}
@@ -0,0 +1,156 @@
+import type { PaginatedResponse, SyncStoreName } from "@/types";
+import { getServerDatabase, nextRevision } from "./connection";
+import {
+  fromRow,
+  rowColumns,
+  TABLES,
+  toRow,
+  type TableDefinition,
+} from "./tables";
+
+type RecordData = Record<string, unknown>;
+
+export interface ListFilter {
+  column: string; // Trusted column name; only the value is a parameter
+  op: "=" | ">=" | "<=" | "like";
+  value: string | number;
+}
+
+export interface ListOptions {
+  filters?: ListFilter[];
+  orderBy: string; // Trusted "column DESC"-style clause
+  page: number;
+  pageSize: number;
+}
+
+// A row as sync sees it, tombstones included
+export interface StoredRecord {
+  id: string;
+  revision: number;
+  deleted: boolean;
+  record?: RecordData;
+}
+
+// Reads and writes one table. Every write takes a new sync revision, so
+// changes made through REST reach the devices on their next pull.
+export class ServerRepository {
+  constructor(readonly table: TableDefinition) {}
+
+  list({
+    filters = [],
+    orderBy,
+    page,
+    pageSize,
+  }: ListOptions): PaginatedResponse<RecordData> {
+    const db = getServerDatabase();
+    const where = [
+      "deleted = 0",
+      ...filters.map(({ column, op }, index) =>
+        op === "like"
+          ? `${column} LIKE @p${index} ESCAPE '\\'`
+          : `${column} ${op} @p${index}`
+      ),
+    ].join(" AND ");
+    const params = Object.fromEntries(
+      filters.map(({ op, value }, index) => [
+        `p${index}`,
+        op === "like" ? `%${String(value).replace(/[\\%_]/g, "\\$&")}%` : value,
+      ])
+    );
+
+    const { total } = db
+      .prepare(
+        `SELECT COUNT(*) AS total FROM ${this.table.name} WHERE ${where}`
+      )
+      .get(params) as { total: number };
+    const rows = db
+      .prepare(
+        `SELECT * FROM ${this.table.name} WHERE ${where}
+         ORDER BY ${orderBy} LIMIT @limit OFFSET @offset`
+      )
+      .all({ ...params, limit: pageSize, offset: (page - 1) * pageSize });
+
+    return {
+      items: rows.map((row) => fromRow(this.table, row as RecordData)),
+      page,
+      pageSize,
+      total,
+    };
+  }
+
+  get(id: string): RecordData | null {
+    const stored = this.getStored(id);
+    return stored && !stored.deleted ? stored.record! : null;
+  }
+
+  getStored(id: string): StoredRecord | null {
+    const row = getServerDatabase()
+      .prepare(`SELECT * FROM ${this.table.name} WHERE id = ?`)
+      .get(id) as RecordData | undefined;
+    return row ? this.toStored(row) : null;
+  }
+
+  // Inserts or replaces the record; returns its new revision
+  put(record: RecordData): number {
+    const db = getServerDatabase();
+    const columns = [...rowColumns(this.table), "revision", "deleted"];
+    return db.transaction(() => {
+      const revision = nextRevision(db);
+      db.prepare(
+        `INSERT INTO ${this.table.name} (${columns.join(", ")})
+         VALUES (${columns.map((column) => `@${column}`).join(", ")})
+         ON CONFLICT (id) DO UPDATE SET ${columns
+           .filter((column) => column !== "id")
+           .map((column) => `${column} = excluded.${column}`)
+           .join(", ")}`
+      ).run({ ...toRow(this.table, record), revision, deleted: 0 });
+      return revision;
+    })();
+  }
+
+  // Replaces the record with a tombstone; returns its revision. Deleting an
+  // unknown id still leaves a tombstone, so devices that have it drop it.
+  delete(id: string): number {
+    const db = getServerDatabase();
+    return db.transaction(() => {
+      const revision = nextRevision(db);
+      db.prepare(`DELETE FROM ${this.table.name} WHERE id = ?`).run(id);
+      db.prepare(
+        `INSERT INTO ${this.table.name} (id, revision, deleted) VALUES (?, ?, 1)`
+      ).run(id, revision);
+      return revision;
+    })();
+  }
+
+  // Rows written after revision `since`, oldest first
+  changesSince(since: number, limit: number): StoredRecord[] {
+    const rows = getServerDatabase()
+      .prepare(
+        `SELECT * FROM ${this.table.name} WHERE revision > ?
+         ORDER BY revision LIMIT ?`
+      )
+      .all(since, limit) as RecordData[];
+    return rows.map((row) => this.toStored(row));
+  }
+
+  private toStored(row: RecordData): StoredRecord {
+    const deleted = row.deleted === 1;
+    return {
+      id: row.id as string,
+      revision: row.revision as number,
+      deleted,
+      record: deleted ? undefined : fromRow(this.table, row),
+    };
+  }
+}
+
+const instances = new Map<SyncStoreName, ServerRepository>();
+
+export function getServerRepository(store: SyncStoreName): ServerRepository {
+  let instance = instances.get(store);
+  if (!instance) {
+    instance = new ServerRepository(TABLES[store]);
+    instances.set(store, instance);
+  }
+  return instance;
+}
@@ -0,0 +1,109 @@
+import type {
+  SyncPullResponse,
+  SyncPushChange,
+  SyncPushResult,
+  SyncRecord,
+  SyncStoreName,
+} from "@/types";
+import type { SyncServerStore } from "@/services/sync/server";
+import { MAX_PULL_IMAGES, toPullPage } from "@/services/sync/paging";
+import { getServerDatabase } from "./connection";
+import { getServerRepository, type StoredRecord } from "./repository";
+import { isStoredBlob, TABLES, type StoredBlob } from "./tables";
+
+type RecordData = Record<string, unknown>;
+
+// Image blobs travel as { base64, type } and are stored as BLOB columns
+function fromSyncData(store: SyncStoreName, data: RecordData): RecordData {
+  const record = { ...data };
+  for (const { field, kind } of TABLES[store].columns) {
+    const value = data[field] as { base64?: unknown; type?: unknown };
+    if (kind === "blob" && typeof value?.base64 === "string") {
+      record[field] = {
+        data: Buffer.from(value.base64, "base64"),
+        type: typeof value.type === "string" ? value.type : "",
+      } satisfies StoredBlob;
+    }
+  }
+  return record;
+}
+
+function toSyncData(record: RecordData): RecordData {
+  return Object.fromEntries(
+    Object.entries(record).map(([field, value]) => [
+      field,
+      isStoredBlob(value)
+        ? { base64: value.data.toString("base64"), type: value.type }
+        : value,
+    ])
+  );
+}
+
+function toSyncRecord(store: SyncStoreName, stored: StoredRecord): SyncRecord {
+  return {
+    store,
+    id: stored.id,
+    revision: stored.revision,
+    deleted: stored.deleted,
+    data: stored.record && toSyncData(stored.record),
+  };
+}
+
+// Sync backed by the same tables the REST endpoints serve, so whatever the
+// devices push is what supervisors query
+export class SqliteSyncServerStore implements SyncServerStore {
+  async push(changes: SyncPushChange[]): Promise<SyncPushResult[]> {
+    const db = getServerDatabase();
+    return db.transaction(() =>
+      changes.map((change): SyncPushResult => {
+        const { store, id } = change;
+        const repository = getServerRepository(store);
+        const current = repository.getStored(id);
+        if (current && current.revision !== change.baseRevision) {
+          return {
+            store,
+            id,
+            status: "conflict",
+            current: toSyncRecord(store, current),
+          };
+        }
+        const revision =
+          change.deleted || !change.data
+            ? repository.delete(id)
+            : repository.put(fromSyncData(store, change.data));
+        return { store, id, status: "applied", revision };
+      })
+    )();
+  }
+
+  async pull(since: number, limit: number): Promise<SyncPullResponse> {
+    // One extra row per table tells whether anything is left after the page.
+    // Images are read no further than a page can carry.
+    let bound = Infinity;
+    const candidates = (Object.keys(TABLES) as SyncStoreName[])
+      .flatMap((store) => {
+        const batch =
+          (store === "images" ? Math.min(limit, MAX_PULL_IMAGES) : limit) + 1;
+        const rows = getServerRepository(store).changesSince(since, batch);
+        // A full batch may stop short of the table's later rows, so the
+        // page must not reach past its last one
+        if (rows.length === batch) {
+          bound = Math.min(bound, rows[rows.length - 1].revision);
+        }
+        return rows.map((stored) => ({ ...stored, store }));
+      })
+      .sort((a, b) => a.revision - b.revision);
+
+    const page = toPullPage(
+      candidates.filter((candidate) => candidate.revision <= bound),
+      since,
+      limit
+    );
+    return {
+      // Only the changes sent are encoded
+      changes: page.changes.map((stored) => toSyncRecord(stored.store, stored)),
+      cursor: page.cursor,
+      hasMore: page.hasMore || bound !== Infinity,
+    };
+  }
+}
@@ -0,0 +1,189 @@
+import type { SyncStoreName } from "@/types";
+
+// How records map onto the SQLite tables. Records are the same objects the
+// devices keep in IndexedDB (dates as ISO strings); photos are held as
+// StoredBlob values so both REST and sync can read them.
+
+type RecordData = Record<string, unknown>;
+
+export interface StoredBlob {
+  data: Buffer;
+  type: string;
+}
+
+type ColumnKind = "value" | "json" | "blob";
+
+interface Column {
+  field: string;
+  column: string;
+  kind: ColumnKind;
+}
+
+export interface TableDefinition {
+  name: string;
+  store: SyncStoreName;
+  columns: Column[];
+  // Columns computed from the record for filtering; not read back
+  derived?: (record: RecordData) => Record<string, unknown>;
+}
+
+function columns(kind: ColumnKind, mapping: Record<string, string>): Column[] {
+  return Object.entries(mapping).map(([field, column]) => ({
+    field,
+    column,
+    kind,
+  }));
+}
+
+export const EQUIPMENT_TABLE: TableDefinition = {
+  name: "equipment",
+  store: "equipment",
+  columns: [
+    ...columns("value", {
+      id: "id",
+      brand: "brand",
+      model: "model",
+      series: "series",
+      serialNumber: "serial_number",
+      capacity: "capacity",
+      btu: "btu",
+      manufactureDate: "manufacture_date",
+      voltage: "voltage",
+      amperage: "amperage",
+      phase: "phase",
+      hertz: "hertz",
+      mca: "mca",
+      mocp: "mocp",
+      rla: "rla",
+      lra: "lra",
+      refrigerantType: "refrigerant_type",
+      factoryCharge: "factory_charge",
+      seerRating: "seer_rating",
+      eerRating: "eer_rating",
+      ahriNumber: "ahri_number",
+      equipmentType: "equipment_type",
+      location: "location",
+      notes: "notes",
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+    }),
+    ...columns("json", { specs: "specs" }),
+  ],
+};
+
+export const REPORTS_TABLE: TableDefinition = {
+  name: "reports",
+  store: "reports",
+  columns: [
+    ...columns("value", {
+      id: "id",
+      equipmentId: "equipment_id",
+      status: "status",
+      createdAt: "created_at",
+      completedAt: "completed_at",
+      notes: "notes",
+    }),
+    ...columns("json", {
+      labelImages: "label_images",
+      equipmentImages: "equipment_images",
+      labelScanResult: "label_scan_result",
+      inspectionResult: "inspection_result",
+    }),
+  ],
+  derived: (record) => {
+    const result = record.inspectionResult as
+      | { overallCondition?: string; maintenanceUrgency?: string }
+      | undefined;
+    return {
+      overall_condition: result?.overallCondition ?? null,
+      maintenance_urgency: result?.maintenanceUrgency ?? null,
+    };
+  },
+};
+
+export const IMAGES_TABLE: TableDefinition = {
+  name: "images",
+  store: "images",
+  columns: [
+    ...columns("value", {
+      id: "id",
+      reportId: "report_id",
+      equipmentId: "equipment_id",
+      type: "type",
+      capturedAt: "captured_at",
+      fileSize: "file_size",
+      mimeType: "mime_type",
+      quality: "quality",
+    }),
+    ...columns("json", { dimensions: "dimensions" }),
+    ...columns("blob", { blob: "blob", thumbnail: "thumbnail" }),
+  ],
+};
+
+export const TABLES: Record<SyncStoreName, TableDefinition> = {
+  equipment: EQUIPMENT_TABLE,
+  reports: REPORTS_TABLE,
+  images: IMAGES_TABLE,
+};
+
+export function isStoredBlob(value: unknown): value is StoredBlob {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Buffer.isBuffer((value as StoredBlob).data)
+  );
+}
+
+export function toRow(
+  table: TableDefinition,
+  record: RecordData
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  const extra: RecordData = {};
+  const known = new Set(table.columns.map((column) => column.field));
+
+  for (const { field, column, kind } of table.columns) {
+    const value = record[field];
+    if (kind === "blob") {
+      row[column] = isStoredBlob(value) ? value.data : null;
+      row[`${column}_type`] = isStoredBlob(value) ? value.type : null;
+    } else if (kind === "json") {
+      row[column] = value === undefined ? null : JSON.stringify(value);
+    } else {
+      row[column] = value ?? null;
+    }
+  }
+  for (const [field, value] of Object.entries(record)) {
+    if (!known.has(field) && value !== undefined) extra[field] = value;
+  }
+  row.extra = Object.keys(extra).length > 0 ? JSON.stringify(extra) : null;
+  return { ...row, ...table.derived?.(record) };
+}
+
+export function fromRow(
+  table: TableDefinition,
+  row: Record<string, unknown>
+): RecordData {
+  const record: RecordData =
+    typeof row.extra === "string" ? JSON.parse(row.extra) : {};
+  for (const { field, column, kind } of table.columns) {
+    const value = row[column];
+    if (value === null || value === undefined) continue;
+    if (kind === "blob") {
+      record[field] = {
+        data: value as Buffer,
+        type: (row[`${column}_type`] as string | null) ?? "",
+      };
+    } else if (kind === "json") {
+      record[field] = JSON.parse(value as string);
+    } else {
+      record[field] = value;
+    }
+  }
+  return record;
+}
+
+// Every column written for a record, in a stable order for INSERT statements
+export function rowColumns(table: TableDefinition): string[] {
+  return Object.keys(toRow(table, {}));
+}
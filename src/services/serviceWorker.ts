@@ -0,0 +1,54 @@
+// Registration of the service worker in public/sw.js, which keeps the app
+// shell available offline. Only production builds register it: the dev
+// server's chunks change on every edit and would be served stale.
+
+const BUILD_ID = process.env.NEXT_PUBLIC_BUILD_ID ?? "dev";
+
+function isSupported(): boolean {
+  return (
+    typeof navigator !== "undefined" &&
+    "serviceWorker" in navigator &&
+    process.env.NODE_ENV === "production"
+  );
+}
+
+// `onUpdateReady` is called with a newer worker that has installed and waits
+// for the open tabs to let it take over. The worker URL carries the build
+// id, so loading a new deployment is what installs its worker.
+export async function registerServiceWorker(
+  onUpdateReady: (worker: ServiceWorker) => void
+): Promise<ServiceWorkerRegistration | null> {
+  if (!isSupported()) return null;
+
+  const registration = await navigator.serviceWorker.register(
+    `/sw.js?v=${encodeURIComponent(BUILD_ID)}`,
+    { scope: "/" }
+  );
+
+  // Without a controlling worker this is the first install, not an update
+  const isUpdate = () => navigator.serviceWorker.controller !== null;
+
+  if (registration.waiting && isUpdate()) {
+    onUpdateReady(registration.waiting);
+  }
+  registration.addEventListener("updatefound", () => {
+    const worker = registration.installing;
+    if (!worker) return;
+    worker.addEventListener("statechange", () => {
+      if (worker.state === "installed" && isUpdate()) onUpdateReady(worker);
+    });
+  });
+  return registration;
+}
+
+// Activates a waiting worker and reloads once it controls the page, so the
+// page and the cached shell come from the same build
+export function activateUpdate(worker: ServiceWorker) {
+  let reloading = false;
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+  worker.postMessage({ type: "SKIP_WAITING" });
+}
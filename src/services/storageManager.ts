@@ -0,0 +1,259 @@
+import type { DatabaseStoredImage } from "@/types";
+import {
+  getImageRepository,
+  isSealedData,
+  requestToPromise,
+  runTransaction,
+  runWrite,
+  storedBlobSize,
+  type SealedData,
+} from "@/services/db";
+import { resizeImage } from "@/services/imageStorage";
+
+// Reports how much of the browser's storage quota the app uses and applies
+// policies that shrink stored photos. Browser only: estimates come from
+// navigator.storage and down-sampling draws on a canvas.
+
+export const QUOTA_WARNING_RATIO = 0.8;
+
+const DOWNSAMPLE_SIZE = 800;
+const DOWNSAMPLE_QUALITY = 0.8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StorageEstimate {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes the browser lets this origin use
+  persisted: boolean; // Protected from eviction when the device runs low
+}
+
+export interface StoreUsage {
+  records: number;
+  bytes: number; // Approximate for equipment and reports
+}
+
+export interface StorageUsage extends StorageEstimate {
+  equipment: StoreUsage;
+  reports: StoreUsage;
+  images: StoreUsage & { originals: number };
+}
+
+export interface PolicyResult {
+  images: number; // Images changed
+  bytesFreed: number;
+}
+
+// An images row as stored: with encryption on, the photo bytes are sealed
+// while the metadata stays readable
+interface ImageRecord extends Omit<DatabaseStoredImage, "blob" | "thumbnail"> {
+  blob: Blob | SealedData;
+  thumbnail: Blob | SealedData;
+}
+
+function recordSize(record: unknown): number {
+  let sealedBytes = 0;
+  const json = JSON.stringify(record, (_key, value) => {
+    if (!isSealedData(value)) return value;
+    sealedBytes += value.data.byteLength;
+    return undefined;
+  });
+  return new Blob([json]).size + sealedBytes;
+}
+
+function isOriginal(image: ImageRecord): boolean {
+  return !image.quality || image.quality === "original";
+}
+
+export class StorageManager {
+  async getEstimate(): Promise<StorageEstimate> {
+    if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+      return { usage: 0, quota: 0, persisted: false };
+    }
+    const [estimate, persisted] = await Promise.all([
+      navigator.storage.estimate(),
+      navigator.storage.persisted?.() ?? Promise.resolve(false),
+    ]);
+    return {
+      usage: estimate.usage ?? 0,
+      quota: estimate.quota ?? 0,
+      persisted,
+    };
+  }
+
+  isNearQuota(estimate: StorageEstimate): boolean {
+    return (
+      estimate.quota > 0 &&
+      estimate.usage / estimate.quota >= QUOTA_WARNING_RATIO
+    );
+  }
+
+  async getUsage(): Promise<StorageUsage> {
+    const [estimate, [equipment, reports, images]] = await Promise.all([
+      this.getEstimate(),
+      runTransaction(
+        ["equipment", "reports", "images"],
+        "readonly",
+        (transaction) =>
+          Promise.all([
+            requestToPromise<unknown[]>(
+              transaction.objectStore("equipment").getAll()
+            ),
+            requestToPromise<unknown[]>(
+              transaction.objectStore("reports").getAll()
+            ),
+            requestToPromise<ImageRecord[]>(
+              transaction.objectStore("images").getAll()
+            ),
+          ])
+      ),
+    ]);
+
+    return {
+      ...estimate,
+      equipment: {
+        records: equipment.length,
+        bytes: equipment.reduce<number>(
+          (total, item) => total + recordSize(item),
+          0
+        ),
+      },
+      reports: {
+        records: reports.length,
+        bytes: reports.reduce<number>(
+          (total, item) => total + recordSize(item),
+          0
+        ),
+      },
+      images: {
+        records: images.length,
+        bytes: images.reduce(
+          (total, image) =>
+            total +
+            storedBlobSize(image.blob) +
+            storedBlobSize(image.thumbnail),
+          0
+        ),
+        originals: images.filter(isOriginal).length,
+      },
+    };
+  }
+
+  // Asks the browser not to evict the app's data under storage pressure.
+  // Browsers may decide without prompting, so the answer can be false.
+  async requestPersistence(): Promise<boolean> {
+    if (typeof navigator === "undefined" || !navigator.storage?.persist) {
+      return false;
+    }
+    return navigator.storage.persist();
+  }
+
+  // Re-encodes full-size photos captured more than `olderThanDays` ago so
+  // their longest side is at most `maxSize` pixels
+  async downsampleOriginals(
+    olderThanDays: number,
+    maxSize = DOWNSAMPLE_SIZE
+  ): Promise<PolicyResult> {
+    const cutoff = Date.now() - olderThanDays * DAY_MS;
+    const candidates = (await this.readImages()).filter(
+      (image) =>
+        isOriginal(image) &&
+        new Date(image.capturedAt).getTime() < cutoff &&
+        (!image.dimensions ||
+          Math.max(image.dimensions.width, image.dimensions.height) > maxSize)
+    );
+
+    // Canvas work cannot run inside an IndexedDB transaction, so each image
+    // is read (and decrypted) and written on its own, without marking it
+    // for sync
+    const repository = getImageRepository();
+    const result: PolicyResult = { images: 0, bytesFreed: 0 };
+    for (const { id } of candidates) {
+      const image = await repository.get(id);
+      if (!image) continue;
+      const resized = await resizeImage(
+        image.blob,
+        maxSize,
+        DOWNSAMPLE_QUALITY
+      );
+      if (resized.blob.size >= image.blob.size) continue;
+
+      await repository.saveLocalCopy({
+        ...image,
+        blob: resized.blob,
+        fileSize: resized.blob.size,
+        mimeType: "image/jpeg",
+        dimensions: resized.dimensions,
+        quality: "downsampled",
+      });
+      result.images++;
+      result.bytesFreed += image.blob.size - resized.blob.size;
+    }
+    return result;
+  }
+
+  // Replaces the photos of completed reports with their thumbnails. The
+  // thumbnail is reused as stored, so sealed photos stay sealed. Like
+  // down-sampling, this stays on the device and is not synced.
+  async keepThumbnailsOnly(): Promise<PolicyResult> {
+    return runWrite(() =>
+      runTransaction(
+        ["reports", "images"],
+        "readwrite",
+        async (transaction) => {
+          const imagesStore = transaction.objectStore("images");
+          const [completedIds, images] = await Promise.all([
+            requestToPromise(
+              transaction
+                .objectStore("reports")
+                .index("status")
+                .getAllKeys("completed")
+            ),
+            requestToPromise<ImageRecord[]>(imagesStore.getAll()),
+          ]);
+          const completed = new Set(completedIds);
+
+          const result: PolicyResult = { images: 0, bytesFreed: 0 };
+          const writes = images
+            .filter(
+              (image) =>
+                image.reportId &&
+                completed.has(image.reportId) &&
+                image.quality !== "thumbnail"
+            )
+            .map((record) => {
+              const thumbnailSize = storedBlobSize(record.thumbnail);
+              result.images++;
+              result.bytesFreed += storedBlobSize(record.blob) - thumbnailSize;
+              return requestToPromise(
+                imagesStore.put({
+                  ...record,
+                  blob: record.thumbnail,
+                  fileSize: thumbnailSize,
+                  mimeType: "image/jpeg",
+                  quality: "thumbnail",
+                })
+              );
+            });
+          await Promise.all(writes);
+          return result;
+        }
+      )
+    );
+  }
+
+  private async readImages(): Promise<ImageRecord[]> {
+    return runTransaction(["images"], "readonly", (transaction) =>
+      requestToPromise<ImageRecord[]>(
+        transaction.objectStore("images").getAll()
+      )
+    );
+  }
+}
+
+let instance: StorageManager | null = null;
+
+export function getStorageManager(): StorageManager {
+  if (!instance) {
+    instance = new StorageManager();
+  }
+  return instance;
+}
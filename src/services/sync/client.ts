@@ -0,0 +1,101 @@
+import type {
+  APIResponse,
+  ErrorCode,
+  SyncPullResponse,
+  SyncPushChange,
+  SyncPushResult,
+} from "@/types";
+import { createAppError } from "@/services/errors";
+import { getSyncToken } from "@/services/preferences";
+
+// The app's own /api/sync routes by default; point this at another server
+// implementing the same two endpoints to sync elsewhere
+const SYNC_URL = process.env.NEXT_PUBLIC_SYNC_URL || "/api/sync";
+const REQUEST_TIMEOUT_MS = 60000;
+
+// HTTP client for the sync server. Retries are left to the engine, which
+// simply runs again on the next trigger.
+export class SyncApiClient {
+  constructor(private readonly baseUrl = SYNC_URL) {}
+
+  pull(
+    since: number,
+    limit: number,
+    signal?: AbortSignal
+  ): Promise<SyncPullResponse> {
+    const query = new URLSearchParams({
+      since: String(since),
+      limit: String(limit),
+    });
+    return this.request(`/pull?${query}`, { method: "GET", signal });
+  }
+
+  async push(
+    changes: SyncPushChange[],
+    signal?: AbortSignal
+  ): Promise<SyncPushResult[]> {
+    const { results } = await this.request<{ results: SyncPushResult[] }>(
+      "/push",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ changes }),
+        signal,
+      }
+    );
+    return results;
+  }
+
+  private async request<T>(path: string, init: RequestInit): Promise<T> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    init.signal?.addEventListener("abort", onAbort);
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    // Read on every request so a token entered in Settings applies at once
+    const token = getSyncToken();
+    const headers = new Headers(init.headers);
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        headers,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (init.signal?.aborted) {
+        throw createAppError("REQUEST_CANCELLED", "Sync cancelled", error);
+      }
+      throw createAppError(
+        "NETWORK_ERROR",
+        "Could not reach the sync server",
+        error
+      );
+    } finally {
+      clearTimeout(timer);
+      init.signal?.removeEventListener("abort", onAbort);
+    }
+
+    let payload: APIResponse<T>;
+    try {
+      payload = await response.json();
+    } catch (error) {
+      throw createAppError(
+        response.status >= 500 ? "NETWORK_ERROR" : "API_ERROR",
+        `Invalid sync server response (${response.status})`,
+        error
+      );
+    }
+    if (!response.ok || !payload.success || payload.data === undefined) {
+      throw createAppError(
+        (payload.error as ErrorCode) || "API_ERROR",
+        payload.message || `Sync request failed (${response.status})`,
+        undefined,
+        { status: response.status }
+      );
+    }
+    return payload.data;
+  }
+}
@@ -0,0 +1,96 @@
+import type { SyncStoreName } from "@/types";
+
+// Converts stored records to the JSON sent to the sync server and back.
+// Records are already in their database form (dates as ISO strings); only
+// image blobs need encoding.
+
+type RecordData = Record<string, unknown>;
+
+interface EncodedBlob {
+  base64: string;
+  type: string;
+}
+
+const BLOB_FIELDS: Partial<Record<SyncStoreName, string[]>> = {
+  images: ["blob", "thumbnail"],
+};
+
+function isEncodedBlob(value: unknown): value is EncodedBlob {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as EncodedBlob).base64 === "string"
+  );
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  // Chunked so large photos do not overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBlob({ base64, type }: EncodedBlob): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+}
+
+export async function encodeRecord(
+  store: SyncStoreName,
+  record: RecordData
+): Promise<RecordData> {
+  const encoded = { ...record };
+  for (const field of BLOB_FIELDS[store] ?? []) {
+    const value = record[field];
+    if (value instanceof Blob) {
+      encoded[field] = { base64: await blobToBase64(value), type: value.type };
+    }
+  }
+  return encoded;
+}
+
+export function decodeRecord(
+  store: SyncStoreName,
+  data: RecordData
+): RecordData {
+  const decoded = { ...data };
+  for (const field of BLOB_FIELDS[store] ?? []) {
+    const value = data[field];
+    if (isEncodedBlob(value)) decoded[field] = base64ToBlob(value);
+  }
+  // Photos uploaded before the server required a thumbnail have none; the
+  // photo stands in so every stored image has one
+  if (
+    store === "images" &&
+    !(decoded.thumbnail instanceof Blob) &&
+    decoded.blob instanceof Blob
+  ) {
+    decoded.thumbnail = decoded.blob;
+  }
+  return decoded;
+}
+
+// The record without its blobs, as kept for three-way merges; photos are
+// never edited, so comparing their metadata is enough
+export function withoutBlobs(
+  store: SyncStoreName,
+  record: RecordData
+): RecordData {
+  const fields = BLOB_FIELDS[store];
+  if (!fields) return record;
+  return Object.fromEntries(
+    Object.entries(record).filter(([field]) => !fields.includes(field))
+  );
+}
+
+export function blobsOf(store: SyncStoreName, record: RecordData): RecordData {
+  const fields = BLOB_FIELDS[store] ?? [];
+  return Object.fromEntries(
+    Object.entries(record).filter(([field]) => fields.includes(field))
+  );
+}
@@ -0,0 +1,630 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  DatabaseSyncConflict,
+  SyncConflict,
+  SyncPushChange,
+  SyncRecord,
+  SyncState,
+  SyncStoreName,
+} from "@/types";
+import { createAppError, getErrorMessage, isAppError } from "@/services/errors";
+import {
+  fromDatabaseConflict,
+  getLockState,
+  newSyncState,
+  openRecords,
+  requestToPromise,
+  runBackgroundTask,
+  runTransaction,
+  runWrite,
+  sealRecords,
+  SYNC_CONFLICTS_STORE,
+  SYNC_STATE_STORE,
+  SYNCED_STORES,
+  syncKey,
+  toDatabaseConflict,
+  trackChanges,
+} from "@/services/db";
+import { SyncApiClient } from "./client";
+import { blobsOf, decodeRecord, encodeRecord, withoutBlobs } from "./codec";
+import { mergeRecords } from "./merge";
+
+type RecordData = Record<string, unknown>;
+
+export type SyncPhase = "idle" | "syncing" | "error";
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  lastSyncedAt?: Date;
+  pending: number; // Local records waiting to be pushed
+  conflicts: number;
+  error?: string;
+}
+
+interface SyncMeta {
+  key: typeof META_KEY;
+  cursor: number;
+  lastSyncedAt?: string;
+}
+
+// What applying one remote record does locally
+interface RemotePlan {
+  store: SyncStoreName;
+  id: string;
+  record?: RecordData; // Undefined deletes the local record
+  state: SyncState;
+  conflicts: SyncConflict[];
+  // The dirty counter the plan was made against; a local write in the
+  // meantime makes the plan stale
+  expectedDirty: number;
+}
+
+const META_STORE = "meta";
+const META_KEY = "sync";
+// The server also caps the photos per page (see sync/paging)
+const PULL_LIMIT = 100;
+// Small because photos travel inline
+const PUSH_BATCH = 10;
+const MAX_CONFLICT_ROUNDS = 3;
+
+const ALL_STORES = [
+  ...SYNCED_STORES,
+  SYNC_STATE_STORE,
+  SYNC_CONFLICTS_STORE,
+  META_STORE,
+];
+
+function staleError() {
+  return createAppError(
+    "STORAGE_ERROR",
+    "Local data changed during sync; it will be retried",
+    undefined,
+    { reason: "stale" }
+  );
+}
+
+// Incremental two-way sync of equipment, reports and photos. Pulls remote
+// changes since the last cursor, merges them into local records, then pushes
+// local changes against the revision they were made on. Network and crypto
+// work happen between IndexedDB transactions, never inside one.
+export class SyncEngine {
+  private running: Promise<void> | null = null;
+  private phase: SyncPhase = "idle";
+  private lastError?: string;
+  private listeners = new Set<(status: SyncStatus) => void>();
+
+  constructor(private readonly api = new SyncApiClient()) {}
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    const [meta, pending, conflicts] = await runTransaction(
+      [SYNC_STATE_STORE, SYNC_CONFLICTS_STORE, META_STORE],
+      "readonly",
+      (transaction) =>
+        Promise.all([
+          requestToPromise<SyncMeta | undefined>(
+            transaction.objectStore(META_STORE).get(META_KEY)
+          ),
+          requestToPromise(
+            transaction
+              .objectStore(SYNC_STATE_STORE)
+              .index("dirty")
+              .count(IDBKeyRange.lowerBound(1))
+          ),
+          requestToPromise(
+            transaction.objectStore(SYNC_CONFLICTS_STORE).count()
+          ),
+        ])
+    );
+    return {
+      phase: this.phase,
+      lastSyncedAt: meta?.lastSyncedAt
+        ? new Date(meta.lastSyncedAt)
+        : undefined,
+      pending,
+      conflicts,
+      error: this.phase === "error" ? this.lastError : undefined,
+    };
+  }
+
+  // Runs one sync; concurrent calls share the run in progress. Skipped while
+  // the database is locked, since nothing can be read or sealed, and held
+  // back while it is being re-encrypted.
+  sync(): Promise<void> {
+    if (!this.running) {
+      this.running = runBackgroundTask(() => this.run()).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  async getConflicts(): Promise<SyncConflict[]> {
+    const stored = await runTransaction(
+      [SYNC_CONFLICTS_STORE],
+      "readonly",
+      (transaction) =>
+        requestToPromise<unknown[]>(
+          transaction.objectStore(SYNC_CONFLICTS_STORE).getAll()
+        )
+    );
+    const records = await openRecords<DatabaseSyncConflict>(
+      SYNC_CONFLICTS_STORE,
+      stored
+    );
+    return records
+      .map(fromDatabaseConflict)
+      .sort((a, b) => a.detectedAt.getTime() - b.detectedAt.getTime());
+  }
+
+  // Settles a clash with the value from this device or from the server. The
+  // record is only rewritten, and queued for upload, if that changes it.
+  async resolveConflict(
+    conflictId: string,
+    choice: "local" | "remote"
+  ): Promise<void> {
+    return runWrite(async () => {
+      const [conflict] = (await this.getConflicts()).filter(
+        (item) => item.id === conflictId
+      );
+      if (!conflict) return;
+
+      const { store, recordId, field } = conflict;
+      const stored = await runTransaction([store], "readonly", (transaction) =>
+        requestToPromise<unknown>(transaction.objectStore(store).get(recordId))
+      );
+      const [record] = stored
+        ? await openRecords<RecordData>(store, [stored])
+        : [];
+      const value =
+        choice === "local" ? conflict.localValue : conflict.remoteValue;
+
+      let sealed: object | undefined;
+      if (record && JSON.stringify(record[field]) !== JSON.stringify(value)) {
+        const updated = { ...record };
+        if (value === undefined) delete updated[field];
+        else updated[field] = value;
+        [sealed] = await sealRecords(store, [updated]);
+      }
+
+      await runTransaction(
+        [store, SYNC_STATE_STORE, SYNC_CONFLICTS_STORE],
+        "readwrite",
+        async (transaction) => {
+          const writes: Promise<unknown>[] = [
+            requestToPromise(
+              transaction.objectStore(SYNC_CONFLICTS_STORE).delete(conflictId)
+            ),
+          ];
+          if (sealed) {
+            trackChanges(transaction, store, [recordId]);
+            writes.push(
+              requestToPromise(transaction.objectStore(store).put(sealed))
+            );
+          }
+          await Promise.all(writes);
+        }
+      );
+      await this.notify();
+    });
+  }
+
+  private async run() {
+    if ((await getLockState()) === "locked") return;
+
+    this.phase = "syncing";
+    await this.notify();
+    try {
+      await this.pull();
+      await this.push();
+      await this.updateMeta({ lastSyncedAt: new Date().toISOString() });
+      this.phase = "idle";
+      this.lastError = undefined;
+    } catch (error) {
+      if (isAppError(error) && error.details?.reason === "stale") {
+        // Picked up again by the next run
+        this.phase = "idle";
+      } else {
+        this.phase = "error";
+        this.lastError = getErrorMessage(error);
+        console.error("Sync failed:", error);
+      }
+    }
+    await this.notify();
+  }
+
+  private async pull() {
+    let { cursor } = await this.readMeta();
+    for (;;) {
+      const response = await this.api.pull(cursor, PULL_LIMIT);
+      await this.applyRemote(response.changes, response.cursor);
+      cursor = response.cursor;
+      if (!response.hasMore) return;
+    }
+  }
+
+  private async push() {
+    let conflictRounds = 0;
+    while (conflictRounds < MAX_CONFLICT_ROUNDS) {
+      const batch = await this.readDirty();
+      if (batch.length === 0) return;
+
+      const changes: SyncPushChange[] = await Promise.all(
+        batch.map(async ({ state, record }) => ({
+          store: state.store,
+          id: state.recordId,
+          baseRevision: state.revision,
+          deleted: state.deleted || !record,
+          data:
+            state.deleted || !record
+              ? undefined
+              : await encodeRecord(state.store, record),
+        }))
+      );
+      const results = await this.api.push(changes);
+
+      const acknowledged: { state: SyncState; pushedDirty: number }[] = [];
+      const conflicting: SyncRecord[] = [];
+      for (const result of results) {
+        const item = batch.find(
+          ({ state }) =>
+            state.store === result.store && state.recordId === result.id
+        );
+        if (!item) continue;
+        if (result.status === "applied") {
+          const deleted = item.state.deleted || !item.record;
+          acknowledged.push({
+            pushedDirty: item.state.dirty,
+            state: {
+              ...item.state,
+              revision: result.revision,
+              deleted,
+              base:
+                item.record && !deleted
+                  ? withoutBlobs(item.state.store, item.record)
+                  : undefined,
+            },
+          });
+        } else {
+          conflicting.push(result.current);
+        }
+      }
+
+      if (acknowledged.length === 0 && conflicting.length === 0) {
+        throw createAppError(
+          "API_ERROR",
+          "The sync server did not accept any changes"
+        );
+      }
+      await this.acknowledge(acknowledged);
+      if (conflicting.length > 0) {
+        // Merged records stay dirty and go out again on the next round
+        await this.applyRemote(conflicting);
+        conflictRounds++;
+      }
+    }
+  }
+
+  // The next batch of dirty sync states with their records
+  private async readDirty(): Promise<
+    { state: SyncState; record?: RecordData }[]
+  > {
+    const [storedStates, storedRecords] = await runTransaction(
+      [...SYNCED_STORES, SYNC_STATE_STORE],
+      "readonly",
+      async (transaction) => {
+        const states = await requestToPromise<SyncState[]>(
+          transaction
+            .objectStore(SYNC_STATE_STORE)
+            .index("dirty")
+            .getAll(IDBKeyRange.lowerBound(1), PUSH_BATCH)
+        );
+        const records = await Promise.all(
+          states.map((state) =>
+            requestToPromise<unknown>(
+              transaction.objectStore(state.store).get(state.recordId)
+            )
+          )
+        );
+        return [states, records];
+      }
+    );
+
+    const states = await openRecords<SyncState>(SYNC_STATE_STORE, storedStates);
+    return Promise.all(
+      states.map(async (state, index) => {
+        const stored = storedRecords[index];
+        if (!stored) return { state };
+        const [record] = await openRecords<RecordData>(state.store, [stored]);
+        return { state, record };
+      })
+    );
+  }
+
+  // Marks pushed records clean, unless they were written again meanwhile
+  private async acknowledge(
+    items: { state: SyncState; pushedDirty: number }[]
+  ) {
+    if (items.length === 0) return;
+    return runWrite(async () => {
+      const sealed = (await sealRecords(
+        SYNC_STATE_STORE,
+        items.map((item) => item.state)
+      )) as SyncState[];
+
+      await runTransaction(
+        [SYNC_STATE_STORE],
+        "readwrite",
+        async (transaction) => {
+          const store = transaction.objectStore(SYNC_STATE_STORE);
+          const current = await Promise.all(
+            sealed.map((state) =>
+              requestToPromise<SyncState | undefined>(store.get(state.key))
+            )
+          );
+          await Promise.all(
+            sealed.map((state, index) => {
+              const latest = current[index];
+              const changed =
+                latest && latest.dirty !== items[index].pushedDirty;
+              return requestToPromise(
+                store.put(
+                  changed
+                    ? { ...state, dirty: latest.dirty, deleted: latest.deleted }
+                    : { ...state, dirty: 0 }
+                )
+              );
+            })
+          );
+        }
+      );
+    });
+  }
+
+  // Brings remote records into the local stores and moves the cursor in the
+  // same transaction, so a failed apply is simply pulled again
+  private async applyRemote(changes: SyncRecord[], cursor?: number) {
+    return runWrite(async () => {
+      const [storedRecords, storedStates] = await runTransaction(
+        [...SYNCED_STORES, SYNC_STATE_STORE],
+        "readonly",
+        (transaction) =>
+          Promise.all([
+            Promise.all(
+              changes.map((change) =>
+                requestToPromise<unknown>(
+                  transaction.objectStore(change.store).get(change.id)
+                )
+              )
+            ),
+            Promise.all(
+              changes.map((change) =>
+                requestToPromise<unknown>(
+                  transaction
+                    .objectStore(SYNC_STATE_STORE)
+                    .get(syncKey(change.store, change.id))
+                )
+              )
+            ),
+          ])
+      );
+
+      const plans: RemotePlan[] = [];
+      for (const [index, change] of changes.entries()) {
+        const stored = storedRecords[index];
+        const [local] = stored
+          ? await openRecords<RecordData>(change.store, [stored])
+          : [];
+        const [state] = storedStates[index]
+          ? await openRecords<SyncState>(SYNC_STATE_STORE, [
+              storedStates[index],
+            ])
+          : [];
+        const plan = this.planRemote(change, local, state);
+        if (plan) plans.push(plan);
+      }
+
+      const [states, conflicts, records] = await Promise.all([
+        sealRecords(
+          SYNC_STATE_STORE,
+          plans.map((plan) => plan.state)
+        ),
+        sealRecords(
+          SYNC_CONFLICTS_STORE,
+          plans.flatMap((plan) => plan.conflicts.map(toDatabaseConflict))
+        ),
+        Promise.all(
+          plans.map(async (plan) =>
+            plan.record
+              ? (
+                  await sealRecords(plan.store, [plan.record])
+                )[0]
+              : undefined
+          )
+        ),
+      ]);
+
+      await runTransaction(ALL_STORES, "readwrite", async (transaction) => {
+        const stateStore = transaction.objectStore(SYNC_STATE_STORE);
+        const conflictStore = transaction.objectStore(SYNC_CONFLICTS_STORE);
+
+        const current = await Promise.all(
+          plans.map((plan) =>
+            requestToPromise<SyncState | undefined>(
+              stateStore.get(plan.state.key)
+            )
+          )
+        );
+        if (
+          plans.some(
+            (plan, index) => (current[index]?.dirty ?? 0) !== plan.expectedDirty
+          )
+        ) {
+          throw staleError();
+        }
+
+        // A new verdict on a record replaces its open clashes
+        const replaced = await Promise.all(
+          plans.map((plan) =>
+            requestToPromise<DatabaseSyncConflict[]>(
+              conflictStore.index("recordId").getAll(plan.id)
+            )
+          )
+        );
+
+        const writes: Promise<unknown>[] = [];
+        plans.forEach((plan, index) => {
+          const store = transaction.objectStore(plan.store);
+          const record = records[index];
+          writes.push(
+            record
+              ? requestToPromise(store.put(record))
+              : requestToPromise(store.delete(plan.id)),
+            requestToPromise(stateStore.put(states[index]))
+          );
+          for (const old of replaced[index]) {
+            if (old.store === plan.store) {
+              writes.push(requestToPromise(conflictStore.delete(old.id)));
+            }
+          }
+        });
+        for (const conflict of conflicts) {
+          writes.push(requestToPromise(conflictStore.put(conflict)));
+        }
+        if (cursor !== undefined) {
+          const meta = await requestToPromise<SyncMeta | undefined>(
+            transaction.objectStore(META_STORE).get(META_KEY)
+          );
+          writes.push(
+            requestToPromise(
+              transaction
+                .objectStore(META_STORE)
+                .put({ ...meta, key: META_KEY, cursor })
+            )
+          );
+        }
+        await Promise.all(writes);
+      });
+    });
+  }
+
+  // Decides how one remote record lands locally. Edits beat deletions on
+  // either side, and field clashes are settled by mergeRecords.
+  private planRemote(
+    change: SyncRecord,
+    local: RecordData | undefined,
+    state: SyncState | undefined
+  ): RemotePlan | null {
+    const { store, id } = change;
+    // Our own push coming back, or something already merged
+    if (state?.revision != null && change.revision <= state.revision) {
+      return null;
+    }
+
+    const expectedDirty = state?.dirty ?? 0;
+    const remote = change.data && decodeRecord(store, change.data);
+    const takeRemote = (): RemotePlan => ({
+      store,
+      id,
+      record: change.deleted ? undefined : remote,
+      state: {
+        ...newSyncState(store, id),
+        revision: change.revision,
+        deleted: change.deleted,
+        base:
+          remote && !change.deleted ? withoutBlobs(store, remote) : undefined,
+      },
+      conflicts: [],
+      expectedDirty,
+    });
+
+    if (!state || expectedDirty === 0 || state.deleted || !local) {
+      return takeRemote();
+    }
+
+    // Edited here, deleted there: keep the edit and push it back
+    if (change.deleted || !remote) {
+      return {
+        store,
+        id,
+        record: local,
+        state: { ...state, revision: change.revision, deleted: false },
+        conflicts: [],
+        expectedDirty,
+      };
+    }
+
+    const { merged, clashes } = mergeRecords(
+      state.base,
+      withoutBlobs(store, local),
+      withoutBlobs(store, remote)
+    );
+    const detectedAt = new Date();
+    return {
+      store,
+      id,
+      // Photos are never edited, so the server's copy of the blobs is as
+      // good as ours
+      record: { ...merged, ...blobsOf(store, remote) },
+      state: {
+        ...state,
+        revision: change.revision,
+        base: withoutBlobs(store, remote),
+      },
+      conflicts: clashes.map((clash) => ({
+        ...clash,
+        id: uuidv4(),
+        store,
+        recordId: id,
+        detectedAt,
+      })),
+      expectedDirty,
+    };
+  }
+
+  private async readMeta(): Promise<SyncMeta> {
+    const meta = await runTransaction([META_STORE], "readonly", (transaction) =>
+      requestToPromise<SyncMeta | undefined>(
+        transaction.objectStore(META_STORE).get(META_KEY)
+      )
+    );
+    return meta ?? { key: META_KEY, cursor: 0 };
+  }
+
+  private async updateMeta(update: Partial<SyncMeta>) {
+    await runTransaction([META_STORE], "readwrite", async (transaction) => {
+      const store = transaction.objectStore(META_STORE);
+      const meta = await requestToPromise<SyncMeta | undefined>(
+        store.get(META_KEY)
+      );
+      await requestToPromise(
+        store.put({ key: META_KEY, cursor: 0, ...meta, ...update })
+      );
+    });
+  }
+
+  private async notify() {
+    if (this.listeners.size === 0) return;
+    try {
+      const status = await this.getStatus();
+      this.listeners.forEach((listener) => listener(status));
+    } catch (error) {
+      console.error("Error reading sync status:", error);
+    }
+  }
+}
+
+let instance: SyncEngine | null = null;
+
+export function getSyncEngine(): SyncEngine {
+  if (!instance) {
+    instance = new SyncEngine();
+  }
+  return instance;
+}
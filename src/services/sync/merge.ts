@@ -0,0 +1,76 @@
+// Three-way merge of one record changed on this device and on the server
+// since `base`, the copy both last agreed on. A field changed on one side
+// only takes that side's value; a field changed on both sides to different
+// values is a clash, settled by the same rule on every device so they all
+// converge before anyone looks at it.
+
+type RecordData = Record<string, unknown>;
+
+export interface FieldClash {
+  field: string;
+  localValue?: unknown;
+  remoteValue?: unknown;
+}
+
+export interface MergeResult {
+  merged: RecordData;
+  clashes: FieldClash[];
+}
+
+// Bookkeeping that changes on every write and is reconciled separately
+const TIMESTAMP_FIELD = "updatedAt";
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// The later edit wins a clash; ties and records without an edit time go to
+// the server, which every device sees the same way
+function clashWinner(local: RecordData, remote: RecordData) {
+  const localTime = local[TIMESTAMP_FIELD];
+  const remoteTime = remote[TIMESTAMP_FIELD];
+  return typeof localTime === "string" &&
+    typeof remoteTime === "string" &&
+    localTime > remoteTime
+    ? "local"
+    : "remote";
+}
+
+export function mergeRecords(
+  base: RecordData | undefined,
+  local: RecordData,
+  remote: RecordData
+): MergeResult {
+  const winner = clashWinner(local, remote);
+  const merged: RecordData = {};
+  const clashes: FieldClash[] = [];
+  const fields = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  fields.delete(TIMESTAMP_FIELD);
+
+  for (const field of fields) {
+    const localValue = local[field];
+    const remoteValue = remote[field];
+    let value: unknown;
+
+    if (sameValue(localValue, remoteValue)) {
+      value = localValue;
+    } else if (base && sameValue(base[field], localValue)) {
+      value = remoteValue;
+    } else if (base && sameValue(base[field], remoteValue)) {
+      value = localValue;
+    } else {
+      // Both changed, or there is no common copy to tell which one did
+      value = winner === "local" ? localValue : remoteValue;
+      clashes.push({ field, localValue, remoteValue });
+    }
+
+    if (value !== undefined) merged[field] = value;
+  }
+
+  const times = [local[TIMESTAMP_FIELD], remote[TIMESTAMP_FIELD]].filter(
+    (value): value is string => typeof value === "string"
+  );
+  if (times.length > 0) merged[TIMESTAMP_FIELD] = times.sort().pop();
+
+  return { merged, clashes };
+}
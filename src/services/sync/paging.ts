@@ -0,0 +1,31 @@
+import type { SyncRecord } from "@/types";
+
+// Photos travel inline as base64, so a pull page carries at most this many
+// of them whatever its limit, the same batch size the devices push with
+export const MAX_PULL_IMAGES = 10;
+
+type PageEntry = Pick<SyncRecord, "store" | "revision" | "deleted">;
+
+// Cuts a page from changes sorted by revision. The page always holds at
+// least one change so the cursor moves on. Only the fields that decide the
+// cut are read, so stores can page before encoding any photo.
+export function toPullPage<T extends PageEntry>(
+  candidates: T[],
+  since: number,
+  limit: number
+): { changes: T[]; cursor: number; hasMore: boolean } {
+  const changes: T[] = [];
+  let images = 0;
+  for (const change of candidates) {
+    if (changes.length === limit) break;
+    const isPhoto = change.store === "images" && !change.deleted;
+    if (isPhoto && images === MAX_PULL_IMAGES) break;
+    if (isPhoto) images++;
+    changes.push(change);
+  }
+  return {
+    changes,
+    cursor: changes.length > 0 ? changes[changes.length - 1].revision : since,
+    hasMore: candidates.length > changes.length,
+  };
+}
@@ -0,0 +1,138 @@
+import type {
+  SyncPullResponse,
+  SyncPushChange,
+  SyncPushResult,
+  SyncRecord,
+  SyncStoreName,
+} from "@/types";
+import { createAppError, getErrorMessage } from "@/services/errors";
+import { checkColumns } from "@/services/serverDb/records";
+import { SqliteSyncServerStore } from "@/services/serverDb/syncStore";
+import { TABLES } from "@/services/serverDb/tables";
+import { toPullPage } from "./paging";
+
+// Server side of sync, used by the /api/sync route handlers. The store only
+// orders writes and detects conflicts; merging happens on the devices.
+
+export const SYNC_STORE_NAMES: SyncStoreName[] = [
+  "equipment",
+  "reports",
+  "images",
+];
+export const MAX_PULL_LIMIT = 500;
+
+export interface SyncServerStore {
+  // A change applies only when it was made on the current revision of its
+  // record (or the record is new); otherwise the current record comes back
+  push(changes: SyncPushChange[]): Promise<SyncPushResult[]>;
+  pull(since: number, limit: number): Promise<SyncPullResponse>;
+}
+
+// Store kept in memory: enough to sync devices against a local dev server
+// without a database file, lost when the server restarts
+export class MemorySyncServerStore implements SyncServerStore {
+  private records = new Map<string, SyncRecord>();
+  private revision = 0;
+
+  async push(changes: SyncPushChange[]): Promise<SyncPushResult[]> {
+    return changes.map((change) => {
+      const { store, id } = change;
+      const key = `${store}:${id}`;
+      const current = this.records.get(key);
+      if (current && current.revision !== change.baseRevision) {
+        return { store, id, status: "conflict", current };
+      }
+
+      const record: SyncRecord = {
+        store,
+        id,
+        revision: ++this.revision,
+        deleted: change.deleted,
+        data: change.deleted ? undefined : change.data,
+      };
+      this.records.set(key, record);
+      return { store, id, status: "applied", revision: record.revision };
+    });
+  }
+
+  async pull(since: number, limit: number): Promise<SyncPullResponse> {
+    const newer = [...this.records.values()]
+      .filter((record) => record.revision > since)
+      .sort((a, b) => a.revision - b.revision);
+    return toPullPage(newer, since, limit);
+  }
+}
+
+function isEncodedBlob(value: unknown): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { base64?: unknown }).base64 === "string"
+  );
+}
+
+function invalidChange(message: string, index: number) {
+  return createAppError("INVALID_REQUEST", message, undefined, { index });
+}
+
+// Checks the shape of a push body before anything is stored
+export function parsePushChanges(body: unknown): SyncPushChange[] {
+  const changes = (body as { changes?: unknown } | null)?.changes;
+  if (!Array.isArray(changes)) {
+    throw createAppError("INVALID_REQUEST", "changes must be an array");
+  }
+  return changes.map((change, index) => {
+    if (typeof change !== "object" || change === null) {
+      throw invalidChange("Each change must be an object", index);
+    }
+    const { store, id, baseRevision, deleted, data } =
+      change as Partial<SyncPushChange>;
+    if (!store || !SYNC_STORE_NAMES.includes(store)) {
+      throw invalidChange(`Unknown store "${store}"`, index);
+    }
+    if (typeof id !== "string" || !id) {
+      throw invalidChange("Each change needs an id", index);
+    }
+    if (baseRevision !== null && typeof baseRevision !== "number") {
+      throw invalidChange("baseRevision must be a number or null", index);
+    }
+    if (!deleted && (typeof data !== "object" || data === null)) {
+      throw invalidChange("A change that is not a deletion needs data", index);
+    }
+    // Records are stored under the id in their data
+    if (!deleted && data?.id !== id) {
+      throw invalidChange("The id in data does not match the change", index);
+    }
+    if (!deleted && data) {
+      try {
+        checkColumns(TABLES[store], data);
+      } catch (error) {
+        throw invalidChange(getErrorMessage(error), index);
+      }
+    }
+    // Devices expect every photo to come with its thumbnail
+    if (
+      !deleted &&
+      store === "images" &&
+      !["blob", "thumbnail"].every((field) => isEncodedBlob(data?.[field]))
+    ) {
+      throw invalidChange("An image needs a blob and a thumbnail", index);
+    }
+    return { store, id, baseRevision, deleted: Boolean(deleted), data };
+  });
+}
+
+// Kept on globalThis because route handlers can be bundled separately (and
+// reloaded in development), which would otherwise give each its own store.
+// SYNC_STORE=memory swaps the SQLite tables for the in-memory stand-in.
+const globalStore = globalThis as { syncServerStore?: SyncServerStore };
+
+export function getSyncServerStore(): SyncServerStore {
+  if (!globalStore.syncServerStore) {
+    globalStore.syncServerStore =
+      process.env.SYNC_STORE === "memory"
+        ? new MemorySyncServerStore()
+        : new SqliteSyncServerStore();
+  }
+  return globalStore.syncServerStore;
+}
@@ -0,0 +1,145 @@
+import { createHash } from "crypto";
+import type {
+  EncodedImage,
+  FailureDetection,
+  HVACEquipment,
+  OpenAIAnalysisResponse,
+  OpenAIVisionResponse,
+} from "@/types";
+import { createAppError } from "@/services/errors";
+import type { VisionProvider, VisionRequestOptions } from "./types";
+import {
+  formatValidationIssues,
+  validateAnalysisResponse,
+  validateVisionResponse,
+  type SchemaResult,
+} from "./schema";
+import {
+  DEFAULT_ANALYSIS_FIXTURES,
+  DEFAULT_LABEL_FIXTURES,
+  type FixtureSet,
+} from "./fixtures";
+
+export interface FixtureVisionProviderOptions {
+  fixtures?: Partial<FixtureSet>;
+  // Artificial delay so demos show the same loading states as a real model
+  latencyMs?: number;
+}
+
+// Deterministic offline provider: no network, same image => same response
+export class FixtureVisionProvider implements VisionProvider {
+  readonly name = "fixture";
+  private fixtures: FixtureSet;
+  private latencyMs: number;
+
+  constructor({ fixtures, latencyMs = 0 }: FixtureVisionProviderOptions = {}) {
+    this.fixtures = {
+      labels: fixtures?.labels ?? {},
+      analyses: fixtures?.analyses ?? {},
+    };
+    this.latencyMs = latencyMs;
+  }
+
+  async scanLabel(
+    image: EncodedImage,
+    options: VisionRequestOptions = {}
+  ): Promise<OpenAIVisionResponse> {
+    const hash = hashImage(image);
+    await this.delay(options.signal);
+
+    const fixture =
+      this.fixtures.labels[hash] ?? pickByHash(DEFAULT_LABEL_FIXTURES, hash);
+    if (!this.fixtures.labels[hash]) {
+      console.log(`No label fixture for image ${hash}, using default`);
+    }
+
+    return checkFixture(validateVisionResponse(structuredClone(fixture)));
+  }
+
+  async analyzeEquipment(
+    images: EncodedImage[],
+    options: VisionRequestOptions = {}
+  ): Promise<OpenAIAnalysisResponse> {
+    const hash = hashString(images.map(hashImage).join(":"));
+    await this.delay(options.signal);
+
+    const fixture =
+      this.fixtures.analyses[hash] ??
+      pickByHash(DEFAULT_ANALYSIS_FIXTURES, hash);
+    if (!this.fixtures.analyses[hash]) {
+      console.log(`No analysis fixture for images ${hash}, using default`);
+    }
+
+    return checkFixture(validateAnalysisResponse(structuredClone(fixture)));
+  }
+
+  async generateRecommendations(
+    equipment: Partial<HVACEquipment>,
+    failures: FailureDetection[],
+    options: VisionRequestOptions = {}
+  ): Promise<string[]> {
+    await this.delay(options.signal);
+
+    const unit = [equipment.brand, equipment.model].filter(Boolean).join(" ");
+    const recommendations = failures.flatMap((failure) =>
+      failure.recommendations.map(
+        (rec) => `${rec} (${failure.type}, ${failure.severity} severity)`
+      )
+    );
+
+    return [
+      ...recommendations,
+      `Verify the repair against the ${unit || "equipment"} service manual`,
+    ];
+  }
+
+  private delay(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAppError("REQUEST_CANCELLED", "Request cancelled"));
+        return;
+      }
+      if (this.latencyMs <= 0) {
+        resolve();
+        return;
+      }
+      const timer = setTimeout(resolve, this.latencyMs);
+      signal?.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timer);
+          reject(createAppError("REQUEST_CANCELLED", "Request cancelled"));
+        },
+        { once: true }
+      );
+    });
+  }
+}
+
+export function hashImage(image: EncodedImage): string {
+  return createHash("sha256")
+    .update(Buffer.from(image.data, "base64"))
+    .digest("hex");
+}
+
+// Fixtures loaded from VISION_FIXTURES_FILE go through the same schema as
+// model output, so a malformed file fails loudly instead of leaking into reports
+function checkFixture<T>(result: SchemaResult<T>): T {
+  if (!result.success) {
+    throw createAppError(
+      "API_ERROR",
+      `Invalid fixture: ${formatValidationIssues(result.errors)}`,
+      undefined,
+      { validationErrors: result.errors }
+    );
+  }
+  return result.data;
+}
+
+function hashString(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function pickByHash<T>(items: T[], hash: string): T {
+  return items[parseInt(hash.slice(0, 8), 16) % items.length];
+}
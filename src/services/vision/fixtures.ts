@@ -0,0 +1,177 @@
+import type { OpenAIAnalysisResponse, OpenAIVisionResponse } from "@/types";
+
+// Canned model payloads for the offline fixture provider. Images whose hash is
+// not registered fall back to one of the defaults, chosen by hash so the same
+// photo always yields the same result.
+
+export interface FixtureSet {
+  // Keyed by SHA-256 (hex) of the uploaded image bytes
+  labels: Record<string, OpenAIVisionResponse>;
+  // Keyed by SHA-256 of the image hashes joined with ":"
+  analyses: Record<string, OpenAIAnalysisResponse>;
+}
+
+export const DEFAULT_LABEL_FIXTURES: OpenAIVisionResponse[] = [
+  {
+    extractedText:
+      "CARRIER\nMODEL 24ACC636A003\nSERIAL 1216E12345\n208/230V 1PH 60HZ\nRLA 15.2 LRA 82.0\nREFRIGERANT R-410A\nSEER 16",
+    structuredData: {
+      brand: "Carrier",
+      model: "24ACC636A003",
+      serialNumber: "1216E12345",
+      capacity: "3 tons",
+      btu: 36000,
+      voltage: "208-230V",
+      amperage: "15.2A",
+      phase: 1,
+      hertz: 60,
+      rla: 15.2,
+      lra: 82,
+      refrigerantType: "R-410A",
+      seerRating: 16,
+      equipmentType: "air_conditioner",
+    },
+    fieldMetadata: {
+      brand: { source: "scanned", confidence: 0.95 },
+      model: { source: "scanned", confidence: 0.92 },
+      serialNumber: { source: "scanned", confidence: 0.88 },
+      capacity: {
+        source: "ai_inferred",
+        confidence: 0.85,
+        inferenceBasis: "Inferred from model 24ACC636A003 (36 = 3 tons)",
+      },
+      btu: {
+        source: "ai_inferred",
+        confidence: 0.85,
+        inferenceBasis: "3 tons x 12,000 BTU",
+      },
+      voltage: { source: "scanned", confidence: 0.93 },
+      amperage: { source: "scanned", confidence: 0.87 },
+      phase: { source: "scanned", confidence: 0.9 },
+      hertz: { source: "scanned", confidence: 0.9 },
+      rla: { source: "scanned", confidence: 0.87 },
+      lra: { source: "scanned", confidence: 0.85 },
+      refrigerantType: { source: "scanned", confidence: 0.95 },
+      seerRating: { source: "scanned", confidence: 0.82 },
+      equipmentType: {
+        source: "ai_inferred",
+        confidence: 0.8,
+        inferenceBasis: "Identified as AC by model prefix 24",
+      },
+    },
+    confidence: 0.9,
+  },
+  {
+    extractedText:
+      "GOODMAN\nMODEL GSX140481KB\nSERIAL 1608123456\n208-230 VOLTS 1 PH 60 HZ\nCOMPRESSOR RLA 21.2\nMCA 28.5 MAX FUSE 45\nR-410A",
+    structuredData: {
+      brand: "Goodman",
+      model: "GSX140481KB",
+      serialNumber: "1608123456",
+      capacity: "4 tons",
+      btu: 48000,
+      voltage: "208-230V",
+      amperage: "21.2A",
+      phase: 1,
+      hertz: 60,
+      mca: 28.5,
+      mocp: 45,
+      rla: 21.2,
+      refrigerantType: "R-410A",
+      seerRating: 14,
+      equipmentType: "air_conditioner",
+    },
+    fieldMetadata: {
+      brand: { source: "scanned", confidence: 0.97 },
+      model: { source: "scanned", confidence: 0.9 },
+      serialNumber: { source: "scanned", confidence: 0.86 },
+      capacity: {
+        source: "ai_inferred",
+        confidence: 0.8,
+        inferenceBasis: "Model GSX14048 (048 = 4 tons)",
+      },
+      btu: {
+        source: "ai_inferred",
+        confidence: 0.8,
+        inferenceBasis: "4 tons x 12,000 BTU",
+      },
+      voltage: { source: "scanned", confidence: 0.92 },
+      amperage: { source: "scanned", confidence: 0.84 },
+      phase: { source: "scanned", confidence: 0.9 },
+      hertz: { source: "scanned", confidence: 0.9 },
+      mca: { source: "scanned", confidence: 0.88 },
+      mocp: { source: "scanned", confidence: 0.86 },
+      rla: { source: "scanned", confidence: 0.84 },
+      refrigerantType: { source: "scanned", confidence: 0.96 },
+      seerRating: {
+        source: "ai_inferred",
+        confidence: 0.7,
+        inferenceBasis: "Model GSX14 indicates 14 SEER",
+      },
+      equipmentType: { source: "scanned", confidence: 0.75 },
+    },
+    confidence: 0.85,
+  },
+];
+
+export const DEFAULT_ANALYSIS_FIXTURES: OpenAIAnalysisResponse[] = [
+  {
+    equipmentType: "rooftop_unit",
+    equipmentDescription: "Commercial rooftop unit for cooling and heating",
+    failures: [
+      {
+        id: "1",
+        type: "dirty_filter",
+        severity: "medium",
+        description: "Air filter obstructed with significant dust accumulation",
+        location: "Front access panel",
+        confidence: 0.85,
+        recommendations: [
+          "Replace filter immediately",
+          "Schedule changes every 3 months",
+        ],
+      },
+      {
+        id: "2",
+        type: "refrigerant_leak",
+        severity: "high",
+        description: "Possible minor refrigerant leak at valve connection",
+        location: "Suction line",
+        confidence: 0.72,
+        recommendations: [
+          "Check connections",
+          "Verify system pressure",
+          "Consider welding if necessary",
+        ],
+      },
+    ],
+    condition: "fair",
+    urgency: "within_week",
+    recommendations: [
+      "Schedule complete preventive maintenance",
+      "Clean coils quarterly",
+      "Check refrigerant levels monthly",
+    ],
+  },
+  {
+    equipmentType: "air_conditioner",
+    equipmentDescription: "Residential outdoor condensing unit",
+    failures: [
+      {
+        id: "1",
+        type: "damaged_coils",
+        severity: "low",
+        description: "Some bent fins on the condenser coil",
+        location: "Rear coil face",
+        confidence: 0.68,
+        recommendations: ["Straighten fins with a fin comb"],
+      },
+    ],
+    condition: "good",
+    urgency: "routine",
+    recommendations: [
+      "Keep 2 feet of clearance around the unit",
+      "Rinse the condenser coil at the start of the cooling season",
+    ],
+  },
+];
@@ -0,0 +1,59 @@
+import { readFileSync } from "fs";
+import type { VisionProvider, VisionProviderName } from "./types";
+import { OpenAIVisionProvider } from "./openai";
+import { FixtureVisionProvider } from "./fixture";
+import type { FixtureSet } from "./fixtures";
+
+export type {
+  VisionProvider,
+  VisionProviderName,
+  VisionRequestOptions,
+} from "./types";
+
+let instance: VisionProvider | null = null;
+
+// Provider selection is configuration only:
+//   VISION_PROVIDER        openai (default) | fixture
+//   VISION_MODEL           model id for the OpenAI provider (default gpt-4o)
+//   VISION_TIMEOUT_MS      per-call timeout for the OpenAI provider
+//   VISION_FIXTURES_FILE   optional JSON FixtureSet for the fixture provider
+//   VISION_FIXTURE_LATENCY_MS  simulated latency for the fixture provider
+// Built lazily so importing this module during `next build` needs no env.
+export function getVisionProvider(): VisionProvider {
+  if (!instance) {
+    instance = createVisionProvider(
+      (process.env.VISION_PROVIDER as VisionProviderName) || "openai"
+    );
+  }
+  return instance;
+}
+
+export function createVisionProvider(name: VisionProviderName): VisionProvider {
+  switch (name) {
+    case "fixture":
+      return new FixtureVisionProvider({
+        fixtures: loadFixtureFile(process.env.VISION_FIXTURES_FILE),
+        latencyMs: Number(process.env.VISION_FIXTURE_LATENCY_MS) || 0,
+      });
+
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY is required");
+      }
+      return new OpenAIVisionProvider({
+        apiKey,
+        model: process.env.VISION_MODEL || undefined,
+        timeoutMs: Number(process.env.VISION_TIMEOUT_MS) || undefined,
+      });
+    }
+
+    default:
+      throw new Error(`Unknown VISION_PROVIDER "${name}"`);
+  }
+}
+
+function loadFixtureFile(path?: string): Partial<FixtureSet> | undefined {
+  if (!path) return undefined;
+  return JSON.parse(readFileSync(path, "utf8"));
+}
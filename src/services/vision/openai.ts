@@ -0,0 +1,294 @@
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type {
+  AppError,
+  EncodedImage,
+  FailureDetection,
+  HVACEquipment,
+  OpenAIAnalysisResponse,
+  OpenAIVisionResponse,
+} from "@/types";
+import { createAppError, isAppError } from "@/services/errors";
+import type { VisionProvider, VisionRequestOptions } from "./types";
+import {
+  EQUIPMENT_ANALYSIS_PROMPT,
+  LABEL_SCAN_PROMPT,
+  buildRecommendationsPrompt,
+  buildRepairPrompt,
+} from "./prompts";
+import {
+  formatValidationIssues,
+  validateAnalysisResponse,
+  validateRecommendations,
+  validateVisionResponse,
+  type SchemaResult,
+  type ValidationIssue,
+} from "./schema";
+
+export interface OpenAIVisionProviderOptions {
+  apiKey: string;
+  model?: string;
+  // Extra round-trips allowed to fix a response that fails validation
+  maxRepairAttempts?: number;
+  timeoutMs?: number;
+  // SDK-level retries for 429/5xx. Off by default: the browser client
+  // already retries the NETWORK_ERROR these become, honouring Retry-After,
+  // and retrying in both places multiplies the calls to OpenAI.
+  maxRetries?: number;
+}
+
+interface CompletionOptions extends VisionRequestOptions {
+  maxTokens: number;
+  temperature: number;
+}
+
+// Server-only: the API key is read from a non-public env var and must never
+// reach the browser bundle. Client code goes through /api/* route handlers.
+export class OpenAIVisionProvider implements VisionProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+  private model: string;
+  private maxRepairAttempts: number;
+
+  constructor({
+    apiKey,
+    model = "gpt-4o",
+    maxRepairAttempts = 1,
+    timeoutMs = 45000,
+    maxRetries = 0,
+  }: OpenAIVisionProviderOptions) {
+    this.client = new OpenAI({ apiKey, timeout: timeoutMs, maxRetries });
+    this.model = model;
+    this.maxRepairAttempts = maxRepairAttempts;
+  }
+
+  async scanLabel(
+    image: EncodedImage,
+    { signal }: VisionRequestOptions = {}
+  ): Promise<OpenAIVisionResponse> {
+    return this.completeJson(
+      [
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: LABEL_SCAN_PROMPT,
+            },
+            {
+              type: "image_url",
+              image_url: {
+                url: this.toDataUrl(image),
+                detail: "high",
+              },
+            },
+          ],
+        },
+      ],
+      validateVisionResponse,
+      { maxTokens: 1500, temperature: 0.05, signal }
+    );
+  }
+
+  async analyzeEquipment(
+    images: EncodedImage[],
+    { signal }: VisionRequestOptions = {}
+  ): Promise<OpenAIAnalysisResponse> {
+    // Create message content with all images
+    const imageContent = images.map((image) => ({
+      type: "image_url" as const,
+      image_url: {
+        url: this.toDataUrl(image),
+        detail: "low" as const,
+      },
+    }));
+
+    return this.completeJson(
+      [
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: EQUIPMENT_ANALYSIS_PROMPT,
+            },
+            ...imageContent,
+          ],
+        },
+      ],
+      validateAnalysisResponse,
+      { maxTokens: 1500, temperature: 0.1, signal }
+    );
+  }
+
+  async generateRecommendations(
+    equipment: Partial<HVACEquipment>,
+    failures: FailureDetection[],
+    { signal }: VisionRequestOptions = {}
+  ): Promise<string[]> {
+    return this.completeJson(
+      [
+        {
+          role: "user",
+          content: buildRecommendationsPrompt(equipment, failures),
+        },
+      ],
+      validateRecommendations,
+      { maxTokens: 1500, temperature: 0.2, signal }
+    );
+  }
+
+  // Sends the conversation, parses and validates the JSON answer. When it is
+  // invalid, the model gets its own output back with the validation errors
+  // and is asked to correct it, up to `maxRepairAttempts` times.
+  private async completeJson<T>(
+    messages: ChatCompletionMessageParam[],
+    validate: (raw: unknown) => SchemaResult<T>,
+    { maxTokens, temperature, signal }: CompletionOptions
+  ): Promise<T> {
+    const conversation = [...messages];
+    let errors: ValidationIssue[] = [];
+    let content = "";
+
+    for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+      const response = await this.client.chat.completions
+        .create(
+          {
+            model: this.model,
+            messages: conversation,
+            max_tokens: maxTokens,
+            temperature,
+          },
+          { signal }
+        )
+        .catch((error) => {
+          throw toAppError(error);
+        });
+
+      content = response.choices[0]?.message?.content ?? "";
+      if (!content) {
+        throw createAppError("API_ERROR", "No response from OpenAI");
+      }
+
+      const parsed = this.parseJson(content);
+      const result: SchemaResult<T> =
+        parsed === undefined
+          ? {
+              success: false,
+              errors: [{ path: "", message: "response is not valid JSON" }],
+            }
+          : validate(parsed);
+
+      if (result.success) {
+        return result.data;
+      }
+
+      errors = result.errors;
+      console.warn(
+        `OpenAI response failed validation (attempt ${attempt + 1}):`,
+        formatValidationIssues(errors)
+      );
+
+      conversation.push(
+        { role: "assistant", content },
+        { role: "user", content: buildRepairPrompt(errors) }
+      );
+    }
+
+    throw createAppError(
+      "API_ERROR",
+      `AI response failed validation: ${formatValidationIssues(
+        errors.slice(0, 3)
+      )}`,
+      undefined,
+      { validationErrors: errors, content: content.substring(0, 500) }
+    );
+  }
+
+  // Returns undefined when no JSON can be recovered from the content
+  private parseJson(content: string): unknown {
+    const cleanedContent = this.cleanJsonResponse(content);
+
+    try {
+      return JSON.parse(cleanedContent);
+    } catch {
+      const jsonMatch = cleanedContent.match(/[[{][\s\S]*[\]}]/);
+      if (!jsonMatch) return undefined;
+
+      try {
+        return JSON.parse(jsonMatch[0]);
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  private toDataUrl(image: EncodedImage): string {
+    return `data:${image.mimeType};base64,${image.data}`;
+  }
+
+  private cleanJsonResponse(content: string): string {
+    let cleaned = content.trim();
+
+    if (cleaned.startsWith("```json")) {
+      cleaned = cleaned.substring(7);
+    } else if (cleaned.startsWith("```")) {
+      cleaned = cleaned.substring(3);
+    }
+
+    if (cleaned.endsWith("```")) {
+      cleaned = cleaned.substring(0, cleaned.length - 3);
+    }
+
+    return cleaned.trim();
+  }
+}
+
+// Transient failures become NETWORK_ERROR (the client may retry); everything
+// else the API rejected becomes API_ERROR.
+function toAppError(error: unknown): AppError {
+  if (isAppError(error)) return error;
+
+  if (error instanceof OpenAI.APIUserAbortError) {
+    return createAppError("REQUEST_CANCELLED", "Request cancelled", error);
+  }
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return createAppError("NETWORK_ERROR", "The AI service timed out", error, {
+      timedOut: true,
+    });
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return createAppError(
+      "NETWORK_ERROR",
+      "Could not reach the AI service",
+      error
+    );
+  }
+  if (
+    error instanceof OpenAI.RateLimitError ||
+    error instanceof OpenAI.InternalServerError
+  ) {
+    const retryAfter = Number(error.headers?.["retry-after"]);
+    return createAppError(
+      "NETWORK_ERROR",
+      error instanceof OpenAI.RateLimitError
+        ? "The AI service is busy, try again shortly"
+        : "The AI service is temporarily unavailable",
+      error,
+      {
+        status: error.status,
+        retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+      }
+    );
+  }
+  if (error instanceof OpenAI.APIError) {
+    return createAppError(
+      "API_ERROR",
+      `AI service rejected the request (${error.status ?? "unknown"})`,
+      error,
+      { status: error.status }
+    );
+  }
+
+  return createAppError("UNKNOWN_ERROR", "Unexpected AI service error", error);
+}
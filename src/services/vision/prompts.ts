@@ -0,0 +1,235 @@
+import type { FailureDetection, HVACEquipment } from "@/types";
+import {
+  EQUIPMENT_TYPES,
+  EQUIPMENT_TYPE_VALUES,
+  getEquipmentTypeLabel,
+} from "@/services/equipmentTypes";
+import type { ValidationIssue } from "./schema";
+
+// Prompts shared by every vision provider that talks to an LLM
+
+const EQUIPMENT_TYPE_OPTIONS = EQUIPMENT_TYPE_VALUES.join("|");
+
+const EQUIPMENT_TYPE_GUIDE = EQUIPMENT_TYPES.map(
+  (type) => `  - ${type.value} (${type.label}): ${type.description}`
+).join("\n");
+
+export const LABEL_SCAN_PROMPT = `
+  You are an expert HVAC technician with 20+ years of experience reading equipment labels. Analyze this HVAC equipment nameplate/label image very carefully and extract ALL visible text and information.
+
+  READING INSTRUCTIONS:
+  1. Read EVERY piece of text visible on the label, including small print, codes, numbers, and symbols
+  2. Look at the ENTIRE image, not just the center - check corners, edges, and background areas
+  3. Pay special attention to faded, partially obscured, or small text
+  4. If text is unclear, make your best educated guess based on context and HVAC industry standards
+  5. Look for information in multiple formats (full words, abbreviations, codes)
+
+  SPECIFIC FIELDS TO FIND:
+
+  BRAND/MANUFACTURER:
+  - Look for: Company logos, brand names (Carrier, Trane, Lennox, York, Goodman, Rheem, Ruud, Bryant, Payne, etc.)
+  - Often appears at top of label or as watermark
+
+  MODEL NUMBER:
+  - Look for: "Model", "Mod", "Model No", "Model #", or standalone alphanumeric codes
+  - Often includes letters and numbers (e.g., 24ACC636A003, RTU-50TC, etc.)
+  - May be on multiple lines
+
+  SERIAL NUMBER:
+  - Look for: "Serial", "Ser", "Serial No", "Serial #", "S/N", or standalone number sequences
+  - Usually longer numeric sequences, may include letters
+
+  CAPACITY/TONNAGE:
+  - Look for: "Tons", "Ton", "Capacity", "Cap", "BTU/H", "BTUH", "Cooling Capacity"
+  - Numbers like: 2T, 3T, 4T, 5T or 24000, 36000, 48000, 60000 BTU
+  - May be written as "024", "036", "048" in model numbers (divide by 12 for tons)
+
+  BTU RATING:
+  - Look for: "BTU", "BTUH", "BTU/H", "Cooling", "Heating"
+  - Numbers typically: 18000, 24000, 36000, 48000, 60000, etc.
+
+  ELECTRICAL SPECIFICATIONS:
+  - VOLTAGE: Look for "V", "Volt", "Volts", numbers like 115, 208, 220, 230, 240, 460
+  - AMPERAGE: Look for "A", "Amp", "Amps", "FLA", "RLA", "MCA", "Max Fuse"
+  - PHASE: Look for "1Ø", "3Ø", "Single Phase", "Three Phase"
+  - HERTZ: Look for "Hz", "60Hz", "50Hz"
+
+  - MCA / MOCP: "Min Circuit Ampacity", "MCA", "Max Fuse", "Max Breaker", "MOCP", "Max Overcurrent"
+  - COMPRESSOR: "RLA" (rated load amps) and "LRA" (locked rotor amps), usually on the compressor line
+
+  REFRIGERANT:
+  - Look for: "Refrigerant", "Ref", "R-22", "R-410A", "R-404A", "R-134a", "R-407C"
+  - May be abbreviated as just "R22", "410A", etc.
+  - FACTORY CHARGE: "Factory Charge", "Charge", "lbs", "oz", "kg" next to the refrigerant
+
+  EFFICIENCY RATINGS:
+  - SEER: Look for "SEER", numbers like 13, 14, 15, 16, 17, 18, 19, 20+
+  - EER: Look for "EER", numbers like 10, 11, 12, 13, 14+
+  - AHRI: Look for "AHRI" followed by certification numbers
+
+  DATES:
+  - Manufacturing: Look for "Mfg", "Date", "Manufactured", or date formats
+  - May be coded in serial number or separate field
+  - Common formats: MM/YY, MM/YYYY, YYYY-MM-DD, or week/year codes
+
+  EQUIPMENT TYPE:
+  - Look for: "Air Conditioner", "Heat Pump", "Furnace", "Boiler", "RTU", "Package Unit", "Air Handler", "VRF"
+  - Infer from model codes: AC, HP, RTU, PU, AHU, etc.
+  - A split system condenser is "air_conditioner" (or "heat_pump" if it heats)
+
+  ADDITIONAL INFORMATION:
+  - Location/Installation codes
+  - Certification marks (UL, ETL, AHRI, etc.)
+  - Weight specifications
+  - Sound ratings
+  - Any other technical specifications
+
+  CAPACITY INFERENCE RULES:
+  - If model contains "024" = 2 tons (24,000 BTU)
+  - If model contains "036" = 3 tons (36,000 BTU)
+  - If model contains "048" = 4 tons (48,000 BTU)
+  - If model contains "060" = 5 tons (60,000 BTU)
+  - Divide BTU by 12,000 to get tons
+  - Look for context clues in surrounding text
+
+  OUTPUT FORMAT - Return ONLY valid JSON, no markdown, no code blocks:
+  {
+    "extractedText": "ALL visible text from the label, line by line",
+    "structuredData": {
+      "brand": "manufacturer name or null",
+      "model": "complete model number or null",
+      "series": "product series/line name (e.g., 'XC16', 'GSX14') or null",
+      "serialNumber": "serial number or null",
+      "capacity": "capacity with units (e.g., '3 tons', '36,000 BTU') or null",
+      "btu": integer_number_or_null,
+      "manufactureDate": "date in YYYY-MM-DD format or null",
+      "voltage": "voltage with units (e.g., '208-230V') or null",
+      "amperage": "amperage with units (e.g., '15.2A') or null",
+      "phase": 1_or_3_or_null,
+      "hertz": 50_or_60_or_null,
+      "mca": minimum_circuit_ampacity_number_or_null,
+      "mocp": max_overcurrent_protection_or_max_fuse_amps_number_or_null,
+      "rla": compressor_rated_load_amps_number_or_null,
+      "lra": compressor_locked_rotor_amps_number_or_null,
+      "refrigerantType": "refrigerant type (e.g., 'R-410A') or null",
+      "factoryCharge": "factory refrigerant charge as printed (e.g., '5 lb 8 oz') or null",
+      "seerRating": decimal_number_or_null,
+      "eerRating": decimal_number_or_null,
+      "ahriNumber": "AHRI certified reference number or null",
+      "equipmentType": "${EQUIPMENT_TYPE_OPTIONS} or null"
+    },
+    "fieldMetadata": {
+      "field_name": {"source": "scanned|ai_inferred", "confidence": 0.0-1.0, "inferenceBasis": "explanation if inferred"}
+    },
+    "confidence": number_between_0_and_1_overall_confidence
+  }
+
+  CONFIDENCE GUIDELINES:
+  - 0.9-1.0: Text is crystal clear and unambiguous
+  - 0.7-0.9: Text is clearly readable with minor uncertainty
+  - 0.5-0.7: Text is somewhat readable but may have interpretation
+  - 0.3-0.5: Text is partially obscured but educated guess possible
+  - 0.0-0.3: Text is very unclear or heavily damaged
+
+  Be thorough and extract every piece of information you can see, even if partially obscured.
+`;
+
+export const EQUIPMENT_ANALYSIS_PROMPT = `
+  Analyze these HVAC equipment images to detect failures, problems and general condition.
+
+  FIRST identify the type of HVAC equipment:
+${EQUIPMENT_TYPE_GUIDE}
+
+  Then specifically look for:
+  - Visible corrosion on metal components
+  - Refrigerant leaks (oil stains, crystals, etc.)
+  - Coil damage (bent fins, excessive dirt)
+  - Dirty or missing filters
+  - Airflow blockages
+  - Electrical damage (stripped wires, loose connections)
+  - Missing or visibly damaged components
+  - General wear and deterioration
+  - Installation problems
+  - General cleanliness and maintenance status
+
+  Evaluate maintenance urgency and give specific recommendations.
+
+  Respond ONLY with valid JSON in this exact format:
+  {
+    "equipmentType": "${EQUIPMENT_TYPE_OPTIONS}",
+    "equipmentDescription": "description of the identified equipment type",
+    "failures": [
+      {
+        "type": "corrosion|refrigerant_leak|damaged_coils|dirty_filter|blocked_airflow|electrical_damage|missing_component|wear_and_tear|improper_installation|other",
+        "severity": "low|medium|high|critical",
+        "description": "detailed description of the problem",
+        "location": "specific location of the problem or null",
+        "confidence": number_between_0_and_1,
+        "recommendations": ["recommendation 1", "recommendation 2"]
+      }
+    ],
+    "condition": "excellent|good|fair|poor|critical",
+    "urgency": "immediate|within_week|within_month|routine|none",
+    "recommendations": ["general recommendation 1", "general recommendation 2"]
+  }
+
+  Be specific in descriptions and conservative with confidence.
+`;
+
+export function buildRecommendationsPrompt(
+  equipment: Partial<HVACEquipment>,
+  failures: FailureDetection[]
+): string {
+  const equipmentInfo = `
+    Equipment: ${equipment.brand || "Unknown"} ${equipment.model || ""}
+    Type: ${getEquipmentTypeLabel(equipment.equipmentType) || "Unknown"}
+    Capacity: ${equipment.capacity || "Unknown"}
+    Refrigerant: ${equipment.refrigerantType || "Unknown"}
+    Age: ${
+      equipment.manufactureDate
+        ? new Date().getFullYear() -
+          new Date(equipment.manufactureDate).getFullYear() +
+          " years"
+        : "Unknown"
+    }
+  `;
+
+  const failuresInfo = failures
+    .map((f) => `- ${f.type} (${f.severity}): ${f.description}`)
+    .join("\n");
+
+  return `
+    As an HVAC expert, generate detailed repair recommendations for this equipment:
+
+    ${equipmentInfo}
+
+    Detected problems:
+    ${failuresInfo}
+
+    Provide specific, realistic recommendations ordered by priority.
+    Include:
+    - Specific repair steps
+    - Required tools and materials
+    - Time estimates
+    - Safety considerations
+    - When to call a professional
+
+    Respond with a JSON array of strings, each being a complete recommendation:
+    ["detailed recommendation 1", "detailed recommendation 2", ...]
+  `;
+}
+
+export function buildRepairPrompt(errors: ValidationIssue[]): string {
+  const problems = errors
+    .map((error) => `- ${error.path || "(root)"}: ${error.message}`)
+    .join("\n");
+
+  return `
+    Your previous response did not match the required JSON format:
+    ${problems}
+
+    Return the corrected response using exactly the allowed values and field
+    types from the original instructions. Respond ONLY with valid JSON, no
+    markdown and no explanations.
+  `;
+}
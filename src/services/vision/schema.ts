@@ -0,0 +1,428 @@
+import type {
+  FailureDetection,
+  FailureType,
+  FieldMetadata,
+  FieldSource,
+  HVACEquipment,
+  InspectionResult,
+  OpenAIAnalysisResponse,
+  OpenAIVisionResponse,
+} from "@/types";
+import { normalizeEquipmentType } from "@/services/equipmentTypes";
+
+// Runtime validation for model payloads. Values are coerced where the intent
+// is unambiguous ("36,000 BTU" -> 36000, "moderate" -> "medium"); anything
+// else is reported as an issue so the caller can ask the model to repair it.
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: ValidationIssue[] };
+
+type Severity = FailureDetection["severity"];
+type Condition = InspectionResult["overallCondition"];
+type Urgency = InspectionResult["maintenanceUrgency"];
+
+const FAILURE_TYPES: FailureType[] = [
+  "corrosion",
+  "refrigerant_leak",
+  "damaged_coils",
+  "dirty_filter",
+  "blocked_airflow",
+  "electrical_damage",
+  "missing_component",
+  "wear_and_tear",
+  "improper_installation",
+  "other",
+];
+
+const SEVERITY_SYNONYMS: Record<string, Severity> = {
+  low: "low",
+  minor: "low",
+  medium: "medium",
+  moderate: "medium",
+  high: "high",
+  major: "high",
+  severe: "high",
+  critical: "critical",
+  urgent: "critical",
+};
+
+const CONDITION_SYNONYMS: Record<string, Condition> = {
+  excellent: "excellent",
+  good: "good",
+  fair: "fair",
+  average: "fair",
+  poor: "poor",
+  bad: "poor",
+  critical: "critical",
+};
+
+const URGENCY_SYNONYMS: Record<string, Urgency> = {
+  immediate: "immediate",
+  urgent: "immediate",
+  within_week: "within_week",
+  week: "within_week",
+  within_month: "within_month",
+  month: "within_month",
+  routine: "routine",
+  none: "none",
+  not_required: "none",
+};
+
+const FIELD_SOURCE_SYNONYMS: Record<string, FieldSource> = {
+  scanned: "scanned",
+  ocr: "scanned",
+  read: "scanned",
+  ai_inferred: "ai_inferred",
+  inferred: "ai_inferred",
+  manual: "manual",
+};
+
+const STRING_FIELDS = [
+  "brand",
+  "model",
+  "series",
+  "serialNumber",
+  "capacity",
+  "manufactureDate",
+  "voltage",
+  "amperage",
+  "refrigerantType",
+  "factoryCharge",
+  "ahriNumber",
+] as const;
+
+const NUMBER_FIELDS = [
+  "btu",
+  "seerRating",
+  "eerRating",
+  "phase",
+  "hertz",
+  "mca",
+  "mocp",
+  "rla",
+  "lra",
+] as const;
+
+class IssueCollector {
+  errors: ValidationIssue[] = [];
+
+  add(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  result<T>(data: T): SchemaResult<T> {
+    return this.errors.length === 0
+      ? { success: true, data }
+      : { success: false, errors: this.errors };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isBlank(value: unknown): value is null | undefined | "" {
+  return value === null || value === undefined || value === "";
+}
+
+function enumKey(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+}
+
+export function coerceNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === "string") {
+    const match = value.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+    return match ? Number(match[0]) : undefined;
+  }
+  return undefined;
+}
+
+// Accepts 0-1 or a percentage (0-100)
+export function coerceConfidence(value: unknown): number | undefined {
+  const num = coerceNumber(value);
+  if (num === undefined || num < 0 || num > 100) return undefined;
+  return num > 1 ? num / 100 : num;
+}
+
+function coerceEnum<T extends string>(
+  value: unknown,
+  synonyms: Record<string, T>
+): T | undefined {
+  return typeof value === "string" ? synonyms[enumKey(value)] : undefined;
+}
+
+function coerceStringArray(
+  value: unknown,
+  path: string,
+  issues: IssueCollector
+): string[] {
+  if (isBlank(value)) return [];
+  if (typeof value === "string") return [value];
+  if (!Array.isArray(value)) {
+    issues.add(path, "must be an array of strings");
+    return [];
+  }
+  return value
+    .filter((item) => !isBlank(item))
+    .map((item) => (typeof item === "string" ? item : JSON.stringify(item)));
+}
+
+function validateFieldMetadata(
+  value: unknown,
+  issues: IssueCollector
+): Record<string, FieldMetadata> | undefined {
+  if (isBlank(value)) return undefined;
+  if (!isRecord(value)) {
+    issues.add("fieldMetadata", "must be an object");
+    return undefined;
+  }
+
+  const metadata: Record<string, FieldMetadata> = {};
+  Object.entries(value).forEach(([field, entry]) => {
+    const path = `fieldMetadata.${field}`;
+    if (!isRecord(entry)) {
+      issues.add(path, "must be an object");
+      return;
+    }
+
+    const source = coerceEnum(entry.source, FIELD_SOURCE_SYNONYMS);
+    if (!source) {
+      issues.add(
+        `${path}.source`,
+        `expected "scanned" or "ai_inferred", got ${JSON.stringify(
+          entry.source
+        )}`
+      );
+      return;
+    }
+
+    metadata[field] = {
+      source,
+      confidence: coerceConfidence(entry.confidence),
+      inferenceBasis:
+        typeof entry.inferenceBasis === "string" && entry.inferenceBasis
+          ? entry.inferenceBasis
+          : undefined,
+    };
+  });
+
+  return metadata;
+}
+
+export function validateVisionResponse(
+  raw: unknown
+): SchemaResult<OpenAIVisionResponse> {
+  const issues = new IssueCollector();
+  if (!isRecord(raw)) {
+    issues.add("", "response must be a JSON object");
+    return issues.result({} as OpenAIVisionResponse);
+  }
+
+  const rawData = isBlank(raw.structuredData) ? {} : raw.structuredData;
+  const structuredData: Partial<HVACEquipment> = {};
+
+  if (!isRecord(rawData)) {
+    issues.add("structuredData", "must be an object");
+  } else {
+    STRING_FIELDS.forEach((field) => {
+      const value = rawData[field];
+      if (isBlank(value) || value === "null") return;
+      if (typeof value === "string" || typeof value === "number") {
+        structuredData[field] = String(value).trim();
+      } else {
+        issues.add(`structuredData.${field}`, "must be a string or null");
+      }
+    });
+
+    NUMBER_FIELDS.forEach((field) => {
+      const value = rawData[field];
+      if (isBlank(value)) return;
+      const num = coerceNumber(value);
+      if (num === undefined) {
+        issues.add(
+          `structuredData.${field}`,
+          `must be a number, got ${JSON.stringify(value)}`
+        );
+      } else {
+        structuredData[field] = field === "btu" ? Math.round(num) : num;
+      }
+    });
+
+    if (!isBlank(rawData.equipmentType)) {
+      const type = normalizeEquipmentType(rawData.equipmentType);
+      if (type) {
+        structuredData.equipmentType = type;
+      } else {
+        issues.add(
+          "structuredData.equipmentType",
+          `unknown equipment type ${JSON.stringify(rawData.equipmentType)}`
+        );
+      }
+    }
+  }
+
+  let confidence = 0.6;
+  if (!isBlank(raw.confidence)) {
+    const coerced = coerceConfidence(raw.confidence);
+    if (coerced === undefined) {
+      issues.add("confidence", "must be a number between 0 and 1");
+    } else {
+      confidence = coerced;
+    }
+  }
+
+  let fieldMetadata = validateFieldMetadata(raw.fieldMetadata, issues);
+  if (!fieldMetadata) {
+    // Older prompts did not return metadata: treat every value as scanned
+    fieldMetadata = {};
+    Object.keys(structuredData).forEach((key) => {
+      fieldMetadata![key] = { source: "scanned", confidence };
+    });
+  }
+
+  return issues.result({
+    extractedText:
+      typeof raw.extractedText === "string" ? raw.extractedText : "",
+    structuredData,
+    fieldMetadata,
+    confidence,
+  });
+}
+
+function validateFailure(
+  raw: unknown,
+  index: number,
+  issues: IssueCollector
+): FailureDetection | null {
+  const path = `failures[${index}]`;
+  if (!isRecord(raw)) {
+    issues.add(path, "must be an object");
+    return null;
+  }
+
+  const severity = coerceEnum(raw.severity, SEVERITY_SYNONYMS);
+  if (!severity) {
+    issues.add(
+      `${path}.severity`,
+      `expected low|medium|high|critical, got ${JSON.stringify(raw.severity)}`
+    );
+  }
+
+  if (typeof raw.description !== "string" || !raw.description.trim()) {
+    issues.add(`${path}.description`, "is required");
+  }
+
+  const typeKey = typeof raw.type === "string" ? enumKey(raw.type) : "";
+  const type = (FAILURE_TYPES as string[]).includes(typeKey)
+    ? (typeKey as FailureType)
+    : "other";
+
+  return {
+    id:
+      typeof raw.id === "string" || typeof raw.id === "number"
+        ? String(raw.id)
+        : "",
+    type,
+    severity: severity ?? "medium",
+    description: String(raw.description ?? ""),
+    location:
+      typeof raw.location === "string" && raw.location !== "null"
+        ? raw.location
+        : undefined,
+    confidence: coerceConfidence(raw.confidence) ?? 0.5,
+    recommendations: coerceStringArray(
+      raw.recommendations,
+      `${path}.recommendations`,
+      issues
+    ),
+  };
+}
+
+export function validateAnalysisResponse(
+  raw: unknown
+): SchemaResult<OpenAIAnalysisResponse> {
+  const issues = new IssueCollector();
+  if (!isRecord(raw)) {
+    issues.add("", "response must be a JSON object");
+    return issues.result({} as OpenAIAnalysisResponse);
+  }
+
+  let failures: FailureDetection[] = [];
+  if (Array.isArray(raw.failures)) {
+    failures = raw.failures
+      .map((failure, index) => validateFailure(failure, index, issues))
+      .filter((failure): failure is FailureDetection => failure !== null);
+  } else if (!isBlank(raw.failures)) {
+    issues.add("failures", "must be an array");
+  }
+
+  const condition = coerceEnum(raw.condition, CONDITION_SYNONYMS);
+  if (!condition) {
+    issues.add(
+      "condition",
+      `expected excellent|good|fair|poor|critical, got ${JSON.stringify(
+        raw.condition
+      )}`
+    );
+  }
+
+  const urgency = coerceEnum(raw.urgency, URGENCY_SYNONYMS);
+  if (!urgency) {
+    issues.add(
+      "urgency",
+      `expected immediate|within_week|within_month|routine|none, got ${JSON.stringify(
+        raw.urgency
+      )}`
+    );
+  }
+
+  return issues.result({
+    // Free-form descriptions the taxonomy does not cover still count as
+    // equipment, so they map to "other" instead of failing the response
+    equipmentType: isBlank(raw.equipmentType)
+      ? undefined
+      : normalizeEquipmentType(raw.equipmentType) ?? "other",
+    equipmentDescription:
+      typeof raw.equipmentDescription === "string"
+        ? raw.equipmentDescription
+        : undefined,
+    failures,
+    condition: condition ?? "fair",
+    urgency: urgency ?? "routine",
+    recommendations: coerceStringArray(
+      raw.recommendations,
+      "recommendations",
+      issues
+    ),
+  });
+}
+
+export function validateRecommendations(raw: unknown): SchemaResult<string[]> {
+  const issues = new IssueCollector();
+  const list = isRecord(raw) ? raw.recommendations : raw;
+  if (!Array.isArray(list)) {
+    issues.add("", "response must be a JSON array of strings");
+    return issues.result([]);
+  }
+  return issues.result(coerceStringArray(list, "", issues));
+}
+
+export function formatValidationIssues(errors: ValidationIssue[]): string {
+  return errors
+    .map((error) =>
+      error.path ? `${error.path}: ${error.message}` : error.message
+    )
+    .join("; ");
+}
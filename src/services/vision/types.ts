@@ -0,0 +1,34 @@
+import type {
+  EncodedImage,
+  FailureDetection,
+  HVACEquipment,
+  OpenAIAnalysisResponse,
+  OpenAIVisionResponse,
+} from "@/types";
+
+export interface VisionRequestOptions {
+  // Aborted when the client disconnects or cancels the request
+  signal?: AbortSignal;
+}
+
+// Contract every vision backend implements. Providers return the raw model
+// payloads; mapping to LabelScanResult / InspectionResult happens in
+// services/inspection.ts so all providers share the same post-processing.
+export interface VisionProvider {
+  readonly name: string;
+  scanLabel(
+    image: EncodedImage,
+    options?: VisionRequestOptions
+  ): Promise<OpenAIVisionResponse>;
+  analyzeEquipment(
+    images: EncodedImage[],
+    options?: VisionRequestOptions
+  ): Promise<OpenAIAnalysisResponse>;
+  generateRecommendations(
+    equipment: Partial<HVACEquipment>,
+    failures: FailureDetection[],
+    options?: VisionRequestOptions
+  ): Promise<string[]>;
+}
+
+export type VisionProviderName = "openai" | "fixture";
@@ -7,43 +7,127 @@ export interface FieldMetadata {
   source: FieldSource;
   confidence?: number;
   inferenceBasis?: string; // What data was used to infer this value
+  sourceImage?: number; // Index of the label photo the value was read from
 }
 
+// Different readings of the same field across several label photos
+export interface FieldConflict {
+  field: keyof HVACEquipment;
+  candidates: {
+    value: string | number;
+    confidence: number;
+    imageIndex: number;
+  }[];
+}
+
+// Canonical equipment taxonomy; labels and legacy mappings live in
+// services/equipmentTypes
+export type EquipmentType =
+  | "air_conditioner"
+  | "heat_pump"
+  | "mini_split"
+  | "vrf"
+  | "rooftop_unit"
+  | "package_unit"
+  | "furnace"
+  | "boiler"
+  | "chiller"
+  | "air_handler"
+  | "ductwork"
+  | "other";
+
+export type EquipmentCategory =
+  | "split_system"
+  | "packaged"
+  | "heating"
+  | "commercial"
+  | "other";
+
 export interface HVACEquipment {
   id: string;
   brand?: string;
   model?: string;
+  series?: string; // Product line, e.g. "GSX14" or "XC16"
   serialNumber?: string;
   capacity?: string;
   btu?: number;
   manufactureDate?: string;
   voltage?: string;
   amperage?: string;
+  phase?: number; // 1 or 3
+  hertz?: number;
+  mca?: number; // Minimum circuit ampacity, amps
+  mocp?: number; // Max overcurrent protection / max fuse, amps
+  rla?: number; // Compressor rated load amps
+  lra?: number; // Compressor locked rotor amps
   refrigerantType?: string;
+  factoryCharge?: string; // As printed, e.g. "5 lb 8 oz" or "2.49 kg"
   seerRating?: number;
   eerRating?: number;
-  equipmentType?:
-    | "air_conditioner"
-    | "heat_pump"
-    | "furnace"
-    | "ductwork"
-    | "other";
+  ahriNumber?: string; // AHRI certified reference number
+  equipmentType?: EquipmentType;
   location?: string;
   notes?: string;
+  specs?: NameplateSpecs; // Parsed from voltage/amperage/capacity on save
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Structured nameplate values parsed from the free-form fields
+export interface VoltageSpec {
+  minVolts: number;
+  maxVolts: number;
+  phase?: 1 | 3;
+  hertz?: number;
+}
+
+export interface AmperageSpec {
+  rla?: number; // Rated load amps (compressor)
+  lra?: number; // Locked rotor amps
+  fla?: number; // Full load amps (fan motor)
+  mca?: number; // Minimum circuit ampacity
+  amps?: number; // Unlabelled value
+}
+
+export interface CapacitySpec {
+  tons: number;
+  btuPerHour: number;
+}
+
+export interface NameplateSpecs {
+  voltage?: VoltageSpec;
+  amperage?: AmperageSpec;
+  capacity?: CapacitySpec;
+}
+
+// One entry of an equipment record's change log. Entries are never edited
+// or deleted, so the original scanned value survives later corrections.
+export interface EquipmentChange {
+  id: string;
+  equipmentId: string;
+  field: keyof HVACEquipment;
+  oldValue?: string | number;
+  newValue?: string | number;
+  source: FieldSource;
+  confidence?: number;
+  changedAt: Date;
+  technician?: string;
+  reportId?: string; // Inspection the change was saved with
+}
+
 // Enhanced equipment with field metadata
 export interface HVACEquipmentWithMetadata extends HVACEquipment {
   fieldMetadata?: {
     [K in keyof Omit<
       HVACEquipment,
-      "id" | "createdAt" | "updatedAt" | "location" | "notes"
+      "id" | "createdAt" | "updatedAt" | "location" | "notes" | "specs"
     >]?: FieldMetadata;
   };
   processingTime?: number;
   scanConfidence?: number;
+  fieldConflicts?: FieldConflict[];
+  // Scanned values that contradict what the serial/model numbers encode
+  scanWarnings?: string[];
 }
 
 export interface LabelScanResult {
@@ -51,6 +135,7 @@ export interface LabelScanResult {
   extractedData: HVACEquipmentWithMetadata;
   rawText: string;
   processingTime: number;
+  imageCount: number;
 }
 
 export interface FailureDetection {
@@ -76,7 +161,7 @@ export type FailureType =
   | "other";
 
 export interface InspectionResult {
-  equipmentType?: string;
+  equipmentType?: EquipmentType;
   equipmentDescription?: string;
   failures: FailureDetection[];
   overallCondition: "excellent" | "good" | "fair" | "poor" | "critical";
@@ -90,19 +175,31 @@ export interface InspectionResult {
   processingTime: number;
 }
 
+// Image reference kept on reports; the pixels live in the images store
 export interface CapturedImage {
   id: string;
-  url: string;
+  url?: string; // Object URL for display, only valid for the current page
   type: "label" | "equipment";
   equipmentId?: string;
+  reportId?: string;
   capturedAt: Date;
   fileSize: number;
+  mimeType?: string;
   dimensions?: {
     width: number;
     height: number;
   };
 }
 
+// Row of the images store: the photo plus a small preview for lists
+export interface StoredImage extends Omit<CapturedImage, "url"> {
+  blob: Blob;
+  thumbnail: Blob;
+  // Storage policies can shrink the original; "thumbnail" means `blob` is
+  // the thumbnail itself
+  quality?: "original" | "downsampled" | "thumbnail";
+}
+
 export interface InspectionReport {
   id: string;
   equipmentId: string;
@@ -115,6 +212,7 @@ export interface InspectionReport {
   createdAt: Date;
   completedAt?: Date;
   notes?: string;
+  technician?: string; // Name set in Settings on the device that inspected
 }
 
 export interface CameraCapture {
@@ -123,10 +221,17 @@ export interface CameraCapture {
   timestamp: Date;
 }
 
+export type ProcessingStage =
+  | "preprocessing"
+  | "uploading"
+  | "analyzing"
+  | "extracting"
+  | "generating_report";
+
 export interface ProcessingStatus {
   isProcessing: boolean;
-  stage?: "uploading" | "analyzing" | "extracting" | "generating_report";
-  progress?: number;
+  stage?: ProcessingStage;
+  progress?: number; // 0-1 within the current stage, when measurable
   message?: string;
 }
 
@@ -146,6 +251,20 @@ export interface APIResponse<T = unknown> {
   message?: string;
 }
 
+// One page of a server-side list; `total` counts every matching record
+export interface PaginatedResponse<T> {
+  items: T[];
+  page: number; // 1-based
+  pageSize: number;
+  total: number;
+}
+
+// Image payload sent to the vision model (base64 without data URL prefix)
+export interface EncodedImage {
+  data: string;
+  mimeType: string;
+}
+
 export interface OpenAIVisionResponse {
   extractedText: string;
   structuredData: Partial<HVACEquipment>;
@@ -156,7 +275,7 @@ export interface OpenAIVisionResponse {
 }
 
 export interface OpenAIAnalysisResponse {
-  equipmentType?: string;
+  equipmentType?: EquipmentType;
   equipmentDescription?: string;
   failures: FailureDetection[];
   condition: InspectionResult["overallCondition"];
@@ -180,12 +299,125 @@ export interface DatabaseEquipment
   updatedAt: string;
 }
 
+export interface DatabaseCapturedImage
+  extends Omit<CapturedImage, "url" | "capturedAt"> {
+  capturedAt: string;
+}
+
+export interface DatabaseStoredImage extends Omit<StoredImage, "capturedAt"> {
+  capturedAt: string;
+}
+
+export interface DatabaseEquipmentChange
+  extends Omit<EquipmentChange, "changedAt"> {
+  changedAt: string;
+}
+
+// Reports reference their equipment by `equipmentId` instead of embedding it
 export interface DatabaseInspectionReport
-  extends Omit<InspectionReport, "createdAt" | "completedAt" | "equipment"> {
+  extends Omit<
+    InspectionReport,
+    | "createdAt"
+    | "completedAt"
+    | "equipment"
+    | "labelImages"
+    | "equipmentImages"
+  > {
+  labelImages: DatabaseCapturedImage[];
+  equipmentImages: DatabaseCapturedImage[];
   createdAt: string;
   completedAt?: string;
 }
 
+// Sync types
+export type SyncStoreName = "equipment" | "reports" | "images";
+
+// A record as held by the sync server. `revision` comes from one counter
+// across all stores, so it doubles as the pull cursor. Deleted records stay
+// as tombstones without data; image blobs travel base64-encoded.
+export interface SyncRecord {
+  store: SyncStoreName;
+  id: string;
+  revision: number;
+  deleted: boolean;
+  data?: Record<string, unknown>;
+}
+
+export interface SyncPushChange {
+  store: SyncStoreName;
+  id: string;
+  baseRevision: number | null; // Server revision the change was made on
+  deleted: boolean;
+  data?: Record<string, unknown>;
+}
+
+export type SyncPushResult =
+  | { store: SyncStoreName; id: string; status: "applied"; revision: number }
+  // Someone else pushed first; the client merges and pushes again
+  | {
+      store: SyncStoreName;
+      id: string;
+      status: "conflict";
+      current: SyncRecord;
+    };
+
+export interface SyncPullResponse {
+  changes: SyncRecord[];
+  cursor: number;
+  hasMore: boolean;
+}
+
+// Sync bookkeeping per local record. `dirty` counts local writes since the
+// last successful push; `base` is the record as last agreed with the server,
+// used to tell which side changed a field.
+export interface SyncState {
+  key: string; // `${store}:${recordId}`
+  store: SyncStoreName;
+  recordId: string;
+  revision: number | null;
+  dirty: number;
+  deleted: boolean;
+  base?: Record<string, unknown>;
+}
+
+// A field both this device and the server changed. The record holds the
+// automatically chosen value until the technician picks one.
+export interface SyncConflict {
+  id: string;
+  store: SyncStoreName;
+  recordId: string;
+  field: string;
+  localValue?: unknown;
+  remoteValue?: unknown;
+  detectedAt: Date;
+}
+
+export interface DatabaseSyncConflict extends Omit<SyncConflict, "detectedAt"> {
+  detectedAt: string;
+}
+
+// Capture queue types
+export type CaptureJobKind = "scan_label" | "analyze_equipment";
+
+// AI work on a draft report, deferred until the device is online. Jobs are
+// removed once they succeed; "failed" ones wait for a manual retry.
+export interface CaptureJob {
+  id: string;
+  reportId: string;
+  kind: CaptureJobKind;
+  status: "pending" | "running" | "failed";
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  createdAt: Date;
+}
+
+export interface DatabaseCaptureJob
+  extends Omit<CaptureJob, "nextAttemptAt" | "createdAt"> {
+  nextAttemptAt: string;
+  createdAt: string;
+}
+
 // Navigation types
 export type ScreenName =
   | "home"
@@ -204,7 +436,7 @@ export interface NavigationState {
 
 // Error types
 export interface AppError {
-  code: string;
+  code: ErrorCode;
   message: string;
   details?: Record<string, unknown>;
   timestamp: Date;
@@ -218,4 +450,8 @@ export type ErrorCode =
   | "API_ERROR"
   | "PROCESSING_ERROR"
   | "STORAGE_ERROR"
+  | "REQUEST_CANCELLED"
+  | "INVALID_REQUEST"
+  | "UNAUTHORIZED"
+  | "NOT_FOUND"
   | "UNKNOWN_ERROR";